@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button, List, Modal, Upload, message } from 'antd';
+import { PaperClipOutlined, UploadOutlined, DeleteOutlined, EyeOutlined } from '@ant-design/icons';
+import { MindMapAttachment } from '../types/MindMap';
+import { createAttachment, getAttachmentBlob, formatFileSize } from '../utils/attachmentUtils';
+
+// 可以在新窗口中预览的类型，这些类型不会执行脚本
+const PREVIEW_TYPES = /^(image\/(png|jpeg|gif|webp|bmp)|application\/pdf|audio\/[\w.+-]+|video\/[\w.+-]+)$/;
+
+// 附件列表属性，作为表单控件使用
+interface AttachmentListProps {
+  value?: MindMapAttachment[];
+  onChange?: (value: MindMapAttachment[]) => void;
+  directoryHandle?: FileSystemDirectoryHandle | null;
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ value = [], onChange, directoryHandle }) => {
+  const [uploading, setUploading] = useState(false);
+
+  // 添加附件，多个文件依次保存
+  const handleAdd = async (files: File[]) => {
+    setUploading(true);
+    const added: MindMapAttachment[] = [];
+    for (const file of files) {
+      try {
+        added.push(await createAttachment(file, directoryHandle));
+      } catch (error) {
+        console.error('添加附件时出错:', error);
+        message.error(`添加附件失败: ${file.name}`);
+      }
+    }
+    setUploading(false);
+    if (added.length > 0) {
+      onChange?.([...value, ...added]);
+    }
+  };
+
+  // 在新窗口中预览附件，文本（包括网页）按纯文本显示，SVG等可能包含脚本的类型和其他类型直接下载
+  // 附件可能来自他人分享的文件，不能以应用的权限执行其中的脚本
+  const handleOpen = async (attachment: MindMapAttachment) => {
+    try {
+      const blob = await getAttachmentBlob(attachment, directoryHandle);
+      const previewType = PREVIEW_TYPES.test(attachment.type)
+        ? attachment.type
+        : attachment.type.startsWith('text/') ? 'text/plain;charset=utf-8' : null;
+      const url = URL.createObjectURL(new Blob([blob], { type: previewType || 'application/octet-stream' }));
+      const opened = previewType ? window.open(url, '_blank') : null;
+      if (!opened) {
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = attachment.name;
+        a.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('打开附件时出错:', error);
+      message.error(error instanceof Error ? error.message : '打开附件失败');
+    }
+  };
+
+  // 移除附件，附件内容在保存后没有任何画布和文件引用时清理
+  const handleRemove = (attachment: MindMapAttachment) => {
+    Modal.confirm({
+      title: '移除附件',
+      content: `确定要移除附件「${attachment.name}」吗？`,
+      okText: '移除',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: () => onChange?.(value.filter(item => item.id !== attachment.id)),
+    });
+  };
+
+  return (
+    <div>
+      <Upload
+        multiple
+        showUploadList={false}
+        beforeUpload={(file, fileList) => {
+          // 多选时只在最后一个文件处理整个列表
+          if (file === fileList[fileList.length - 1]) {
+            handleAdd(fileList);
+          }
+          return false;
+        }}
+      >
+        <Button icon={<UploadOutlined />} loading={uploading} size="small">
+          添加附件
+        </Button>
+      </Upload>
+      {value.length > 0 && (
+        <List
+          size="small"
+          style={{ marginTop: '8px' }}
+          dataSource={value}
+          renderItem={attachment => (
+            <List.Item
+              actions={[
+                <Button
+                  key="open"
+                  type="link"
+                  size="small"
+                  icon={<EyeOutlined />}
+                  onClick={() => handleOpen(attachment)}
+                >
+                  打开
+                </Button>,
+                <Button
+                  key="remove"
+                  type="link"
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleRemove(attachment)}
+                >
+                  移除
+                </Button>,
+              ]}
+            >
+              <span style={{ display: 'flex', alignItems: 'center', gap: '6px', minWidth: 0 }}>
+                <PaperClipOutlined style={{ color: '#999' }} />
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={attachment.name}>
+                  {attachment.name}
+                </span>
+                <span style={{ fontSize: '12px', color: '#999', flexShrink: 0 }}>
+                  {formatFileSize(attachment.size)}
+                </span>
+              </span>
+            </List.Item>
+          )}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactFlow, { Node as FlowNode, Edge, Background, Controls, ReactFlowProvider, useReactFlow, NodeTypes } from 'reactflow';
+import { Button, Space, Tabs, Tooltip, message } from 'antd';
+import { UploadOutlined, SwapOutlined, CloseOutlined } from '@ant-design/icons';
+import { MindMapData } from '../types/MindMap';
+import { loadFromFile } from '../utils/fileUtils';
+import { themeToFlow, normalizeMindMapData, NODE_WIDTH, NODE_HEIGHT } from '../utils/mindMapConverter';
+import {
+  MindMapDiff,
+  NodeChange,
+  NodeChangeType,
+  LinkChange,
+  diffMindMaps,
+  formatMindMapDiffSummary,
+  formatNodeFieldValue,
+  DIFF_FIELD_LABELS,
+} from '../utils/mindMapDiff';
+import CustomNode from './CustomNode';
+
+// 对比视图属性
+interface CompareViewProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type VersionKey = 'before' | 'after';
+
+// 用户选择的文件
+interface SelectedFile {
+  name: string;
+  data: MindMapData;
+}
+
+const VERSION_LABELS: Record<VersionKey, string> = {
+  before: '旧版本',
+  after: '新版本',
+};
+
+// 各类变化的显示名称和颜色
+const CHANGE_TYPE_LABELS: Record<NodeChangeType, string> = {
+  added: '新增',
+  removed: '删除',
+  moved: '移动',
+  changed: '修改',
+};
+
+const CHANGE_TYPE_COLORS: Record<NodeChangeType, string> = {
+  added: '#52c41a',
+  removed: '#f5222d',
+  moved: '#1890ff',
+  changed: '#faad14',
+};
+
+const LINK_CHANGE_LABELS: Record<LinkChange['type'], string> = {
+  added: '新增',
+  removed: '删除',
+  changed: '修改文字',
+};
+
+const nodeTypes: NodeTypes = {
+  custom: CustomNode,
+};
+
+// 描述等较长的值只显示开头
+const truncate = (text: string, length = 60): string =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+// 节点在树中的位置
+const formatPath = (change: NodeChange, side: 'before' | 'after'): string => {
+  const flat = change[side];
+  return flat ? [flat.themeTitle, ...flat.path].join(' / ') : '';
+};
+
+// 主题的画布内容，新版本的节点加上旧版本中被删除或移出该主题的节点，并按变化类型着色
+const buildCompareContent = (
+  before: MindMapData,
+  after: MindMapData,
+  diff: MindMapDiff,
+  themeId: string,
+  selectedId: string | null
+): { nodes: FlowNode[]; edges: Edge[] } => {
+  const beforeTheme = before.mindMaps.find(theme => theme.id === themeId);
+  const afterTheme = after.mindMaps.find(theme => theme.id === themeId);
+  const beforeFlow = beforeTheme ? themeToFlow(beforeTheme) : { nodes: [], edges: [] };
+  const afterFlow = afterTheme ? themeToFlow(afterTheme) : { nodes: [], edges: [] };
+  const changeTypes = new Map(diff.nodes.map(change => [change.id, change.type]));
+
+  const decorate = (node: FlowNode, type?: NodeChangeType): FlowNode => ({
+    ...node,
+    selected: node.id === selectedId,
+    data: {
+      ...node.data,
+      isLocked: true,
+      highlightColor: type ? CHANGE_TYPE_COLORS[type] : undefined,
+    },
+  });
+  // 不在新版本该主题中的旧节点：在比较结果中被删除的显示为删除，移到其他主题的显示为移动
+  const afterIds = new Set(afterFlow.nodes.map(node => node.id));
+  const nodes = [
+    ...afterFlow.nodes.map(node => decorate(node, changeTypes.get(node.id))),
+    ...beforeFlow.nodes
+      .filter(node => !afterIds.has(node.id))
+      .map(node => decorate(node, changeTypes.get(node.id) === 'removed' ? 'removed' : 'moved')),
+  ];
+  const nodeIds = new Set(nodes.map(node => node.id));
+
+  // 连线按源节点和目标节点对应，新增的为绿色，删除的为红色虚线，文字有修改的为橙色
+  const edgeKey = (edge: Edge) => `${edge.source}->${edge.target}`;
+  const beforeEdges = new Map(beforeFlow.edges.map(edge => [edgeKey(edge), edge]));
+  const afterKeys = new Set(afterFlow.edges.map(edgeKey));
+  const styleEdge = (edge: Edge, color?: string, dashed = false): Edge => ({
+    ...edge,
+    type: 'default',
+    label: edge.data?.label || undefined,
+    style: { stroke: color || '#b1b1b7', strokeWidth: color ? 2 : 1, strokeDasharray: dashed ? '5 5' : undefined },
+  });
+  const edges = [
+    ...afterFlow.edges.map(edge => {
+      const previous = beforeEdges.get(edgeKey(edge));
+      if (!previous) return styleEdge(edge, CHANGE_TYPE_COLORS.added);
+      if ((previous.data?.label || '') !== (edge.data?.label || '')) return styleEdge(edge, CHANGE_TYPE_COLORS.changed);
+      return styleEdge(edge);
+    }),
+    ...beforeFlow.edges
+      .filter(edge => !afterKeys.has(edgeKey(edge)) && nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .map(edge => styleEdge({ ...edge, id: `removed-${edge.id}` }, CHANGE_TYPE_COLORS.removed, true)),
+  ];
+
+  return { nodes, edges };
+};
+
+const CompareContent: React.FC<CompareViewProps> = ({ onClose }) => {
+  const reactFlowInstance = useReactFlow();
+  const [files, setFiles] = useState<Partial<Record<VersionKey, SelectedFile>>>({});
+  const [activeThemeId, setActiveThemeId] = useState<string>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // 选择某个版本的文件
+  const handleSelectFile = async (key: VersionKey) => {
+    try {
+      const loaded = await loadFromFile();
+      if (loaded) {
+        // 按加载到画布的方式整理，避免默认值被当作修改
+        setFiles(prev => ({ ...prev, [key]: { name: loaded.fileName, data: normalizeMindMapData(loaded.data) } }));
+        setSelectedId(null);
+      }
+    } catch (error) {
+      console.error('加载对比文件时出错:', error);
+      message.error('加载失败：' + (error instanceof Error ? error.message : '未知错误'));
+    }
+  };
+
+  const before = files.before?.data;
+  const after = files.after?.data;
+  const diff = useMemo(() => (before && after ? diffMindMaps(before, after) : null), [before, after]);
+
+  // 两个版本的所有主题，新版本中删除的主题排在最后
+  const themes = useMemo(() => {
+    if (!before || !after) return [];
+    const afterIds = new Set(after.mindMaps.map(theme => theme.id));
+    return [...after.mindMaps, ...before.mindMaps.filter(theme => !afterIds.has(theme.id))];
+  }, [before, after]);
+
+  // 当前主题不存在时显示第一个主题
+  useEffect(() => {
+    if (themes.length > 0 && !themes.some(theme => theme.id === activeThemeId)) {
+      setActiveThemeId(themes[0].id);
+    }
+  }, [themes, activeThemeId]);
+
+  const content = useMemo(
+    () => (before && after && diff ? buildCompareContent(before, after, diff, activeThemeId, selectedId) : { nodes: [], edges: [] }),
+    [before, after, diff, activeThemeId, selectedId]
+  );
+
+  // 切换主题后显示所有节点
+  useEffect(() => {
+    const timer = setTimeout(() => reactFlowInstance.fitView({ padding: 0.2, duration: 300 }), 50);
+    return () => clearTimeout(timer);
+  }, [activeThemeId, before, after, reactFlowInstance]);
+
+  // 选中变化的节点并移动到画布中央
+  const focusNode = (nodeId: string, themeId?: string) => {
+    setSelectedId(nodeId);
+    if (themeId && themeId !== activeThemeId) {
+      setActiveThemeId(themeId);
+    }
+    setTimeout(() => {
+      const node = reactFlowInstance.getNode(nodeId);
+      if (node) {
+        reactFlowInstance.setCenter(node.position.x + NODE_WIDTH / 2, node.position.y + NODE_HEIGHT / 2, { zoom: 1.2, duration: 500 });
+      }
+    }, 100);
+  };
+
+  // 节点标题，用于显示连线的两端
+  const getNodeTitle = (nodeId: string): string => {
+    const change = diff?.nodes.find(item => item.id === nodeId);
+    if (change) return change.title;
+    const node = content.nodes.find(item => item.id === nodeId);
+    return node ? node.data.nodeData.title : nodeId;
+  };
+
+  // 一个节点的变化
+  const renderNodeChange = (change: NodeChange) => {
+    const themeId = (change.after || change.before)?.themeId;
+    return (
+      <div
+        key={change.id}
+        onClick={() => focusNode(change.id, themeId)}
+        style={{
+          padding: '8px 12px',
+          cursor: 'pointer',
+          borderBottom: '1px solid #f0f0f0',
+          backgroundColor: change.id === selectedId ? 'rgba(24, 144, 255, 0.1)' : 'transparent',
+          transition: 'all 0.3s',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ fontSize: '12px', color: CHANGE_TYPE_COLORS[change.type], flexShrink: 0 }}>
+            {CHANGE_TYPE_LABELS[change.type]}
+          </span>
+          <span style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {change.title || '未命名节点'}
+          </span>
+        </div>
+        <div style={{ fontSize: '12px', color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {formatPath(change, change.after ? 'after' : 'before')}
+        </div>
+        {change.fields.map(field => (
+          <div key={field.field} style={{ fontSize: '12px', color: '#666', wordBreak: 'break-word' }}>
+            {DIFF_FIELD_LABELS[field.field]}：
+            <span style={{ color: '#999', textDecoration: 'line-through' }}>
+              {truncate(formatNodeFieldValue(field.field, field.before)) || '（空）'}
+            </span>
+            {' → '}
+            {truncate(formatNodeFieldValue(field.field, field.after)) || '（空）'}
+          </div>
+        ))}
+        {change.moved && (
+          <div style={{ fontSize: '12px', color: '#666', wordBreak: 'break-word' }}>
+            位置：
+            <span style={{ color: '#999', textDecoration: 'line-through' }}>{formatPath(change, 'before')}</span>
+            {' → '}
+            {formatPath(change, 'after')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, zIndex: 1000, background: '#fff', display: 'flex' }}>
+      <div style={{ flex: 1, position: 'relative', minWidth: 0 }}>
+        {/* 文件选择和主题切换 */}
+        <div style={{
+          position: 'absolute',
+          top: 20,
+          left: 20,
+          zIndex: 10,
+          maxWidth: 'calc(100% - 40px)',
+          background: 'rgba(255, 255, 255, 0.9)',
+          padding: '8px 12px',
+          borderRadius: '4px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}>
+          <Space wrap>
+            <span style={{ fontSize: '16px', fontWeight: 'bold' }}>对比</span>
+            {(Object.keys(VERSION_LABELS) as VersionKey[]).map(key => (
+              <Button key={key} size="small" icon={<UploadOutlined />} onClick={() => handleSelectFile(key)}>
+                {VERSION_LABELS[key]}：{files[key] ? files[key]!.name : '选择文件'}
+              </Button>
+            ))}
+            <Tooltip title="交换新旧版本" mouseEnterDelay={0.5} destroyTooltipOnHide>
+              <Button
+                size="small"
+                icon={<SwapOutlined />}
+                onClick={() => setFiles(prev => ({ before: prev.after, after: prev.before }))}
+                disabled={!files.before && !files.after}
+              />
+            </Tooltip>
+            <Button size="small" icon={<CloseOutlined />} onClick={onClose}>
+              退出对比
+            </Button>
+          </Space>
+          {themes.length > 1 && (
+            <Tabs
+              size="small"
+              activeKey={activeThemeId}
+              onChange={setActiveThemeId}
+              tabBarStyle={{ margin: '4px 0 0' }}
+              items={themes.map(theme => ({ key: theme.id, label: theme.title || '未命名主题' }))}
+            />
+          )}
+          <Space size="middle" style={{ marginTop: '4px', fontSize: '12px' }}>
+            {(Object.keys(CHANGE_TYPE_LABELS) as NodeChangeType[]).map(type => (
+              <span key={type} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+                <span style={{ width: '10px', height: '10px', borderRadius: '2px', border: `2px solid ${CHANGE_TYPE_COLORS[type]}` }} />
+                {CHANGE_TYPE_LABELS[type]}
+              </span>
+            ))}
+          </Space>
+        </div>
+
+        <ReactFlow
+          nodes={content.nodes}
+          edges={content.edges}
+          nodeTypes={nodeTypes}
+          onNodeClick={(event, node) => setSelectedId(node.id)}
+          onPaneClick={() => setSelectedId(null)}
+          nodesDraggable={false}
+          nodesConnectable={false}
+          elementsSelectable={false}
+          minZoom={0.1}
+          maxZoom={2}
+        >
+          <Background />
+          <Controls showInteractive={false} />
+        </ReactFlow>
+      </div>
+
+      {/* 变化列表 */}
+      <div style={{ width: '360px', borderLeft: '1px solid #f0f0f0', overflow: 'auto', flexShrink: 0 }}>
+        {!diff ? (
+          <div style={{ padding: '20px 12px', color: '#999' }}>
+            请选择要对比的旧版本和新版本文件，节点按ID对应
+          </div>
+        ) : (
+          <>
+            <div style={{ padding: '12px', borderBottom: '1px solid #f0f0f0', fontWeight: 'bold' }}>
+              {formatMindMapDiffSummary(diff)}
+            </div>
+            {diff.themes.map(change => (
+              <div key={change.id} style={{ padding: '8px 12px', borderBottom: '1px solid #f0f0f0', cursor: 'pointer' }} onClick={() => setActiveThemeId(change.id)}>
+                <span style={{ fontSize: '12px', color: '#999', marginRight: '6px' }}>主题</span>
+                {change.type === 'added' && `新增「${change.after}」`}
+                {change.type === 'removed' && `删除「${change.before}」`}
+                {change.type === 'renamed' && `「${change.before}」重命名为「${change.after}」`}
+              </div>
+            ))}
+            {diff.nodes.map(renderNodeChange)}
+            {diff.links.map(change => {
+              const link = (change.after || change.before)!;
+              return (
+                <div
+                  key={change.key}
+                  style={{ padding: '8px 12px', borderBottom: '1px solid #f0f0f0', cursor: 'pointer' }}
+                  onClick={() => focusNode(link.source, change.themeId)}
+                >
+                  <div>
+                    <span style={{ fontSize: '12px', color: '#999', marginRight: '6px' }}>连线</span>
+                    {getNodeTitle(link.source)} → {getNodeTitle(link.target)}
+                    <span style={{ marginLeft: '6px', fontSize: '12px', color: CHANGE_TYPE_COLORS[change.type === 'changed' ? 'changed' : change.type] }}>
+                      {LINK_CHANGE_LABELS[change.type]}
+                    </span>
+                  </div>
+                  {change.type === 'changed' && (
+                    <div style={{ fontSize: '12px', color: '#666' }}>
+                      <span style={{ color: '#999', textDecoration: 'line-through' }}>{change.before?.label || '（空）'}</span>
+                      {' → '}
+                      {change.after?.label || '（空）'}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 对比两个版本的思维导图，使用独立的画布，不影响当前编辑的内容
+const CompareView: React.FC<CompareViewProps> = props => {
+  if (!props.open) return null;
+  return (
+    <ReactFlowProvider>
+      <CompareContent {...props} />
+    </ReactFlowProvider>
+  );
+};
+
+export default CompareView;
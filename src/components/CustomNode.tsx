@@ -1,7 +1,21 @@
-import React from 'react';
+import React, { useContext } from 'react';
 import { Handle, Position } from 'reactflow';
 import { Tooltip } from 'antd';
+import { PaperClipOutlined } from '@ant-design/icons';
 import { MindMapNode } from '../types/MindMap';
+import {
+  getPriorityColor,
+  getStatusColor,
+  getDueDateStatus,
+  getDueDateColor,
+  formatShortDate as formatDate,
+  getTagColor,
+  MAX_VISIBLE_TAGS,
+  DIMMED_OPACITY,
+} from '../utils/nodeStyles';
+import { NodeProgress, getProgressPercent } from '../utils/nodeProgress';
+import { htmlToPlainText } from '../utils/htmlUtils';
+import { HighlightedText } from './SearchPanel';
 
 // 自定义节点属性接口
 interface CustomNodeProps {
@@ -9,87 +23,53 @@ interface CustomNodeProps {
     label: string;
     nodeData: MindMapNode;
     isLocked?: boolean;
+    // 突出显示节点的边框颜色，如对比时的新增、删除和修改
+    highlightColor?: string;
+    // 搜索时突出显示标题中匹配的文字
+    highlightText?: string;
+    // 不符合筛选条件时淡化显示
+    dimmed?: boolean;
   };
   selected?: boolean;
   id: string;
 }
 
+// 画布中节点的折叠信息，没有提供时节点不显示折叠按钮
+export interface NodeCollapseContextValue {
+  // 有出边、可以折叠的节点
+  parentIds: Set<string>;
+  // 折叠的节点隐藏的后代数量
+  hiddenCounts: Map<string, number>;
+  onToggle: (nodeId: string) => void;
+}
+
+export const NodeCollapseContext = React.createContext<NodeCollapseContextValue | null>(null);
+
+// 画布中父节点的完成进度，由后代节点的状态汇总
+export const NodeProgressContext = React.createContext<Map<string, NodeProgress> | null>(null);
+
 // 从HTML中提取纯文本
 const extractTextFromHtml = (html: string): string => {
   if (!html) return '';
   
-  // 创建临时DOM元素
-  const tempDiv = document.createElement('div');
-  tempDiv.innerHTML = html;
-  
-  // 获取纯文本内容
-  const text = tempDiv.textContent || tempDiv.innerText || '';
+  // 在独立的文档中解析，描述中的图片等资源不会被加载
+  const text = htmlToPlainText(html).replace(/\s+/g, ' ');
   
   // 返回截断的文本
   return text.length > 50 ? text.substring(0, 50) + '...' : text;
 };
 
-const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
-  const { nodeData, isLocked } = data;
+const CustomNode: React.FC<CustomNodeProps> = ({ data, selected, id }) => {
+  const { nodeData, isLocked, highlightColor, highlightText, dimmed } = data;
+  const collapseContext = useContext(NodeCollapseContext);
+  const hiddenCount = collapseContext?.hiddenCounts.get(id) || 0;
+  const progress = useContext(NodeProgressContext)?.get(id);
   const startDate = nodeData.start_date ? new Date(nodeData.start_date) : null;
   const dueDate = nodeData.due_date ? new Date(nodeData.due_date) : null;
   
-  // 格式化日期为 MM-DD 格式
-  const formatDate = (date: Date | null) => {
-    if (!date) return '';
-    return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
-  };
-  
-  // 计算日期状态
-  const getDueDateStatus = () => {
-    if (!dueDate) return '';
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    if (dueDate < today) {
-      return 'overdue';
-    } else if (dueDate.getTime() === today.getTime()) {
-      return 'today';
-    } else {
-      const diffTime = Math.abs(dueDate.getTime() - today.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      if (diffDays <= 3) {
-        return 'soon';
-      }
-    }
-    return '';
-  };
-  
-  const dueDateStatus = getDueDateStatus();
-  
-  // 根据优先级获取颜色
-  const getPriorityColor = () => {
-    switch (nodeData.priority) {
-      case 'high':
-        return '#f5222d';
-      case 'medium':
-        return '#faad14';
-      case 'low':
-        return '#52c41a';
-      default:
-        return '#d9d9d9';
-    }
-  };
-  
-  // 根据状态获取颜色
-  const getStatusColor = () => {
-    switch (nodeData.status) {
-      case 'done':
-        return '#52c41a';
-      case 'in_progress':
-        return '#1890ff';
-      case 'todo':
-        return '#faad14';
-      default:
-        return '#d9d9d9';
-    }
-  };
+  const dueDateStatus = getDueDateStatus(dueDate);
+  const attachments = nodeData.attachments || [];
+  const tags = nodeData.tags || [];
   
   // 定义连接点样式
   const handleStyle = {
@@ -110,14 +90,17 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
         padding: '6px 8px',
         borderRadius: '4px',
         background: 'white',
-        border: `${selected ? '2px' : '1px'} solid ${selected ? '#1890ff' : '#ddd'}`,
+        border: `${selected || highlightColor ? '2px' : '1px'} solid ${selected ? '#1890ff' : highlightColor || '#ddd'}`,
         boxShadow: selected 
           ? '0 0 8px rgba(24, 144, 255, 0.5), 0 2px 4px rgba(0, 0, 0, 0.1)' 
-          : '0 1px 3px rgba(0, 0, 0, 0.1)',
+          : highlightColor
+            ? `0 0 6px ${highlightColor}`
+            : '0 1px 3px rgba(0, 0, 0, 0.1)',
         width: '112px',
         height: 'auto',
         transform: 'scale(1)',
-        transition: 'border 0.3s, box-shadow 0.3s',
+        opacity: dimmed ? DIMMED_OPACITY : 1,
+        transition: 'border 0.3s, box-shadow 0.3s, opacity 0.3s',
         position: 'relative',
         zIndex: selected ? 10 : 1, // 选中的节点置于顶层
       }}
@@ -200,7 +183,7 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
         }}
         title={nodeData.title}
       >
-        {nodeData.title}
+        {highlightText ? <HighlightedText text={nodeData.title} query={highlightText} /> : nodeData.title}
       </div>
       
       {/* 描述摘要 */}
@@ -221,6 +204,44 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
         </div>
       )}
       
+      {/* 标签 */}
+      {tags.length > 0 && (
+        <Tooltip 
+          title={`标签: ${tags.join('、')}`} 
+          mouseEnterDelay={0.5} 
+          mouseLeaveDelay={0.1} 
+          destroyTooltipOnHide
+          getPopupContainer={() => document.body}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '2px', marginBottom: '2px', overflow: 'hidden' }}>
+            {tags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+              <span
+                key={tag}
+                style={{
+                  fontSize: '8px',
+                  lineHeight: '12px',
+                  padding: '0 3px',
+                  borderRadius: '2px',
+                  color: getTagColor(tag),
+                  background: `${getTagColor(tag)}1a`,
+                  maxWidth: '48px',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                }}
+              >
+                {tag}
+              </span>
+            ))}
+            {tags.length > MAX_VISIBLE_TAGS && (
+              <span style={{ fontSize: '8px', lineHeight: '12px', color: '#999' }}>
+                +{tags.length - MAX_VISIBLE_TAGS}
+              </span>
+            )}
+          </div>
+        </Tooltip>
+      )}
+      
       <div style={{ display: 'flex', alignItems: 'center', gap: '3px', flexWrap: 'wrap' }}>
         {nodeData.priority && (
           <Tooltip 
@@ -235,7 +256,7 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
                 width: '6px',
                 height: '6px',
                 borderRadius: '50%',
-                background: getPriorityColor(),
+                background: getPriorityColor(nodeData.priority),
               }}
             />
           </Tooltip>
@@ -254,12 +275,27 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
                 width: '6px',
                 height: '6px',
                 borderRadius: '50%',
-                background: getStatusColor(),
+                background: getStatusColor(nodeData.status),
               }}
             />
           </Tooltip>
         )}
         
+        {attachments.length > 0 && (
+          <Tooltip 
+            title={`附件: ${attachments.map(attachment => attachment.name).join('、')}`} 
+            mouseEnterDelay={0.5} 
+            mouseLeaveDelay={0.1} 
+            destroyTooltipOnHide
+            getPopupContainer={() => document.body}
+          >
+            <span style={{ fontSize: '8px', color: '#999', display: 'flex', alignItems: 'center', gap: '1px' }}>
+              <PaperClipOutlined />
+              {attachments.length}
+            </span>
+          </Tooltip>
+        )}
+        
         <div
           style={{
             fontSize: '8px',
@@ -290,10 +326,7 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
             >
               <span
                 style={{
-                  color: dueDateStatus === 'overdue' ? '#f5222d' : 
-                         dueDateStatus === 'today' ? '#fa8c16' : 
-                         dueDateStatus === 'soon' ? '#faad14' : 
-                         selected ? '#1890ff' : '#999',
+                  color: getDueDateColor(dueDateStatus) || (selected ? '#1890ff' : '#999'),
                 }}
               >
                 {formatDate(dueDate)}
@@ -302,6 +335,72 @@ const CustomNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
           )}
         </div>
       </div>
+      
+      {/* 子任务进度 */}
+      {progress && (
+        <Tooltip 
+          title={`子任务进度: 已完成 ${progress.done} / ${progress.total}`} 
+          mouseEnterDelay={0.5} 
+          mouseLeaveDelay={0.1} 
+          destroyTooltipOnHide
+          getPopupContainer={() => document.body}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '3px', marginTop: '3px' }}>
+            <div style={{ flex: 1, height: '3px', borderRadius: '2px', background: '#f0f0f0', overflow: 'hidden' }}>
+              <div
+                style={{
+                  width: `${getProgressPercent(progress)}%`,
+                  height: '100%',
+                  background: getStatusColor('done'),
+                  transition: 'width 0.3s',
+                }}
+              />
+            </div>
+            <span style={{ fontSize: '8px', lineHeight: '10px', color: '#999' }}>
+              {progress.done}/{progress.total}
+            </span>
+          </div>
+        </Tooltip>
+      )}
+      
+      {/* 折叠和展开按钮，放在右下角以免挡住连接点，折叠时显示隐藏的后代数量 */}
+      {collapseContext && collapseContext.parentIds.has(id) && (
+        <Tooltip 
+          title={nodeData.collapsed ? `展开 ${hiddenCount} 个节点` : '折叠'} 
+          mouseEnterDelay={0.5} 
+          mouseLeaveDelay={0.1} 
+          destroyTooltipOnHide
+          getPopupContainer={() => document.body}
+        >
+          <div
+            className="nodrag"
+            onClick={(event) => {
+              event.stopPropagation();
+              collapseContext.onToggle(id);
+            }}
+            style={{
+              position: 'absolute',
+              right: '-7px',
+              bottom: '-7px',
+              minWidth: '14px',
+              height: '14px',
+              padding: '0 3px',
+              borderRadius: '7px',
+              border: `1px solid ${nodeData.collapsed ? '#1890ff' : '#bbb'}`,
+              background: nodeData.collapsed ? '#1890ff' : 'white',
+              color: nodeData.collapsed ? 'white' : '#999',
+              fontSize: '9px',
+              lineHeight: '12px',
+              textAlign: 'center',
+              cursor: 'pointer',
+              boxSizing: 'border-box',
+              zIndex: 2,
+            }}
+          >
+            {nodeData.collapsed ? `+${hiddenCount}` : '−'}
+          </div>
+        </Tooltip>
+      )}
     </div>
   );
 };
@@ -0,0 +1,262 @@
+import React from 'react';
+import { Button, Checkbox, Input, Modal, Radio, Select, Space, Tag, Tooltip } from 'antd';
+import { CloseOutlined, DeleteOutlined, SaveOutlined } from '@ant-design/icons';
+import {
+  MindMapDateRange,
+  MindMapDateRangePreset,
+  MindMapFilter,
+  MindMapFilterMode,
+  MindMapNode,
+  MindMapView,
+} from '../types/MindMap';
+import { PRIORITY_LABELS, STATUS_LABELS, getTagColor } from '../utils/nodeStyles';
+import { DATE_RANGE_PRESET_LABELS, FILTER_MODE_LABELS, isFilterEmpty } from '../utils/nodeFilter';
+
+// 筛选栏属性
+interface FilterBarProps {
+  filter: MindMapFilter;
+  onFilterChange: (filter: MindMapFilter) => void;
+  mode: MindMapFilterMode;
+  onModeChange: (mode: MindMapFilterMode) => void;
+  // 思维导图中已有的标签
+  tagOptions: string[];
+  views: MindMapView[];
+  activeViewId: string | null;
+  onApplyView: (view: MindMapView) => void;
+  // 保存为视图，同名的视图会被覆盖
+  onSaveView: (name: string) => void;
+  onDeleteView: (view: MindMapView) => void;
+  // 当前主题中符合条件的节点数和节点总数
+  matchCount: number;
+  totalCount: number;
+  onClose: () => void;
+}
+
+const labelStyle: React.CSSProperties = { width: '56px', flexShrink: 0, fontSize: '12px', color: '#666' };
+
+const FilterBar: React.FC<FilterBarProps> = ({
+  filter,
+  onFilterChange,
+  mode,
+  onModeChange,
+  tagOptions,
+  views,
+  activeViewId,
+  onApplyView,
+  onSaveView,
+  onDeleteView,
+  matchCount,
+  totalCount,
+  onClose,
+}) => {
+  const activeView = views.find(view => view.id === activeViewId) || null;
+
+  // 修改单个筛选条件，空值从条件中移除
+  const updateFilter = <K extends keyof MindMapFilter>(key: K, value: MindMapFilter[K]) => {
+    const next = { ...filter, [key]: value };
+    if (value === undefined || value === false || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    }
+    onFilterChange(next);
+  };
+
+  // 保存当前条件为视图
+  const handleSaveView = () => {
+    let tempName = activeView ? activeView.name : '';
+    Modal.confirm({
+      title: '保存视图',
+      content: (
+        <Input
+          placeholder="请输入视图名称"
+          defaultValue={tempName}
+          onChange={(e) => tempName = e.target.value}
+        />
+      ),
+      onOk: () => {
+        if (tempName.trim()) {
+          onSaveView(tempName.trim());
+        }
+      },
+      okText: '保存',
+      cancelText: '取消',
+    });
+  };
+
+  // 删除当前视图
+  const handleDeleteView = () => {
+    if (!activeView) return;
+    Modal.confirm({
+      title: '删除视图',
+      content: `确定要删除视图「${activeView.name}」吗？`,
+      okText: '删除',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: () => onDeleteView(activeView),
+    });
+  };
+
+  // 日期范围：预设范围或自定义的起止日期
+  const renderDateRange = (key: 'start' | 'due', label: string) => {
+    const range = filter[key];
+    const setRange = (next?: MindMapDateRange) => updateFilter(key, next);
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <span style={labelStyle}>{label}</span>
+        <Select
+          size="small"
+          allowClear
+          placeholder="不限"
+          style={{ width: '96px', flexShrink: 0 }}
+          value={range?.preset}
+          onChange={(preset?: MindMapDateRangePreset) => setRange(preset ? { preset } : undefined)}
+          options={(Object.keys(DATE_RANGE_PRESET_LABELS) as MindMapDateRangePreset[]).map(preset => ({
+            value: preset,
+            label: DATE_RANGE_PRESET_LABELS[preset],
+          }))}
+        />
+        {range?.preset === 'custom' && (
+          <>
+            <Input
+              size="small"
+              type="date"
+              value={range.from || ''}
+              onChange={(e) => setRange({ ...range, from: e.target.value || undefined })}
+            />
+            <span style={{ color: '#999' }}>-</span>
+            <Input
+              size="small"
+              type="date"
+              value={range.to || ''}
+              onChange={(e) => setRange({ ...range, to: e.target.value || undefined })}
+            />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        width: '360px',
+        maxWidth: 'calc(100vw - 40px)',
+        marginLeft: 'auto',
+        background: 'rgba(255, 255, 255, 0.95)',
+        padding: '8px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+      }}
+    >
+      <Space direction="vertical" size={6} style={{ display: 'flex' }}>
+        {/* 视图 */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <Select
+            size="small"
+            style={{ flex: 1, minWidth: 0 }}
+            placeholder={views.length > 0 ? '选择保存的视图' : '暂无保存的视图'}
+            value={activeView ? activeView.id : undefined}
+            onChange={(viewId: string) => {
+              const view = views.find(item => item.id === viewId);
+              if (view) onApplyView(view);
+            }}
+            options={views.map(view => ({ value: view.id, label: view.name }))}
+            notFoundContent="暂无保存的视图"
+          />
+          <Tooltip title="保存为视图" mouseEnterDelay={0.5} destroyTooltipOnHide>
+            <Button size="small" icon={<SaveOutlined />} onClick={handleSaveView} disabled={isFilterEmpty(filter)} />
+          </Tooltip>
+          <Tooltip title="删除视图" mouseEnterDelay={0.5} destroyTooltipOnHide>
+            <Button size="small" icon={<DeleteOutlined />} onClick={handleDeleteView} disabled={!activeView} />
+          </Tooltip>
+          <Button type="text" size="small" icon={<CloseOutlined />} onClick={onClose} />
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <span style={labelStyle}>状态</span>
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="不限"
+            style={{ flex: 1, minWidth: 0 }}
+            value={filter.statuses || []}
+            onChange={(statuses: NonNullable<MindMapNode['status']>[]) => updateFilter('statuses', statuses)}
+            options={(Object.keys(STATUS_LABELS) as NonNullable<MindMapNode['status']>[]).map(status => ({
+              value: status,
+              label: STATUS_LABELS[status],
+            }))}
+          />
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <span style={labelStyle}>优先级</span>
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="不限"
+            style={{ flex: 1, minWidth: 0 }}
+            value={filter.priorities || []}
+            onChange={(priorities: NonNullable<MindMapNode['priority']>[]) => updateFilter('priorities', priorities)}
+            options={(['high', 'medium', 'low'] as NonNullable<MindMapNode['priority']>[]).map(priority => ({
+              value: priority,
+              label: PRIORITY_LABELS[priority],
+            }))}
+          />
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <span style={labelStyle}>标签</span>
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="不限"
+            style={{ flex: 1, minWidth: 0 }}
+            value={filter.tags || []}
+            onChange={(tags: string[]) => updateFilter('tags', tags)}
+            options={tagOptions.map(tag => ({ value: tag, label: tag }))}
+            notFoundContent="暂无标签"
+            tagRender={({ label, value, closable, onClose: onTagClose }) => (
+              <Tag
+                color={getTagColor(String(value))}
+                closable={closable}
+                onClose={onTagClose}
+                style={{ marginInlineEnd: 4 }}
+              >
+                {label}
+              </Tag>
+            )}
+          />
+        </div>
+
+        {renderDateRange('start', '开始日期')}
+        {renderDateRange('due', '截止日期')}
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Checkbox checked={!!filter.overdue} onChange={(e) => updateFilter('overdue', e.target.checked)}>
+            已逾期
+          </Checkbox>
+          <Radio.Group
+            size="small"
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value)}
+            optionType="button"
+            options={(Object.keys(FILTER_MODE_LABELS) as MindMapFilterMode[]).map(item => ({
+              value: item,
+              label: FILTER_MODE_LABELS[item],
+            }))}
+          />
+          <span style={{ marginLeft: 'auto', fontSize: '12px', color: '#999' }}>
+            {isFilterEmpty(filter) ? `共 ${totalCount} 个节点` : `符合 ${matchCount} / ${totalCount}`}
+          </span>
+          <Button size="small" type="link" onClick={() => onFilterChange({})} disabled={isFilterEmpty(filter)}>
+            清除
+          </Button>
+        </div>
+      </Space>
+    </div>
+  );
+};
+
+export default FilterBar;
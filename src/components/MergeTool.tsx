@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button, Modal, Space, message } from 'antd';
+import { UploadOutlined } from '@ant-design/icons';
+import { MindMapData } from '../types/MindMap';
+import { loadFromFile } from '../utils/fileUtils';
+import { normalizeMindMapData } from '../utils/mindMapConverter';
+import { diffMindMaps, formatMindMapDiffSummary, formatNodeFieldValue, DIFF_FIELD_LABELS } from '../utils/mindMapDiff';
+import { mergeMindMaps, MergeConflict, MergeResolutions, MergeSide } from '../utils/mindMapMerge';
+
+// 参与合并的三个版本
+export interface MergeVersions {
+  base: MindMapData;
+  mine: MindMapData;
+  theirs: MindMapData;
+}
+
+type VersionKey = keyof MergeVersions;
+
+// 用户选择的文件
+interface SelectedFile {
+  name: string;
+  data: MindMapData;
+}
+
+// 合并工具属性
+interface MergeToolProps {
+  open: boolean;
+  onCancel: () => void;
+  // 预先指定的版本，未指定时由用户选择三个文件
+  versions?: MergeVersions | null;
+  // 两个修改后版本的名称
+  labels?: [string, string];
+  onMerged: (data: MindMapData) => void;
+}
+
+const VERSION_LABELS: Record<VersionKey, string> = {
+  base: '原始版本',
+  mine: '版本一',
+  theirs: '版本二',
+};
+
+// 冲突类型的显示名称
+const getConflictLabel = (conflict: MergeConflict): string => {
+  switch (conflict.kind) {
+    case 'field':
+      return conflict.field ? DIFF_FIELD_LABELS[conflict.field] : '字段';
+    case 'parent':
+      return '位置';
+    case 'node':
+      return '节点';
+    case 'theme':
+      return '主题';
+    case 'themeTitle':
+      return '主题名称';
+    case 'link':
+      return '连线';
+    case 'view':
+      return '筛选视图';
+    default:
+      return '连线文字';
+  }
+};
+
+// 冲突中某个版本的值的显示文字
+const formatConflictValue = (conflict: MergeConflict, value: unknown): string => {
+  if (conflict.kind === 'node' || conflict.kind === 'theme') {
+    return value === undefined ? '删除' : `保留：${value}`;
+  }
+  if (conflict.kind === 'link') {
+    return value === undefined ? '删除' : `保留：${value || '（无文字）'}`;
+  }
+  const text = conflict.kind === 'field' && conflict.field
+    ? formatNodeFieldValue(conflict.field, value)
+    : value === undefined || value === null ? '' : String(value);
+  return text || '（空）';
+};
+
+const MergeTool: React.FC<MergeToolProps> = ({
+  open,
+  onCancel,
+  versions,
+  labels = [VERSION_LABELS.mine, VERSION_LABELS.theirs],
+  onMerged,
+}) => {
+  const [files, setFiles] = useState<Partial<Record<VersionKey, SelectedFile>>>({});
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+
+  // 每次打开时重新开始
+  useEffect(() => {
+    if (open) {
+      setFiles({});
+      setResolutions({});
+    }
+  }, [open]);
+
+  // 选择某个版本的文件
+  const handleSelectFile = async (key: VersionKey) => {
+    try {
+      const loaded = await loadFromFile();
+      if (loaded) {
+        // 按加载到画布的方式整理，避免默认值被当作修改
+        setFiles(prev => ({ ...prev, [key]: { name: loaded.fileName, data: normalizeMindMapData(loaded.data) } }));
+        setResolutions({});
+      }
+    } catch (error) {
+      console.error('加载合并文件时出错:', error);
+      message.error('加载失败：' + (error instanceof Error ? error.message : '未知错误'));
+    }
+  };
+
+  const activeVersions = useMemo<MergeVersions | null>(() => {
+    if (versions) return versions;
+    if (!files.base || !files.mine || !files.theirs) return null;
+    return { base: files.base.data, mine: files.mine.data, theirs: files.theirs.data };
+  }, [versions, files]);
+
+  // 两个版本各自相对原始版本的修改
+  const summaries = useMemo(() => {
+    if (!activeVersions) return null;
+    return [
+      formatMindMapDiffSummary(diffMindMaps(activeVersions.base, activeVersions.mine)),
+      formatMindMapDiffSummary(diffMindMaps(activeVersions.base, activeVersions.theirs)),
+    ];
+  }, [activeVersions]);
+
+  const result = useMemo(() => {
+    if (!activeVersions) return null;
+    return mergeMindMaps(activeVersions.base, activeVersions.mine, activeVersions.theirs, resolutions);
+  }, [activeVersions, resolutions]);
+
+  // 所有冲突都采用同一个版本
+  const resolveAll = (side: MergeSide) => {
+    if (!result) return;
+    setResolutions(prev => {
+      const next = { ...prev };
+      result.conflicts.forEach(conflict => {
+        next[conflict.id] = side;
+      });
+      return next;
+    });
+  };
+
+  // 冲突中一个版本的选项
+  const renderOption = (conflict: MergeConflict, side: MergeSide) => {
+    const selected = (resolutions[conflict.id] || 'mine') === side;
+    return (
+      <div
+        onClick={() => setResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+        style={{
+          flex: 1,
+          minWidth: 0,
+          padding: '6px 8px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          border: `1px solid ${selected ? '#1890ff' : '#f0f0f0'}`,
+          backgroundColor: selected ? 'rgba(24, 144, 255, 0.06)' : 'transparent',
+          transition: 'all 0.3s',
+        }}
+      >
+        <div style={{ fontSize: '12px', color: selected ? '#1890ff' : '#999', marginBottom: '2px' }}>
+          {side === 'mine' ? labels[0] : labels[1]}
+          {selected && '（采用）'}
+        </div>
+        <div style={{ maxHeight: '120px', overflow: 'auto', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          {formatConflictValue(conflict, side === 'mine' ? conflict.mine : conflict.theirs)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      title="合并思维导图"
+      open={open}
+      onCancel={onCancel}
+      onOk={() => result && onMerged(result.data)}
+      okText="打开合并结果"
+      cancelText="取消"
+      okButtonProps={{ disabled: !result }}
+      width={900}
+      destroyOnClose
+    >
+      <div style={{ maxHeight: '65vh', overflow: 'auto' }}>
+        {!versions && (
+          <div style={{ marginBottom: '16px' }}>
+            {(Object.keys(VERSION_LABELS) as VersionKey[]).map(key => (
+              <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+                <span style={{ width: '64px' }}>{VERSION_LABELS[key]}</span>
+                <Button size="small" icon={<UploadOutlined />} onClick={() => handleSelectFile(key)}>
+                  选择文件
+                </Button>
+                <span style={{ color: files[key] ? 'inherit' : '#999' }}>
+                  {files[key] ? files[key]!.name : '未选择'}
+                </span>
+              </div>
+            ))}
+            <div style={{ fontSize: '12px', color: '#999' }}>
+              原始版本为两个版本共同的来源，节点按ID对应，只有一方修改的内容会自动合并
+            </div>
+          </div>
+        )}
+
+        {result && summaries && (
+          <>
+            <div style={{ marginBottom: '12px' }}>
+              <div>{labels[0]}：{summaries[0]}</div>
+              <div>{labels[1]}：{summaries[1]}</div>
+              <div style={{ marginTop: '4px', color: result.conflicts.length > 0 ? '#faad14' : '#52c41a' }}>
+                {result.conflicts.length > 0
+                  ? `没有冲突的修改已自动合并，还有 ${result.conflicts.length} 处冲突，请选择采用的版本`
+                  : '所有修改已自动合并，没有冲突'}
+              </div>
+            </div>
+
+            {result.conflicts.length > 0 && (
+              <>
+                <Space style={{ marginBottom: '8px' }}>
+                  <Button size="small" onClick={() => resolveAll('mine')}>全部采用{labels[0]}</Button>
+                  <Button size="small" onClick={() => resolveAll('theirs')}>全部采用{labels[1]}</Button>
+                </Space>
+                {result.conflicts.map(conflict => (
+                  <div key={conflict.id} style={{ padding: '8px 0', borderBottom: '1px solid #f0f0f0' }}>
+                    <div style={{ marginBottom: '4px' }}>
+                      <span style={{ fontWeight: 'bold' }}>{conflict.title || '未命名'}</span>
+                      <span style={{ marginLeft: '8px', fontSize: '12px', color: '#999' }}>{getConflictLabel(conflict)}</span>
+                    </div>
+                    {conflict.kind !== 'node' && conflict.kind !== 'theme' && (
+                      <div style={{ fontSize: '12px', color: '#999', marginBottom: '4px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        原始：{formatConflictValue(conflict, conflict.base)}
+                      </div>
+                    )}
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      {renderOption(conflict, 'mine')}
+                      {renderOption(conflict, 'theirs')}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default MergeTool;
@@ -26,7 +26,7 @@ import ReactFlow, {
 } from 'reactflow';
 import dagre from 'dagre';
 import 'reactflow/dist/style.css';
-import { Button, Space, Modal, Form, Input, Select, Tooltip, Divider, message, Switch, Dropdown, Drawer } from 'antd';
+import { Button, Space, Modal, Form, Input, Select, Tooltip, Divider, message, Switch, Drawer, Tabs, Dropdown, Radio, Alert, Tag } from 'antd';
 import { 
   PlusOutlined, 
   LayoutOutlined, 
@@ -43,10 +43,53 @@ import {
   UnlockOutlined,
   SettingOutlined,
   FolderOutlined,
+  FolderOpenOutlined,
+  CopyOutlined,
+  FileDoneOutlined,
+  MergeOutlined,
+  DiffOutlined,
+  SearchOutlined,
+  FilterOutlined,
+  NodeCollapseOutlined,
 } from '@ant-design/icons';
-import { MindMapData, MindMapNode, MindMapTheme } from '../types/MindMap';
-import { saveToFile, loadFromFile, saveToMarkdown } from '../utils/fileUtils';
-import CustomNode from './CustomNode';
+import { MindMapData, MindMapTheme, MindMapNode, MindMapFilter, MindMapFilterMode, MindMapView } from '../types/MindMap';
+import { saveToFile, saveAsFile, writeToFileHandle, verifyDirectoryPermission, loadFromFile, saveToMarkdown, saveToOpml, saveToHtml, saveToCsv, saveToIcs, saveToSvg, saveToPng } from '../utils/fileUtils';
+import { renderCanvasToSvg, svgToPngBlob, ImageExportOptions } from '../utils/imageExport';
+import { extractImageAssets, resolveImageAssets, removeUnusedImageAssets } from '../utils/imageAssets';
+import {
+  prepareAttachmentsForSave,
+  storeEmbeddedAttachments,
+  collectAttachmentReferences,
+  removeUnusedStoredAttachments,
+  removeUnusedAttachmentFiles,
+} from '../utils/attachmentUtils';
+import { flowToTheme, themeToFlow, createTheme, normalizeMindMapData, NODE_WIDTH, NODE_HEIGHT } from '../utils/mindMapConverter';
+import { MindMapSchemaError, parseMindMapData } from '../utils/mindMapSchema';
+import { MindMapDiff, diffMindMaps, isMindMapDiffEmpty, formatMindMapDiffSummary } from '../utils/mindMapDiff';
+import { mergeMindMaps } from '../utils/mindMapMerge';
+import { SearchResult, searchMindMap } from '../utils/mindMapSearch';
+import { isFilterEmpty, matchesFilter } from '../utils/nodeFilter';
+import { getCollapseState, getChildIdsMap, getDescendantIds, getCollapsedIdsToLevel } from '../utils/nodeCollapse';
+import { getAutoCompletedIds, getProgressMap } from '../utils/nodeProgress';
+import { getTagColor, SEARCH_HIGHLIGHT_COLOR, DIMMED_OPACITY } from '../utils/nodeStyles';
+import {
+  StoredCanvas,
+  isWorkspaceStoreSupported,
+  listCanvases,
+  getCanvas,
+  putCanvas,
+  deleteCanvas,
+  getSavedDirectoryHandle,
+  putSavedDirectoryHandle,
+} from '../utils/workspaceStore';
+import { DirectoryMapFile, readMapFile } from '../utils/directoryWorkspace';
+import CustomNode, { NodeCollapseContext, NodeCollapseContextValue, NodeProgressContext } from './CustomNode';
+import AttachmentList from './AttachmentList';
+import WorkspaceBrowser from './WorkspaceBrowser';
+import MergeTool, { MergeVersions } from './MergeTool';
+import CompareView from './CompareView';
+import SearchPanel from './SearchPanel';
+import FilterBar from './FilterBar';
 // 导入wangEditor相关组件
 import '@wangeditor/editor/dist/css/style.css';
 import { Editor, Toolbar } from '@wangeditor/editor-for-react';
@@ -54,21 +97,6 @@ import { IDomEditor, IEditorConfig, IToolbarConfig } from '@wangeditor/editor';
 
 const { Option } = Select;
 
-// 简化的 File System Access API 类型定义
-interface FileSystemDirectoryHandle {
-  name: string;
-  getFileHandle(name: string, options?: { create?: boolean }): Promise<FileSystemFileHandle>;
-}
-
-interface FileSystemFileHandle {
-  createWritable(): Promise<FileSystemWritableFileStream>;
-}
-
-interface FileSystemWritableFileStream {
-  write(data: any): Promise<void>;
-  close(): Promise<void>;
-}
-
 // 检查是否支持目录选择器
 const isDirectoryPickerSupported = (): boolean => {
   return 'showDirectoryPicker' in window;
@@ -140,6 +168,8 @@ interface CustomEdgeData {
   label?: string;
   isEditing?: boolean;
   showDelete?: boolean;
+  // 连接的节点不符合筛选条件时淡化显示
+  dimmed?: boolean;
 }
 
 // 自定义连线组件
@@ -225,7 +255,7 @@ const CustomEdge: React.FC<EdgeProps> = ({
   };
 
   return (
-    <g>
+    <g style={{ opacity: (data as CustomEdgeData)?.dimmed ? DIMMED_OPACITY : 1, transition: 'opacity 0.3s' }}>
       <path
         id={id}
         ref={edgeRef}
@@ -397,13 +427,96 @@ const edgeTypes: EdgeTypes = {
 
 // 定义布局方向
 const LAYOUT_DIRECTION = 'LR'; // LR = 从左到右, TB = 从上到下
-const NODE_WIDTH = 112;
-const NODE_HEIGHT = 56;
 
-// 自动布局函数 - 添加eslint-disable注释，因为这个函数可能在将来会用到
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+// 支持的导出格式
+const EXPORT_FORMATS = {
+  markdown: { label: 'Markdown (.md)', name: 'Markdown', save: saveToMarkdown },
+  opml: { label: 'OPML (.opml)', name: 'OPML', save: saveToOpml },
+  html: { label: '网页 (.html)', name: 'HTML', save: saveToHtml },
+  csv: { label: '表格 (.csv)', name: 'CSV', save: saveToCsv },
+  icsTodo: {
+    label: '日历待办 (.ics)',
+    name: 'iCalendar',
+    save: (data: MindMapData, name: string, directory?: FileSystemDirectoryHandle | null) =>
+      saveToIcs(data, name, directory, 'VTODO'),
+  },
+  icsEvent: {
+    label: '日历事件 (.ics)',
+    name: 'iCalendar',
+    save: (data: MindMapData, name: string, directory?: FileSystemDirectoryHandle | null) =>
+      saveToIcs(data, name, directory, 'VEVENT'),
+  },
+};
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+// 图片导出格式
+type ImageFormat = 'png' | 'svg';
+
+// 思维导图内容的签名，用于判断是否有未保存的修改，忽略保存时间和画布视图
+const getContentSignature = (data: MindMapData): string =>
+  JSON.stringify({
+    mindMaps: data.mindMaps.map(({ updated_at, layout, ...theme }) => ({
+      ...theme,
+      layout: layout ? { nodes: layout.nodes, edges: layout.edges } : undefined,
+    })),
+    views: data.views,
+  });
+
+// 检查打开的文件是否被其他程序修改的时间间隔（毫秒）
+const FILE_CHANGE_CHECK_INTERVAL = 3000;
+
+// 打开的文件在其他程序中的修改
+interface ExternalChange {
+  // 文件的修改时间
+  modifiedAt: number;
+  // 文件的最新内容，无法解析时为 null
+  data: MindMapData | null;
+  // 与打开或保存时的内容相比的变化
+  diff: MindMapDiff | null;
+}
+
+// 是否自动完成父节点的设置在 localStorage 中的键
+const AUTO_COMPLETE_PARENTS_KEY = 'mindmap_auto_complete_parents';
+
+// 修改节点的折叠状态，状态不变时返回原节点
+const withCollapsed = (node: FlowNode, collapsed: boolean): FlowNode =>
+  !!node.data.nodeData?.collapsed === collapsed ? node : {
+    ...node,
+    data: { ...node.data, nodeData: { ...node.data.nodeData, collapsed: collapsed || undefined } },
+  };
+
+// 所有子节点都已完成时将父节点设置为已完成
+const withAutoCompletedParents = (nodes: FlowNode[], edges: Edge[]): FlowNode[] => {
+  const completedIds = getAutoCompletedIds(
+    nodes.map(node => ({ id: node.id, status: node.data.nodeData?.status })),
+    edges
+  );
+  if (completedIds.size === 0) return nodes;
+  return nodes.map(node => !completedIds.has(node.id) ? node : {
+    ...node,
+    data: { ...node.data, nodeData: { ...node.data.nodeData, status: 'done' as const } },
+  });
+};
+
+// 列表中每一项都与上次相同时返回上次的列表，依赖它的计算在拖动节点时不需要重新进行
+const useStableList = <T,>(list: T[], isSame: (a: T, b: T) => boolean): T[] => {
+  const listRef = useRef(list);
+  const previous = listRef.current;
+  if (previous.length !== list.length || list.some((item, index) => !isSame(item, previous[index]))) {
+    listRef.current = list;
+  }
+  return listRef.current;
+};
+
+// 被折叠的节点隐藏的画布节点
+const getCollapsedHiddenIds = (nodes: FlowNode[], edges: Edge[]): Set<string> =>
+  getCollapseState(nodes.map(node => ({ id: node.id, collapsed: node.data.nodeData?.collapsed })), edges).hiddenIds;
+
+// 自动布局函数，用于切换到没有布局信息的主题，折叠隐藏的节点保持原位置
 const getLayoutedElements = (nodes: FlowNode[], edges: Edge[], direction = LAYOUT_DIRECTION) => {
   if (!nodes.length) return nodes;
+  const hiddenIds = getCollapsedHiddenIds(nodes, edges);
   
   const dagreGraph = new dagre.graphlib.Graph();
   dagreGraph.setDefaultEdgeLabel(() => ({}));
@@ -423,14 +536,16 @@ const getLayoutedElements = (nodes: FlowNode[], edges: Edge[], direction = LAYOU
 
   // 添加节点
   nodes.forEach((node) => {
+    if (hiddenIds.has(node.id)) return;
     dagreGraph.setNode(node.id, { 
       width: NODE_WIDTH, 
       height: NODE_HEIGHT,
     });
   });
 
-  // 添加边
+  // 添加边，连接隐藏节点的边不参与布局，否则 dagre 会自动补上这些节点
   edges.forEach((edge) => {
+    if (hiddenIds.has(edge.source) || hiddenIds.has(edge.target)) return;
     dagreGraph.setEdge(edge.source, edge.target, {
       weight: 1, // 边的权重
       minlen: 1, // 最小长度
@@ -520,17 +635,168 @@ const MindMap: React.FC = () => {
   // 功能状态
   const [isLocked, setIsLocked] = useState(false); // 锁定状态
   const [autoSave, setAutoSave] = useState<boolean>(true); // 自动保存状态
-  const [canvasHistory, setCanvasHistory] = useState<{
-    id: string;
-    name: string;
-    nodes: FlowNode[];
-    edges: Edge[];
-    createdAt: string;
-  }[]>([]);
-  const [currentCanvasId, setCurrentCanvasId] = useState<string>('default');
+  const [autoCompleteParents, setAutoCompleteParents] = useState<boolean>(
+    () => localStorage.getItem(AUTO_COMPLETE_PARENTS_KEY) === 'true'
+  ); // 子节点全部完成时自动完成父节点，设置保存在浏览器中
+  const [canvasHistory, setCanvasHistory] = useState<StoredCanvas[]>([]); // 工作区中保存的所有画布
+  const [historyDrawerVisible, setHistoryDrawerVisible] = useState(false);
+  const [currentCanvasId, setCurrentCanvasId] = useState<string>(() => `canvas-${Date.now()}`);
   const [currentCanvasName, setCurrentCanvasName] = useState<string>('未命名画布');
   const [isCanvasNameEditing, setIsCanvasNameEditing] = useState<boolean>(false);
   
+  // 当前打开的文件，保存时直接写回该文件
+  const [currentFileHandle, setCurrentFileHandle] = useState<FileSystemFileHandle | null>(null);
+  // 从保存目录中打开的文件所在的目录，图片和附件从该目录读写
+  const [currentFileDirectory, setCurrentFileDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [workspaceBrowserVisible, setWorkspaceBrowserVisible] = useState(false);
+  // 打开或保存时文件的内容和修改时间，用于检测文件是否被其他程序修改
+  const fileBaseRef = useRef<MindMapData | null>(null);
+  const fileModifiedRef = useRef(0);
+  // 正在读写打开的文件时不检查修改
+  const fileBusyRef = useRef(false);
+  const [externalChange, setExternalChange] = useState<ExternalChange | null>(null);
+  // 合并工具，与外部修改合并时记录对应的修改
+  const [mergeTool, setMergeTool] = useState<{
+    versions: MergeVersions | null;
+    labels?: [string, string];
+    change: ExternalChange | null;
+  } | null>(null);
+  const [compareVisible, setCompareVisible] = useState(false);
+  // 搜索面板，searchFocusKey 在每次按下 Ctrl+F 时变化，用于重新聚焦输入框
+  const [searchVisible, setSearchVisible] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFocusKey, setSearchFocusKey] = useState(0);
+  // 筛选栏，views 为画布保存的筛选视图，随画布和文件一起保存
+  const [filterVisible, setFilterVisible] = useState(false);
+  const [nodeFilter, setNodeFilter] = useState<MindMapFilter>({});
+  const [filterMode, setFilterMode] = useState<MindMapFilterMode>('dim');
+  const [views, setViews] = useState<MindMapView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  // 是否有未保存的修改，savedSignatureRef 为上次保存或加载时的内容签名，为 null 时以下一次计算的签名为准
+  const [isDirty, setIsDirty] = useState(false);
+  const savedSignatureRef = useRef<string | null>(null);
+  
+  // 主题状态：文件中的所有主题，当前主题的内容以画布上的节点和连线为准
+  const [themes, setThemes] = useState<MindMapTheme[]>(() => [createTheme('主题 1')]);
+  const [activeThemeId, setActiveThemeId] = useState<string>('');
+  const activeTheme = themes.find(theme => theme.id === activeThemeId) || themes[0];
+  
+  // 思维导图中已有的标签，编辑节点时用于自动补全
+  const existingTags = useMemo(() => {
+    const tags = new Set<string>();
+    const collect = (list: MindMapNode[] = []) => {
+      list.forEach(node => {
+        (node.tags || []).forEach(tag => tags.add(tag));
+        collect(node.children);
+      });
+    };
+    themes.forEach(theme => {
+      if (theme.id !== activeTheme.id) collect(theme.children);
+    });
+    collect(nodes.map(node => node.data.nodeData || {}));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  }, [themes, activeTheme.id, nodes]);
+  
+  // 在所有主题中搜索，当前主题使用画布上的最新内容
+  const searchResults = useMemo(() => {
+    if (!searchVisible || !searchQuery.trim()) return [];
+    const mindMaps = themes.map(theme => theme.id !== activeTheme.id ? theme : {
+      ...theme,
+      ...flowToTheme(nodes, edges, { id: theme.id, title: theme.title, created_at: theme.created_at }),
+    });
+    return searchMindMap({ mindMaps }, searchQuery);
+  }, [searchVisible, searchQuery, themes, activeTheme, nodes, edges]);
+  
+  // 节点ID和折叠状态不变时沿用上次的折叠状态，拖动节点时不需要重新计算
+  const collapseNodes = useStableList(
+    nodes.map(node => ({ id: node.id, collapsed: !!node.data.nodeData?.collapsed })),
+    (a, b) => a.id === b.id && a.collapsed === b.collapsed
+  );
+  const collapseState = useMemo(() => getCollapseState(collapseNodes, edges), [collapseNodes, edges]);
+  
+  // 折叠或展开节点
+  const handleToggleCollapse = useCallback((nodeId: string) => {
+    setNodes(nds => nds.map(node => (node.id === nodeId ? withCollapsed(node, !node.data.nodeData?.collapsed) : node)));
+  }, [setNodes]);
+  
+  // 提供给节点的折叠信息，有出边的节点显示折叠按钮
+  const collapseContextValue = useMemo<NodeCollapseContextValue>(() => ({
+    parentIds: new Set(edges.filter(edge => edge.source !== edge.target).map(edge => edge.source)),
+    hiddenCounts: collapseState.hiddenCounts,
+    onToggle: handleToggleCollapse,
+  }), [edges, collapseState, handleToggleCollapse]);
+  
+  // 父节点的完成进度，节点ID和状态不变时沿用上次的结果，拖动节点时不需要重新计算
+  const progressNodes = useStableList(
+    nodes.map(node => ({ id: node.id, status: node.data.nodeData?.status })),
+    (a, b) => a.id === b.id && a.status === b.status
+  );
+  const progressMap = useMemo(() => getProgressMap(progressNodes, edges), [progressNodes, edges]);
+  
+  // 开启自动完成父节点时，节点、连线或状态变化后重新检查，删除未完成的子节点或连线后父节点也会自动完成
+  useEffect(() => {
+    if (!autoCompleteParents) return;
+    setNodes(nds => withAutoCompletedParents(nds, edges));
+  }, [autoCompleteParents, progressNodes, edges, setNodes]);
+  
+  // 当前主题中不符合筛选条件的节点，没有筛选条件时为 null
+  const filteredOutIds = useMemo(() => {
+    if (isFilterEmpty(nodeFilter)) return null;
+    const today = new Date();
+    return new Set(
+      nodes.filter(node => !matchesFilter(node.data.nodeData || {}, nodeFilter, today)).map(node => node.id)
+    );
+  }, [nodes, nodeFilter]);
+  
+  // 画布上显示的节点：隐藏被折叠的节点，搜索时突出显示匹配的节点，筛选时淡化或隐藏不符合条件的节点
+  // 不修改节点状态，以免记入历史和文件
+  const displayNodes = useMemo(() => {
+    const { hiddenIds } = collapseState;
+    if (searchResults.length === 0 && !filteredOutIds && hiddenIds.size === 0) return nodes;
+    const matchedIds = new Set(searchResults.map(result => result.nodeId));
+    return nodes.map(node => {
+      const isMatched = matchedIds.has(node.id);
+      const isFilteredOut = !!filteredOutIds && filteredOutIds.has(node.id);
+      if (hiddenIds.has(node.id) || (isFilteredOut && filterMode === 'hide')) return { ...node, hidden: true };
+      if (!isMatched && !isFilteredOut) return node;
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          ...(isMatched ? { highlightColor: SEARCH_HIGHLIGHT_COLOR, highlightText: searchQuery.trim() } : {}),
+          dimmed: isFilteredOut,
+        },
+      };
+    });
+  }, [nodes, collapseState, searchResults, searchQuery, filteredOutIds, filterMode]);
+  
+  // 画布上显示的连线，连接的节点被折叠、淡化或隐藏时一起隐藏或淡化
+  const displayEdges = useMemo(() => {
+    const { hiddenIds } = collapseState;
+    if (!filteredOutIds && hiddenIds.size === 0) return edges;
+    return edges.map(edge => {
+      if (hiddenIds.has(edge.source) || hiddenIds.has(edge.target)) return { ...edge, hidden: true };
+      if (!filteredOutIds || (!filteredOutIds.has(edge.source) && !filteredOutIds.has(edge.target))) return edge;
+      return filterMode === 'hide' ? { ...edge, hidden: true } : { ...edge, data: { ...edge.data, dimmed: true } };
+    });
+  }, [edges, collapseState, filteredOutIds, filterMode]);
+  
+  // 将当前主题的节点设置为指定的折叠状态
+  const applyCollapsedIds = (collapsedIds: Set<string>) => {
+    setNodes(nds => nds.map(node => withCollapsed(node, collapsedIds.has(node.id))));
+  };
+  
+  // 全部展开、全部折叠或折叠到指定层级
+  const handleCollapseCommand = (key: string) => {
+    if (key === 'expand-all') {
+      applyCollapsedIds(new Set());
+    } else if (key === 'collapse-all') {
+      applyCollapsedIds(collapseContextValue.parentIds);
+    } else {
+      applyCollapsedIds(getCollapsedIdsToLevel(nodes, edges, Number(key.replace('level-', ''))));
+    }
+  };
+  
   // 历史记录状态
   const [history, setHistory] = useState<{
     nodes: FlowNode[][];
@@ -747,6 +1013,9 @@ const MindMap: React.FC = () => {
   const handleAutoLayout = useCallback(() => {
     if (!nodes.length) return;
     
+    // 折叠隐藏的节点不参与布局，保持原位置
+    const hiddenIds = getCollapsedHiddenIds(nodes, edges);
+    
     // 保存当前节点位置，用于动画
     const nodesWithOriginalPositions = nodes.map(node => ({
       ...node,
@@ -776,6 +1045,7 @@ const MindMap: React.FC = () => {
 
     // 添加节点
     nodesWithOriginalPositions.forEach((node) => {
+      if (hiddenIds.has(node.id)) return;
       dagreGraph.setNode(node.id, { 
         width: NODE_WIDTH + 20, // 增加节点宽度以防止重叠
         height: NODE_HEIGHT + 10, // 增加节点高度以防止重叠
@@ -784,6 +1054,7 @@ const MindMap: React.FC = () => {
 
     // 添加边
     edges.forEach((edge) => {
+      if (hiddenIds.has(edge.source) || hiddenIds.has(edge.target)) return;
       dagreGraph.setEdge(edge.source, edge.target, {
         weight: 1, // 边的权重
         minlen: 1.2, // 增加最小长度，使节点之间有更多空间
@@ -958,8 +1229,11 @@ const MindMap: React.FC = () => {
       return adjustedNodes;
     };
     
-    // 应用重叠解决算法
-    const finalNodes = resolveOverlaps(layoutedNodes);
+    // 应用重叠解决算法，只处理显示的节点
+    const resolvedNodes = new Map(
+      resolveOverlaps(layoutedNodes.filter(node => !hiddenIds.has(node.id))).map(node => [node.id, node])
+    );
+    const finalNodes = layoutedNodes.map(node => resolvedNodes.get(node.id) || node);
     
     setNodes(finalNodes);
     
@@ -969,136 +1243,333 @@ const MindMap: React.FC = () => {
     }, 50);
   }, [nodes, edges, setNodes, reactFlowInstance, layoutDirection, nodeSpacing, rankSpacing]);
 
+  // 获取所有主题，当前主题使用画布上的最新内容
+  const collectThemes = (): MindMapTheme[] => {
+    return themes.map(theme => {
+      if (theme.id !== activeTheme.id) return theme;
+      
+      // 将当前画布转换为主题，同时记录节点位置、连接点和视图
+      return {
+        ...theme,
+        ...flowToTheme(
+          nodes,
+          edges,
+          { id: theme.id, title: theme.title, created_at: theme.created_at },
+          reactFlowInstance.getViewport()
+        ),
+      };
+    });
+  };
+
   // 获取当前思维导图数据
   const getMindMapData = (): MindMapData => {
-    // 构建思维导图数据结构
-    const mindMapData: MindMapData = {
-      mindMaps: []
+    return {
+      mindMaps: collectThemes(),
+      ...(views.length > 0 ? { views } : {}),
     };
+  };
+
+  // 在画布上显示主题
+  const showTheme = (theme: MindMapTheme) => {
+    const { nodes: themeNodes, edges: themeEdges, viewport, hasLayout } = themeToFlow(theme);
     
-    // 创建节点映射，用于构建树形结构
-    const nodeMap = new Map<string, MindMapNode>();
+    // 没有布局信息的主题先自动布局
+    const displayNodes = hasLayout ? themeNodes : getLayoutedElements(themeNodes, themeEdges, layoutDirection);
     
-    // 首先创建所有节点
-    nodes.forEach(node => {
-      if (node.data.nodeData) {
-        nodeMap.set(node.id, {
-          ...node.data.nodeData,
-          children: []
-        });
-      }
+    setNodes(displayNodes);
+    setEdges(themeEdges);
+    setSelectedNode(null);
+    
+    // 重置历史记录
+    setHistory({
+      nodes: [displayNodes],
+      edges: [themeEdges],
+      currentIndex: 0,
+      lastActionTime: Date.now(),
     });
     
-    // 记录已经有父节点的节点ID
-    const childNodeIds = new Set<string>();
+    setTimeout(() => {
+      if (viewport) {
+        reactFlowInstance.setViewport(viewport, { duration: 500 });
+      } else {
+        reactFlowInstance.fitView({ padding: 0.2, duration: 500 });
+      }
+    }, 50);
+  };
+
+  // 切换主题
+  const handleSwitchTheme = (themeId: string) => {
+    if (themeId === activeTheme.id) return;
     
-    // 根据边构建父子关系
-    edges.forEach(edge => {
-      const sourceNode = nodeMap.get(edge.source);
-      const targetNode = nodeMap.get(edge.target);
-      
-      if (sourceNode && targetNode) {
-        // 如果边有标签，将其添加到目标节点
-        if (edge.data?.label) {
-          targetNode.edgeLabel = edge.data.label;
+    // 先保存当前主题的内容
+    const updatedThemes = collectThemes();
+    const targetTheme = updatedThemes.find(theme => theme.id === themeId);
+    if (!targetTheme) return;
+    
+    setThemes(updatedThemes);
+    setActiveThemeId(themeId);
+    showTheme(targetTheme);
+  };
+
+  // 新建主题并切换过去
+  const handleCreateTheme = () => {
+    const newTheme = createTheme(`主题 ${themes.length + 1}`);
+    
+    setThemes([...collectThemes(), newTheme]);
+    setActiveThemeId(newTheme.id);
+    showTheme(newTheme);
+    message.success(`已创建主题: ${newTheme.title}`);
+  };
+
+  // 重命名主题
+  const handleRenameTheme = (theme: MindMapTheme) => {
+    let tempName = theme.title;
+    Modal.confirm({
+      title: '修改主题名称',
+      content: (
+        <Input 
+          defaultValue={theme.title} 
+          onChange={(e) => tempName = e.target.value}
+        />
+      ),
+      onOk: () => {
+        const title = tempName.trim();
+        if (!title) {
+          message.warning('主题名称不能为空');
+          return;
         }
+        setThemes(prev => 
+          prev.map(item => 
+            item.id === theme.id 
+              ? { ...item, title } 
+              : item
+          )
+        );
+        message.success('主题名称已更新');
+      },
+      okText: '确认',
+      cancelText: '取消',
+    });
+  };
+
+  // 删除主题
+  const handleDeleteTheme = (themeId: string) => {
+    if (themes.length <= 1) {
+      message.warning('至少需要保留一个主题');
+      return;
+    }
+    
+    const theme = themes.find(item => item.id === themeId);
+    if (!theme) return;
+    
+    Modal.confirm({
+      title: '删除主题',
+      content: `确定要删除主题「${theme.title}」吗？该主题下的所有节点都会被删除。`,
+      okText: '删除',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: () => {
+        const remainingThemes = collectThemes().filter(item => item.id !== themeId);
+        setThemes(remainingThemes);
         
-        // 将目标节点添加为源节点的子节点
-        if (sourceNode.children) {
-          sourceNode.children.push(targetNode);
-          childNodeIds.add(edge.target);
+        // 删除的是当前主题时，切换到相邻的主题
+        if (themeId === activeTheme.id) {
+          const index = themes.findIndex(item => item.id === themeId);
+          const nextTheme = remainingThemes[Math.min(index, remainingThemes.length - 1)];
+          setActiveThemeId(nextTheme.id);
+          showTheme(nextTheme);
         }
+        message.success(`已删除主题: ${theme.title}`);
+      },
+    });
+  };
+
+  // 记录已保存的内容
+  const markAsSaved = (data: MindMapData) => {
+    savedSignatureRef.current = getContentSignature(data);
+    setIsDirty(false);
+  };
+
+  // 准备写入文件的数据：附件从 sourceDirectory 读取，保存到目录时图片和附件写入 targetDirectory 中的子文件夹，否则内嵌到文件中
+  const prepareFileData = async (
+    data: MindMapData,
+    sourceDirectory: FileSystemDirectoryHandle | null,
+    targetDirectory: FileSystemDirectoryHandle | null
+  ) => {
+    let fileData = data;
+    if (targetDirectory) {
+      try {
+        fileData = await extractImageAssets(data, targetDirectory);
+      } catch (error) {
+        console.error('保存图片文件时出错:', error);
+        message.warning('图片文件保存失败，图片将直接保存在思维导图文件中');
       }
+    }
+    const prepared = await prepareAttachmentsForSave(fileData, sourceDirectory, targetDirectory);
+    if (prepared.missing > 0) {
+      message.warning(`${prepared.missing} 个附件无法读取，文件中只保存了附件信息`);
+    }
+    return prepared.data;
+  };
+
+  // 清理目录中不再被任何文件引用的图片
+  const cleanUpImageAssets = (directoryHandle: FileSystemDirectoryHandle) => {
+    removeUnusedImageAssets(directoryHandle).catch(error => {
+      console.error('清理图片文件时出错:', error);
     });
+  };
+
+  // 清理不再被引用的附件内容：移除附件时不立即删除，在保存后按所有画布和文件的引用统一清理
+  // 当前画布、撤销历史、自动保存的备份和编辑中的节点引用的附件都保留
+  const cleanUpAttachments = (directoryHandle: FileSystemDirectoryHandle | null) => {
+    let autoSaved: unknown = null;
+    try {
+      autoSaved = JSON.parse(localStorage.getItem('mindmap_autosave') || 'null');
+    } catch (error) {
+      console.error('读取自动保存的内容时出错:', error);
+    }
+    const inUse = collectAttachmentReferences([
+      nodes,
+      themes,
+      history.nodes,
+      autoSaved,
+      { attachments: isModalVisible ? form.getFieldValue('attachments') : undefined },
+    ]);
     
-    // 找出所有根节点（没有父节点的节点）
-    const rootNodes: MindMapNode[] = [];
-    nodeMap.forEach((node, id) => {
-      if (!childNodeIds.has(id)) {
-        rootNodes.push(node);
-      }
+    removeUnusedStoredAttachments(inUse).catch(error => {
+      console.error('清理工作区附件时出错:', error);
     });
+    if (directoryHandle) {
+      removeUnusedAttachmentFiles(directoryHandle, inUse).catch(error => {
+        console.error('清理附件文件时出错:', error);
+      });
+    }
+  };
+
+  // 查找文件所在的目录，只能找到保存目录及其子文件夹中的文件
+  const locateFileDirectory = async (fileHandle: FileSystemFileHandle) => {
+    const path = saveDirectoryHandle ? await saveDirectoryHandle.resolve(fileHandle) : null;
+    if (!saveDirectoryHandle || !path) return null;
+    let directoryHandle = saveDirectoryHandle;
+    for (const name of path.slice(0, -1)) {
+      directoryHandle = await directoryHandle.getDirectoryHandle(name);
+    }
+    return directoryHandle;
+  };
+
+  // 获取打开的文件所在的目录，文件位于保存目录中时使用对应的目录
+  const getFileDirectory = async (fileHandle: FileSystemFileHandle) =>
+    currentFileDirectory || locateFileDirectory(fileHandle);
+
+  // 节点的附件当前读写的目录，与附件列表使用的目录相同
+  const getAttachmentDirectory = () => currentFileDirectory || saveDirectoryHandle;
+
+  // 记录文件当前的内容和修改时间
+  const rememberFileState = async (fileHandle: FileSystemFileHandle, data: MindMapData) => {
+    fileBaseRef.current = normalizeMindMapData(data);
+    fileModifiedRef.current = (await fileHandle.getFile()).lastModified;
+    setExternalChange(null);
+  };
+
+  // 检查打开的文件是否被其他程序修改，有修改时显示提示，返回是否有未处理的修改
+  const checkExternalChange = async (fileHandle: FileSystemFileHandle) => {
+    const file = await fileHandle.getFile();
+    if (file.lastModified === fileModifiedRef.current) return false;
+    if (externalChange && externalChange.modifiedAt === file.lastModified) return true;
     
-    // 创建主题
-    const theme: MindMapTheme = {
-      id: 'theme-' + Date.now(),
-      title: '思维导图',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      children: rootNodes
-    };
+    let data: MindMapData | null = null;
+    try {
+      const resolved = await resolveImageAssets(parseMindMapData(await file.text()), await getFileDirectory(fileHandle));
+      data = normalizeMindMapData(resolved.data);
+    } catch (error) {
+      console.error('读取文件的修改时出错:', error);
+    }
     
-    mindMapData.mindMaps.push(theme);
-    return mindMapData;
+    const diff = data && fileBaseRef.current ? diffMindMaps(fileBaseRef.current, data) : null;
+    // 内容没有变化（如只更新了保存时间）时不需要处理
+    if (diff && isMindMapDiffEmpty(diff)) {
+      fileModifiedRef.current = file.lastModified;
+      return false;
+    }
+    setExternalChange({ modifiedAt: file.lastModified, data, diff });
+    return true;
   };
 
-  // 处理保存
-  const handleSave = async () => {
+  // 写回当前打开的文件
+  const writeBackToFile = async (fileHandle: FileSystemFileHandle) => {
+    // 等待正在进行的修改检查完成
+    while (fileBusyRef.current) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    fileBusyRef.current = true;
     try {
-      // 创建节点映射
-      const nodeMap = new Map();
-      const rootNodes: MindMapNode[] = [];
-      
-      // 创建主题
-      const currentTheme: MindMapTheme = {
-        id: currentCanvasId,
-        title: currentCanvasName,
-        created_at: new Date().toISOString(),
-        children: [],
-      };
-      
-      // 首先创建所有节点
-      nodes.forEach(node => {
-        const { nodeData } = node.data;
-        nodeMap.set(node.id, {
-          id: node.id,
-          title: nodeData.title || '',
-          description: nodeData.description || '',
-          priority: nodeData.priority,
-          status: nodeData.status,
-          created_at: nodeData.created_at || new Date().toISOString(),
-          start_date: nodeData.start_date,
-          due_date: nodeData.due_date,
-          children: [],
-        });
-      });
+      // 文件已被其他程序修改时不覆盖，先由用户选择如何处理
+      if (await checkExternalChange(fileHandle)) {
+        message.warning(`${fileHandle.name} 已被其他程序修改，请先处理文件的修改后再保存`);
+        return;
+      }
       
-      // 然后建立父子关系
-      edges.forEach(edge => {
-        const sourceNode = nodeMap.get(edge.source);
-        const targetNode = nodeMap.get(edge.target);
-        
-        if (sourceNode && targetNode) {
-          if (!sourceNode.children) {
-            sourceNode.children = [];
-          }
-          sourceNode.children.push(targetNode);
-          
-          // 如果边有标签，添加到目标节点
-          if (edge.data && edge.data.label) {
-            targetNode.edgeLabel = edge.data.label ? String(edge.data.label) : undefined;
-          }
-        }
-      });
+      const mindMapData = getMindMapData();
       
-      // 找出根节点（没有入边的节点）
-      const targetIds = new Set(edges.map(edge => edge.target));
-      nodes.forEach(node => {
-        if (!targetIds.has(node.id)) {
-          const rootNode = nodeMap.get(node.id);
-          if (rootNode) {
-            rootNodes.push(rootNode);
-          }
-        }
-      });
+      // 文件位于保存目录中时，图片和附件也写入文件所在的目录
+      const directoryHandle = await getFileDirectory(fileHandle);
       
-      // 设置根节点
-      currentTheme.children = rootNodes;
+      await writeToFileHandle(fileHandle, await prepareFileData(mindMapData, getAttachmentDirectory(), directoryHandle));
+      if (directoryHandle) {
+        cleanUpImageAssets(directoryHandle);
+      }
+      cleanUpAttachments(directoryHandle);
+      await rememberFileState(fileHandle, mindMapData);
+      markAsSaved(mindMapData);
+      message.success(`已保存到 ${fileHandle.name}`);
+    } catch (error) {
+      console.error('写入文件时出错:', error);
+      message.error('保存失败');
+    } finally {
+      fileBusyRef.current = false;
+    }
+  };
+
+  // 处理另存为，之后的保存写入新文件
+  const handleSaveAs = async () => {
+    try {
+      const mindMapData = getMindMapData();
+      // 新文件位于保存目录中时，图片和附件写入新文件所在的目录，否则内嵌到文件中
+      let targetDirectory: FileSystemDirectoryHandle | null = null;
+      const { saved, fileHandle } = await saveAsFile(async newFileHandle => {
+        targetDirectory = newFileHandle ? await locateFileDirectory(newFileHandle) : null;
+        return prepareFileData(mindMapData, getAttachmentDirectory(), targetDirectory);
+      }, currentCanvasName);
+      if (!saved) return;
       
+      if (fileHandle) {
+        setCurrentFileHandle(fileHandle);
+        setCurrentFileDirectory(targetDirectory);
+        await rememberFileState(fileHandle, mindMapData);
+      }
+      markAsSaved(mindMapData);
+      if (targetDirectory) {
+        cleanUpImageAssets(targetDirectory);
+      }
+      cleanUpAttachments(targetDirectory);
+      message.success(fileHandle ? `已另存为 ${fileHandle.name}` : '思维导图已保存为JSON格式（使用传统下载方式）');
+    } catch (error) {
+      console.error('另存为时出错:', error);
+      message.error('另存为失败');
+    }
+  };
+
+  // 处理保存
+  const handleSave = async () => {
+    // 已打开的文件直接写回原文件
+    if (currentFileHandle) {
+      await writeBackToFile(currentFileHandle);
+      return;
+    }
+    
+    try {
       // 创建完整的MindMapData
-      const mindMapData: MindMapData = {
-        mindMaps: [currentTheme],
-      };
+      const mindMapData = getMindMapData();
       
       // 检查是否在非 HTTPS 环境
       const isNotSecure = window.location.protocol !== 'https:' && window.location.hostname !== 'localhost';
@@ -1121,11 +1592,22 @@ const MindMap: React.FC = () => {
         }
       }
       
+      // 保存到目录时，描述中的图片写入 assets 目录，附件写入 attachments 目录，文件中只保留相对路径
+      const fileData = await prepareFileData(mindMapData, getAttachmentDirectory(), saveDirectoryHandle);
+      
       // 保存到JSON文件，使用画布名称作为文件名
-      const jsonSuccess = await saveToFile(mindMapData, currentCanvasName, saveDirectoryHandle);
+      const jsonSuccess = await saveToFile(fileData, currentCanvasName, saveDirectoryHandle);
       
       // 保存到Markdown文件，使用画布名称作为文件名
-      const mdSuccess = await saveToMarkdown(mindMapData, currentCanvasName, saveDirectoryHandle);
+      const mdSuccess = await saveToMarkdown(fileData, currentCanvasName, saveDirectoryHandle);
+      
+      if (jsonSuccess) {
+        markAsSaved(mindMapData);
+        if (saveDirectoryHandle) {
+          cleanUpImageAssets(saveDirectoryHandle);
+        }
+        cleanUpAttachments(saveDirectoryHandle);
+      }
       
       if (jsonSuccess && mdSuccess) {
         if (saveDirectoryHandle) {
@@ -1160,6 +1642,98 @@ const MindMap: React.FC = () => {
     }
   };
 
+  // 处理导出
+  const handleExport = async (format: ExportFormat) => {
+    const exportFormat = EXPORT_FORMATS[format];
+    try {
+      const mindMapData = getMindMapData();
+      
+      // 检查是否在非 HTTPS 环境
+      const isNotSecure = window.location.protocol !== 'https:' && window.location.hostname !== 'localhost';
+      
+      // 如果没有选择保存目录且环境支持，提示用户选择
+      if (!saveDirectoryHandle && 'showDirectoryPicker' in window && !isNotSecure) {
+        const shouldSelect = await new Promise<boolean>((resolve) => {
+          Modal.confirm({
+            title: '选择保存路径',
+            content: '您尚未选择保存路径，是否现在选择？',
+            okText: '选择',
+            cancelText: '取消',
+            onOk: () => resolve(true),
+            onCancel: () => resolve(false),
+          });
+        });
+        
+        if (shouldSelect) {
+          await selectSaveDirectory();
+        }
+      }
+      
+      const success = await exportFormat.save(mindMapData, currentCanvasName, saveDirectoryHandle);
+      
+      if (success) {
+        if (saveDirectoryHandle) {
+          message.success(`${exportFormat.name}文件已保存到 ${saveDirectoryPath} 目录`);
+        } else if (isNotSecure) {
+          message.success(`成功导出为${exportFormat.name}格式（使用传统下载方式）`);
+        } else {
+          message.success(`成功导出为${exportFormat.name}格式`);
+        }
+      } else {
+        message.error('导出失败');
+      }
+    } catch (error) {
+      console.error(`导出${exportFormat.name}时出错:`, error);
+      message.error('导出失败');
+    }
+  };
+
+  // 图片导出
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const [imageExportFormat, setImageExportFormat] = useState<ImageFormat | null>(null);
+  const [imageExportOptions, setImageExportOptions] = useState<ImageExportOptions>({
+    scope: 'all',
+    background: 'white',
+    scale: 2,
+  });
+
+  const handleImageExport = async () => {
+    const format = imageExportFormat;
+    if (!format) return;
+    setImageExportFormat(null);
+
+    try {
+      // 导出可见区域时需要当前视图和画布尺寸
+      const container = canvasContainerRef.current;
+      // 导出画布上显示的内容，折叠和筛选隐藏的节点不导出
+      const image = renderCanvasToSvg(
+        displayNodes,
+        displayEdges,
+        imageExportOptions,
+        container
+          ? { viewport: reactFlowInstance.getViewport(), width: container.clientWidth, height: container.clientHeight }
+          : undefined
+      );
+
+      const success = format === 'svg'
+        ? await saveToSvg(image.svg, currentCanvasName, saveDirectoryHandle)
+        : await saveToPng(await svgToPngBlob(image), currentCanvasName, saveDirectoryHandle);
+
+      if (success) {
+        if (saveDirectoryHandle) {
+          message.success(`${format.toUpperCase()}图片已保存到 ${saveDirectoryPath} 目录`);
+        } else {
+          message.success(`成功导出为${format.toUpperCase()}图片`);
+        }
+      } else {
+        message.error('导出失败');
+      }
+    } catch (error) {
+      console.error('导出图片时出错:', error);
+      message.error('导出失败');
+    }
+  };
+
   // 添加连接成功的标志变量
   const connectionSuccessfulRef = useRef(false);
 
@@ -1412,9 +1986,8 @@ const MindMap: React.FC = () => {
     [selectedNode, reactFlowInstance, setNodes, setEdges]
   );
 
-  // 处理节点点击事件
-  const handleNodeClick: NodeMouseHandler = (event, node) => {
-    event.stopPropagation();
+  // 选中节点，并将节点内容填入编辑表单
+  const selectNode = (node: FlowNode) => {
     setSelectedNode(node);
     
     // 确保 form 实例已经准备好
@@ -1427,6 +2000,8 @@ const MindMap: React.FC = () => {
           status: node.data.nodeData.status || undefined,
           start_date: node.data.nodeData.start_date || '',
           due_date: node.data.nodeData.due_date || '',
+          tags: node.data.nodeData.tags || [],
+          attachments: node.data.nodeData.attachments || [],
         });
       }, 0);
       
@@ -1435,17 +2010,101 @@ const MindMap: React.FC = () => {
     }
   };
 
-  // 双击节点打开编辑弹窗
-  const handleNodeDoubleClick: NodeMouseHandler = (event: React.MouseEvent, node: FlowNode) => {
-    setSelectedNode(node);
-    if (node.data.nodeData) {
-      const currentDate = new Date().toISOString().split('T')[0];
-      form.setFieldsValue({
-        title: node.data.nodeData.title,
-        priority: node.data.nodeData.priority,
-        status: node.data.nodeData.status,
-        start_date: node.data.nodeData.start_date || currentDate,
-        due_date: node.data.nodeData.due_date || currentDate,
+  // 处理节点点击事件
+  const handleNodeClick: NodeMouseHandler = (event, node) => {
+    event.stopPropagation();
+    selectNode(node);
+  };
+
+  // 将视图移动到节点的中心，画布未锁定时同时选中该节点；节点被折叠时先展开其祖先
+  const focusNode = (nodeId: string) => {
+    const node = reactFlowInstance.getNode(nodeId);
+    if (!node) return;
+    
+    setNodes(nds => {
+      if (!getCollapsedHiddenIds(nds, edges).has(nodeId)) return nds;
+      const childIds = getChildIdsMap(edges);
+      return nds.map(n => (n.data.nodeData?.collapsed && getDescendantIds(n.id, childIds).has(nodeId) ? withCollapsed(n, false) : n));
+    });
+    
+    const position = node.positionAbsolute || node.position;
+    reactFlowInstance.setCenter(
+      position.x + (node.width || NODE_WIDTH) / 2,
+      position.y + (node.height || NODE_HEIGHT) / 2,
+      { zoom: Math.max(reactFlowInstance.getZoom(), 1), duration: 500 }
+    );
+    
+    if (!isLocked) {
+      setNodes(nds => nds.map(n => (n.selected === (n.id === nodeId) ? n : { ...n, selected: n.id === nodeId })));
+      selectNode(node);
+    }
+  };
+
+  // 定位到搜索结果，结果在其他主题中时先切换主题
+  const handleSelectSearchResult = (result: SearchResult) => {
+    if (result.themeId === activeTheme.id) {
+      focusNode(result.nodeId);
+      return;
+    }
+    handleSwitchTheme(result.themeId);
+    // 等待主题的节点显示在画布上后再定位
+    setTimeout(() => focusNode(result.nodeId), 100);
+  };
+
+  // 打开搜索面板，已打开时重新聚焦输入框
+  const openSearch = () => {
+    setSearchVisible(true);
+    setSearchFocusKey(key => key + 1);
+  };
+
+  // 使用保存的视图
+  const handleApplyView = (view: MindMapView) => {
+    setNodeFilter(view.filter);
+    setFilterMode(view.mode);
+    setActiveViewId(view.id);
+  };
+
+  // 将当前的筛选条件保存为视图，同名的视图会被覆盖
+  const handleSaveView = (name: string) => {
+    const existing = views.find(view => view.name === name);
+    const view: MindMapView = {
+      id: existing ? existing.id : `view-${Date.now()}`,
+      name,
+      filter: nodeFilter,
+      mode: filterMode,
+    };
+    setViews(prev => existing ? prev.map(item => (item.id === existing.id ? view : item)) : [...prev, view]);
+    setActiveViewId(view.id);
+    message.success(existing ? `已更新视图: ${name}` : `已保存视图: ${name}`);
+  };
+
+  // 删除保存的视图，当前的筛选条件保持不变
+  const handleDeleteView = (view: MindMapView) => {
+    setViews(prev => prev.filter(item => item.id !== view.id));
+    setActiveViewId(null);
+    message.success(`已删除视图: ${view.name}`);
+  };
+
+  // 切换画布时使用新画布的视图，并清除筛选条件
+  const resetViews = (canvasViews: MindMapView[] = []) => {
+    setViews(canvasViews);
+    setNodeFilter({});
+    setActiveViewId(null);
+  };
+
+  // 双击节点打开编辑弹窗
+  const handleNodeDoubleClick: NodeMouseHandler = (event: React.MouseEvent, node: FlowNode) => {
+    setSelectedNode(node);
+    if (node.data.nodeData) {
+      const currentDate = new Date().toISOString().split('T')[0];
+      form.setFieldsValue({
+        title: node.data.nodeData.title,
+        priority: node.data.nodeData.priority,
+        status: node.data.nodeData.status,
+        start_date: node.data.nodeData.start_date || currentDate,
+        due_date: node.data.nodeData.due_date || currentDate,
+        tags: node.data.nodeData.tags || [],
+        attachments: node.data.nodeData.attachments || [],
       });
       setHtml(node.data.nodeData.description || '');
       setIsModalVisible(true);
@@ -1465,6 +2124,16 @@ const MindMap: React.FC = () => {
           label: '添加子节点',
           onClick: () => handleAddNode(node.id),
         },
+        ...(collapseContextValue.parentIds.has(node.id)
+          ? [{
+              key: 'toggle-collapse',
+              label: node.data.nodeData?.collapsed ? '展开子节点' : '折叠子节点',
+              onClick: () => {
+                handleToggleCollapse(node.id);
+                setContextMenu({ visible: false, x: 0, y: 0 });
+              },
+            }]
+          : []),
         {
           key: 'add-theme',
           label: '添加新主题',
@@ -1689,9 +2358,9 @@ const MindMap: React.FC = () => {
       position: newNodePosition,
     };
     
-    // 添加新节点
+    // 添加新节点，父节点折叠时先展开，新节点才能显示
     setNodes((nds) => {
-      const updatedNodes = [...nds, newNode];
+      const updatedNodes = [...nds.map(node => (node.id === parentId ? withCollapsed(node, false) : node)), newNode];
       return updatedNodes;
     });
     
@@ -1746,6 +2415,17 @@ const MindMap: React.FC = () => {
     setContextMenu({ visible: false, x: 0, y: 0 });
   };
 
+  // 开启自动完成父节点时，立即检查当前主题中的所有父节点
+  const handleAutoCompleteParentsChange = (checked: boolean) => {
+    setAutoCompleteParents(checked);
+    localStorage.setItem(AUTO_COMPLETE_PARENTS_KEY, String(checked));
+    if (!checked) return;
+    const updatedNodes = withAutoCompletedParents(nodes, edges);
+    if (updatedNodes === nodes) return;
+    setNodes(updatedNodes);
+    message.success('已将子节点全部完成的父节点设为已完成');
+  };
+
   const handleModalOk = async () => {
     try {
       const values = await form.validateFields();
@@ -1756,6 +2436,8 @@ const MindMap: React.FC = () => {
               ...node.data.nodeData,
               ...values,
               description: html, // 使用富文本编辑器的HTML内容
+              tags: values.tags?.length ? values.tags : undefined,
+              attachments: values.attachments?.length ? values.attachments : undefined,
               updated_at: new Date().toISOString(),
             };
             return {
@@ -1799,6 +2481,8 @@ const MindMap: React.FC = () => {
               ...node.data.nodeData,
               ...values,
               description: html, // 使用富文本编辑器的HTML内容
+              tags: values.tags?.length ? values.tags : undefined,
+              attachments: values.attachments?.length ? values.attachments : undefined,
               updated_at: new Date().toISOString(),
             };
             return {
@@ -1840,146 +2524,270 @@ const MindMap: React.FC = () => {
     form.resetFields();
   };
 
-  const handleLoad = async () => {
-    try {
-      const data = await loadFromFile();
-      if (data?.mindMaps && data.mindMaps.length > 0) {
-        // 清空当前画布
-        setNodes([]);
-        setEdges([]);
-        
-        // 创建新节点和边
-        const newNodes: FlowNode[] = [];
-        const newEdges: Edge[] = [];
-        const currentDate = new Date().toISOString().split('T')[0];
+  // 在画布上显示加载的思维导图
+  // fileHandle 为保存时写回的文件，fileDirectory 为文件所在的目录，用于读取图片和附件
+  const openMindMapData = async (
+    loadedData: MindMapData,
+    fileHandle: FileSystemFileHandle | null,
+    fileDirectory: FileSystemDirectoryHandle | null
+  ) => {
+    // 从文件所在目录的 assets 目录中读取描述引用的图片
+    const resolved = await resolveImageAssets(loadedData, fileDirectory || saveDirectoryHandle);
+    if (resolved.missing > 0) {
+      message.warning(`有 ${resolved.missing} 张图片未找到，请先选择图片所在的保存路径后重新加载`);
+    }
+    
+    // 文件中内嵌的附件转存到浏览器工作区
+    const data = await storeEmbeddedAttachments(resolved.data);
+    
+    if (data.mindMaps && data.mindMaps.length > 0) {
+      // 记住打开的文件，保存时写回该文件
+      setCurrentFileHandle(fileHandle);
+      setCurrentFileDirectory(fileDirectory);
+      savedSignatureRef.current = null;
+      if (fileHandle) {
+        await rememberFileState(fileHandle, data);
+      } else {
+        setExternalChange(null);
+      }
+      
+      // 清空当前画布
+      setNodes([]);
+      setEdges([]);
+      
+      // 加载所有主题，并显示第一个主题
+      const theme = data.mindMaps[0];
+      setThemes(data.mindMaps);
+      setActiveThemeId(theme.id);
+      resetViews(data.views);
+      const { nodes: newNodes, edges: newEdges, viewport, hasLayout } = themeToFlow(theme);
+      
+      // 使用 Promise 和 setTimeout 确保状态更新后再执行后续操作
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      // 使用函数式更新确保状态完全替换而不是合并
+      setNodes(() => [...newNodes]);
+      setEdges(() => [...newEdges]);
+      
+      // 添加到历史记录
+      addToHistory(newNodes, newEdges);
+      
+      // 延迟执行，确保节点已经渲染
+      setTimeout(() => {
+        // 确保 reactFlowInstance 已经初始化
+        if (!reactFlowInstance) return;
         
-        // 递归处理节点及其子节点
-        const processNode = (node: MindMapNode, parentId?: string, position = { x: 0, y: 0 }, level = 0) => {
-          // 创建节点
-          const newNode: FlowNode = {
-            id: node.id || `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // 确保ID唯一
-            type: 'custom',
-            position: position,
-            data: {
-              label: node.title,
-              nodeData: {
-                id: node.id || `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                title: node.title || '',
-                description: node.description || '',
-                priority: node.priority,
-                status: node.status,
-                created_at: node.created_at || new Date().toISOString(),
-                start_date: node.start_date || currentDate,
-                due_date: node.due_date || currentDate,
-              },
-              selected: false, // 确保节点未被选中状态
-            },
-          };
-          
-          newNodes.push(newNode);
-          
-          // 如果有父节点，创建边
-          if (parentId) {
-            const newEdge: Edge = {
-              id: `edge-${parentId}-${newNode.id}-${Date.now()}`, // 确保边ID唯一
-              source: parentId,
-              target: newNode.id,
-              type: 'custom',
-              data: { label: node.edgeLabel || '' },
-              sourceHandle: 'right',
-              targetHandle: 'left',
-            };
-            newEdges.push(newEdge);
-          }
-          
-          // 处理子节点
-          if (node.children && node.children.length > 0) {
-            node.children.forEach((child, index) => {
-              const childPosition = {
-                x: position.x + NODE_WIDTH * 1.5, // 子节点向右偏移
-                y: position.y + (index - node.children!.length / 2) * NODE_HEIGHT * 1.5, // 子节点垂直分布
-              };
-              processNode(child, newNode.id, childPosition, level + 1);
-            });
+        // 文件中保存了布局信息时，直接还原保存时的视图
+        if (hasLayout) {
+          if (viewport) {
+            reactFlowInstance.setViewport(viewport, { duration: 800 });
+          } else {
+            reactFlowInstance.fitView({ padding: 0.2, duration: 800 });
           }
-        };
-        
-        // 处理所有主题
-        const theme = data.mindMaps[0]; // 只处理第一个主题
-        
-        // 如果主题有子节点，直接处理子节点
-        if (theme.children && theme.children.length > 0) {
-          // 计算初始位置，使节点居中
-          const initialX = 100;
-          const initialY = 100;
-          
-          theme.children.forEach((child, index) => {
-            const childPosition = {
-              x: initialX,
-              y: initialY + index * NODE_HEIGHT * 2, // 垂直排列根节点
-            };
-            processNode(child, undefined, childPosition);
-          });
-        } else {
-          // 如果主题没有子节点，创建一个主题节点
-          const themeNode: FlowNode = {
-            id: theme.id || `theme-${Date.now()}`, // 确保ID唯一
-            type: 'custom',
-            position: { x: 100, y: 100 },
-            data: {
-              label: theme.title,
-              nodeData: {
-                id: theme.id || `theme-${Date.now()}`,
-                title: theme.title || '思维导图',
-                description: '', // 主题没有description属性，设置为空字符串
-                created_at: theme.created_at || new Date().toISOString(),
-                start_date: currentDate,
-                due_date: currentDate,
-              },
-              selected: false, // 确保节点未被选中状态
-            },
-          };
-          
-          newNodes.push(themeNode);
+          return;
         }
         
-        // 使用 Promise 和 setTimeout 确保状态更新后再执行后续操作
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // 使用函数式更新确保状态完全替换而不是合并
-        setNodes(() => [...newNodes]);
-        setEdges(() => [...newEdges]);
+        // 使用 fitView 确保所有节点都在视图中
+        reactFlowInstance.fitView({ padding: 0.2, duration: 800 });
         
-        // 添加到历史记录
-        addToHistory(newNodes, newEdges);
-        
-        // 延迟执行自动布局，确保节点已经渲染
+        // 再次延迟执行自动布局，确保节点已经渲染
         setTimeout(() => {
-          // 确保 reactFlowInstance 已经初始化
-          if (reactFlowInstance) {
-            // 使用 fitView 确保所有节点都在视图中
-            reactFlowInstance.fitView({ padding: 0.2, duration: 800 });
-            
-            // 再次延迟执行自动布局，确保节点已经渲染
-            setTimeout(() => {
-              // 再次检查节点是否存在
-              if (newNodes.length > 0) {
-                handleAutoLayout();
-              }
-            }, 500);
+          // 再次检查节点是否存在
+          if (newNodes.length > 0) {
+            handleAutoLayout();
           }
-        }, 300);
-        
-        message.success('思维导图已加载');
-      } else {
-        message.error('加载失败：文件格式不正确或没有数据');
+        }, 500);
+      }, 300);
+      
+      message.success(
+        data.mindMaps.length > 1
+          ? `思维导图已加载，共 ${data.mindMaps.length} 个主题`
+          : '思维导图已加载'
+      );
+    } else {
+      message.error('加载失败：文件格式不正确或没有数据');
+    }
+  };
+
+  // 显示加载失败的原因
+  const showLoadError = (error: unknown) => {
+    if (error instanceof MindMapSchemaError) {
+      // 逐条列出格式问题及其位置
+      Modal.error({
+        title: '加载失败：文件格式不正确',
+        width: 600,
+        content: (
+          <ul style={{ maxHeight: '50vh', overflow: 'auto', paddingLeft: '20px', margin: 0 }}>
+            {error.issues.map((issue, index) => (
+              <li key={index} style={{ fontSize: '12px' }}>
+                <code>{issue.path}</code> {issue.message}
+              </li>
+            ))}
+          </ul>
+        ),
+      });
+      return;
+    }
+    message.error('加载失败：' + (error instanceof Error ? error.message : '未知错误'));
+  };
+
+  const handleLoad = async () => {
+    try {
+      const loaded = await loadFromFile();
+      if (loaded) {
+        await openMindMapData(loaded.data, loaded.fileHandle, null);
       }
     } catch (error) {
       console.error('加载思维导图时出错:', error);
-      message.error('加载失败：' + (error instanceof Error ? error.message : '未知错误'));
+      showLoadError(error);
     }
   };
 
+  // 打开保存目录中的思维导图
+  // 在新的画布中打开内容，当前画布保存在历史画布中，有未保存的修改时先确认
+  const openInNewCanvas = async (title: string, open: () => Promise<void>) => {
+    const openCanvas = async () => {
+      try {
+        if (nodes.length > 0) {
+          await saveToHistory();
+        }
+        setCurrentCanvasId(`canvas-${Date.now()}`);
+        await open();
+      } catch (error) {
+        console.error('打开思维导图时出错:', error);
+        showLoadError(error);
+      }
+    };
+    
+    if (isDirty) {
+      Modal.confirm({
+        title,
+        content: '当前画布有未保存的修改，打开其他内容后这些修改只保留在历史画布中，不会写入文件，是否继续？',
+        okText: '继续',
+        cancelText: '取消',
+        onOk: openCanvas,
+      });
+    } else {
+      await openCanvas();
+    }
+  };
+
+  const handleOpenDirectoryFile = (mapFile: DirectoryMapFile) =>
+    openInNewCanvas('打开文件', async () => {
+      await openMindMapData(await readMapFile(mapFile.fileHandle), mapFile.fileHandle, mapFile.directoryHandle);
+      setCurrentCanvasName(mapFile.name);
+      setWorkspaceBrowserVisible(false);
+    });
+
+  // 当前文件在文件夹浏览器中被重命名，之后保存时写入新文件
+  const handleCurrentFileRenamed = async (fileHandle: FileSystemFileHandle) => {
+    fileModifiedRef.current = (await fileHandle.getFile()).lastModified;
+    setCurrentFileHandle(fileHandle);
+  };
+
+  // 在画布上显示合并后的内容，尽量保持当前主题
+  const showMergedData = (data: MindMapData) => {
+    const theme = data.mindMaps.find(item => item.id === activeTheme.id) || data.mindMaps[0];
+    if (!theme) return;
+    setThemes(data.mindMaps);
+    setActiveThemeId(theme.id);
+    showTheme(theme);
+    // 保留当前的筛选条件，合并后被删除的视图不再高亮
+    setViews(data.views || []);
+    if (activeViewId && !(data.views || []).some(view => view.id === activeViewId)) {
+      setActiveViewId(null);
+    }
+  };
+
+  // 重新加载被其他程序修改的文件，放弃当前的修改
+  const handleReloadExternalChange = () => {
+    if (!currentFileHandle) return;
+    const fileHandle = currentFileHandle;
+    
+    const reload = async () => {
+      try {
+        await openMindMapData(await readMapFile(fileHandle), fileHandle, currentFileDirectory);
+      } catch (error) {
+        console.error('重新加载文件时出错:', error);
+        showLoadError(error);
+      }
+    };
+    
+    if (isDirty) {
+      Modal.confirm({
+        title: '重新加载',
+        content: '重新加载后当前未保存的修改将会丢失，是否继续？',
+        okText: '重新加载',
+        okType: 'danger',
+        cancelText: '取消',
+        onOk: reload,
+      });
+    } else {
+      reload();
+    }
+  };
+
+  // 保留当前的内容，之后保存时覆盖文件中的修改
+  const handleKeepMineExternalChange = () => {
+    if (!externalChange) return;
+    if (externalChange.data) {
+      fileBaseRef.current = externalChange.data;
+    }
+    fileModifiedRef.current = externalChange.modifiedAt;
+    setExternalChange(null);
+    // 当前内容与文件不同，标记为有未保存的修改
+    savedSignatureRef.current = '';
+    setIsDirty(true);
+    message.info('已保留当前的内容，保存时将覆盖文件中的修改');
+  };
+
+  // 在画布上显示与文件合并后的内容
+  const applyExternalMerge = (data: MindMapData, change: ExternalChange) => {
+    if (!change.data) return;
+    showMergedData(data);
+    
+    // 合并后的内容以文件的最新版本为基础，需要保存后才会写入文件
+    fileBaseRef.current = change.data;
+    fileModifiedRef.current = change.modifiedAt;
+    setExternalChange(null);
+    savedSignatureRef.current = '';
+    setIsDirty(true);
+    message.success('已合并文件的修改，请检查后保存');
+  };
+
+  // 将文件中的修改按节点合并到当前内容中，有冲突时逐项选择采用的版本
+  const handleMergeExternalChange = () => {
+    if (!externalChange || !externalChange.data || !fileBaseRef.current) return;
+    
+    const versions: MergeVersions = {
+      base: fileBaseRef.current,
+      mine: normalizeMindMapData(getMindMapData()),
+      theirs: externalChange.data,
+    };
+    const { data, conflicts } = mergeMindMaps(versions.base, versions.mine, versions.theirs);
+    if (conflicts.length === 0) {
+      applyExternalMerge(data, externalChange);
+      return;
+    }
+    setMergeTool({ versions, labels: ['当前内容', '文件中的内容'], change: externalChange });
+  };
+
+  // 合并工具完成合并
+  const handleMerged = (data: MindMapData) => {
+    const change = mergeTool?.change;
+    setMergeTool(null);
+    
+    // 与外部修改合并时保持打开的文件，合并其他文件时在新的画布中打开结果
+    if (change) {
+      applyExternalMerge(data, change);
+      return;
+    }
+    openInNewCanvas('打开合并结果', async () => {
+      await openMindMapData(data, null, null);
+      setCurrentCanvasName('合并结果');
+    });
+  };
+
   // 处理连线点击事件
   const onEdgeClick = useCallback((event: React.MouseEvent, edge: Edge) => {
     // 只设置选中状态
@@ -2023,9 +2831,33 @@ const MindMap: React.FC = () => {
     );
   }, [setEdges]);
 
+  // 保存快捷键调用最新的保存函数，避免每次渲染都重新绑定键盘事件
+  const saveShortcutRef = useRef<(saveAs: boolean) => void>(() => {});
+  saveShortcutRef.current = (saveAs: boolean) => (saveAs ? handleSaveAs() : handleSave());
+  // 编辑节点时保留浏览器自带的查找
+  const searchShortcutRef = useRef<() => boolean>(() => false);
+  searchShortcutRef.current = () => {
+    if (isModalVisible) return false;
+    openSearch();
+    return true;
+  };
+
   // 添加键盘快捷键支持
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Ctrl+F 搜索，锁定时也可以使用
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        if (searchShortcutRef.current()) event.preventDefault();
+        return;
+      }
+      
+      // Ctrl+S 保存，Ctrl+Shift+S 另存为，锁定时也可以使用
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+        event.preventDefault();
+        saveShortcutRef.current(event.shiftKey);
+        return;
+      }
+      
       // 如果画布被锁定，不处理快捷键
       if (isLocked) return;
       
@@ -2048,6 +2880,50 @@ const MindMap: React.FC = () => {
     };
   }, [handleUndo, handleRedo, isLocked]);
 
+  // 内容变化后与上次保存的内容比较，判断是否有未保存的修改，调用最新的 getMindMapData
+  const getMindMapDataRef = useRef(getMindMapData);
+  getMindMapDataRef.current = getMindMapData;
+  
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      const signature = getContentSignature(getMindMapDataRef.current());
+      if (savedSignatureRef.current === null) {
+        savedSignatureRef.current = signature;
+      }
+      setIsDirty(signature !== savedSignatureRef.current);
+    }, 500);
+    
+    return () => clearTimeout(timeoutId);
+  }, [nodes, edges, themes, activeThemeId, views]);
+
+  // 定时检查打开的文件是否被其他程序修改，调用最新的检查函数
+  const checkExternalChangeRef = useRef(checkExternalChange);
+  checkExternalChangeRef.current = checkExternalChange;
+  
+  useEffect(() => {
+    if (!currentFileHandle) return;
+    
+    const timer = setInterval(async () => {
+      // 页面不可见或正在读写文件时跳过
+      if (document.hidden || fileBusyRef.current) return;
+      fileBusyRef.current = true;
+      try {
+        await checkExternalChangeRef.current(currentFileHandle);
+      } catch (error) {
+        console.error('检查文件修改时出错:', error);
+      } finally {
+        fileBusyRef.current = false;
+      }
+    }, FILE_CHANGE_CHECK_INTERVAL);
+    
+    return () => clearInterval(timer);
+  }, [currentFileHandle]);
+
+  // 浏览器标题显示画布名称和未保存标记
+  useEffect(() => {
+    document.title = `${isDirty ? '● ' : ''}${currentCanvasName}`;
+  }, [isDirty, currentCanvasName]);
+
   // 组件卸载时销毁编辑器实例
   useEffect(() => {
     return () => {
@@ -2069,6 +2945,9 @@ const MindMap: React.FC = () => {
         const canvasState = {
           nodes,
           edges,
+          themes,
+          activeThemeId: activeTheme.id,
+          views,
           canvasId: currentCanvasId,
           canvasName: currentCanvasName,
           lastSaved: new Date().toISOString()
@@ -2124,7 +3003,7 @@ const MindMap: React.FC = () => {
       document.removeEventListener('keydown', handleKeyDown);
       clearInterval(autoSaveInterval);
     };
-  }, [nodes, edges, isLocked, currentCanvasId, currentCanvasName]);
+  }, [nodes, edges, themes, activeTheme.id, views, isLocked, currentCanvasId, currentCanvasName]);
 
   // 组件加载时检查是否有自动保存的内容
   useEffect(() => {
@@ -2134,7 +3013,15 @@ const MindMap: React.FC = () => {
         const lastSavedTime = localStorage.getItem('mindmap_last_saved');
 
         if (savedContent && lastSavedTime) {
-          const { nodes: savedNodes, edges: savedEdges, canvasId, canvasName } = JSON.parse(savedContent);
+          const {
+            nodes: savedNodes,
+            edges: savedEdges,
+            themes: savedThemes,
+            activeThemeId: savedActiveThemeId,
+            views: savedViews,
+            canvasId,
+            canvasName,
+          } = JSON.parse(savedContent);
 
           // 计算上次保存时间
           const lastSavedDate = new Date(lastSavedTime);
@@ -2149,6 +3036,13 @@ const MindMap: React.FC = () => {
             onOk: () => {
               setNodes(savedNodes);
               setEdges(savedEdges);
+              if (Array.isArray(savedThemes) && savedThemes.length > 0) {
+                setThemes(savedThemes);
+                setActiveThemeId(savedActiveThemeId || savedThemes[0].id);
+              }
+              if (Array.isArray(savedViews)) {
+                setViews(savedViews);
+              }
               setCurrentCanvasId(canvasId);
               setCurrentCanvasName(canvasName);
               message.success('已恢复自动保存的内容');
@@ -2169,53 +3063,90 @@ const MindMap: React.FC = () => {
     loadAutoSavedContent();
   }, []);
 
-  // 保存当前画布到历史记录
-  const saveToHistory = useCallback(() => {
-    // 检查是否已存在相同ID的画布
-    const existingCanvasIndex = canvasHistory.findIndex(canvas => canvas.id === currentCanvasId);
-    
-    const newCanvas = {
-      id: currentCanvasId,
-      name: currentCanvasName,
-      nodes: nodes,
-      edges: edges,
-      createdAt: new Date().toISOString(),
-    };
+  // 从工作区读取所有画布
+  const refreshCanvasHistory = useCallback(async () => {
+    if (!isWorkspaceStoreSupported()) return;
+    try {
+      setCanvasHistory(await listCanvases());
+    } catch (error) {
+      console.error('读取工作区画布失败:', error);
+    }
+  }, []);
+
+  // 保存当前画布到工作区
+  const saveToHistory = useCallback(async () => {
+    if (!isWorkspaceStoreSupported()) return;
     
-    if (existingCanvasIndex >= 0) {
-      // 更新已存在的画布
-      setCanvasHistory(prev => {
-        const newHistory = [...prev];
-        newHistory[existingCanvasIndex] = newCanvas;
-        return newHistory;
-      });
-    } else {
-      // 添加新画布到历史记录
-      setCanvasHistory(prev => [...prev, newCanvas]);
+    try {
+      // 保留已保存画布的创建时间
+      const existingCanvas = await getCanvas(currentCanvasId);
+      const now = new Date().toISOString();
+      
+      const newCanvas: StoredCanvas = {
+        id: currentCanvasId,
+        name: currentCanvasName,
+        nodes: nodes,
+        edges: edges,
+        themes,
+        activeThemeId: activeTheme.id,
+        views,
+        createdAt: existingCanvas?.createdAt || now,
+        updatedAt: now,
+      };
+      
+      await putCanvas(newCanvas);
+      setCanvasHistory(prev => [
+        newCanvas,
+        ...prev.filter(canvas => canvas.id !== newCanvas.id),
+      ]);
+    } catch (error) {
+      console.error('保存画布到工作区失败:', error);
     }
-  }, [nodes, edges, canvasHistory, currentCanvasId, currentCanvasName]);
+  }, [nodes, edges, themes, activeTheme.id, views, currentCanvasId, currentCanvasName]);
+
+  // 组件加载时读取工作区中的画布
+  useEffect(() => {
+    refreshCanvasHistory();
+  }, [refreshCanvasHistory]);
+
+  // 画布内容变化后自动保存到工作区
+  useEffect(() => {
+    if (nodes.length === 0) return;
+    
+    const timeoutId = setTimeout(() => {
+      saveToHistory();
+    }, 1000);
+    
+    return () => clearTimeout(timeoutId);
+  }, [nodes, edges, themes, currentCanvasName, saveToHistory]);
 
   // 创建新画布
-  const createNewCanvas = useCallback(() => {
-    // 保存当前画布到历史记录
+  const createNewCanvas = useCallback(async () => {
+    // 保存当前画布到工作区
     if (nodes.length > 0) {
-      saveToHistory();
+      await saveToHistory();
     }
     
     // 弹出对话框让用户输入画布名称
+    let tempName = '未命名画布';
     Modal.confirm({
       title: '新建画布',
       content: (
         <Input 
           placeholder="请输入画布名称" 
           defaultValue="未命名画布" 
-          onChange={(e) => setCurrentCanvasName(e.target.value)}
+          onChange={(e) => tempName = e.target.value}
         />
       ),
       onOk: () => {
         // 清空当前画布
         setNodes([]);
         setEdges([]);
+        // 新画布只有一个空主题
+        const newTheme = createTheme('主题 1');
+        setThemes([newTheme]);
+        setActiveThemeId(newTheme.id);
+        resetViews();
         // 重置历史记录
         setHistory({
           nodes: [[]],
@@ -2226,24 +3157,39 @@ const MindMap: React.FC = () => {
         // 生成新的画布ID
         const newCanvasId = `canvas-${Date.now()}`;
         setCurrentCanvasId(newCanvasId);
-        message.success(`已创建新画布: ${currentCanvasName}`);
+        setCurrentCanvasName(tempName);
+        setCurrentFileHandle(null);
+        setCurrentFileDirectory(null);
+        setExternalChange(null);
+        savedSignatureRef.current = null;
+        message.success(`已创建新画布: ${tempName}`);
       },
       okText: '确认',
       cancelText: '取消',
     });
-  }, [nodes, edges, saveToHistory, currentCanvasName]);
+  }, [nodes, saveToHistory, setNodes, setEdges]);
 
-  // 切换到历史画布
-  const switchToCanvas = useCallback((canvas: typeof canvasHistory[0]) => {
-    // 保存当前画布到历史记录
+  // 切换到工作区中的画布
+  const switchToCanvas = useCallback(async (canvas: StoredCanvas) => {
+    if (canvas.id === currentCanvasId) return;
+    
+    // 保存当前画布到工作区
     if (nodes.length > 0) {
-      saveToHistory();
+      await saveToHistory();
     }
-    // 加载选中的历史画布
+    // 加载选中的画布
     setNodes(canvas.nodes);
     setEdges(canvas.edges);
+    const canvasThemes = canvas.themes && canvas.themes.length > 0 ? canvas.themes : [createTheme(canvas.name)];
+    setThemes(canvasThemes);
+    setActiveThemeId(canvas.activeThemeId || canvasThemes[0].id);
+    resetViews(canvas.views);
     setCurrentCanvasId(canvas.id);
     setCurrentCanvasName(canvas.name);
+    setCurrentFileHandle(null);
+    setCurrentFileDirectory(null);
+    setExternalChange(null);
+    savedSignatureRef.current = null;
     // 重置历史记录
     setHistory({
       nodes: [canvas.nodes],
@@ -2251,15 +3197,85 @@ const MindMap: React.FC = () => {
       currentIndex: 0,
       lastActionTime: Date.now(),
     });
+    setHistoryDrawerVisible(false);
     message.success(`已切换到${canvas.name}`);
-  }, [nodes, edges, saveToHistory]);
+  }, [nodes, currentCanvasId, saveToHistory, setNodes, setEdges]);
 
-  // 初始化默认画布
-  useEffect(() => {
-    if (currentCanvasId === 'default' && canvasHistory.length === 0) {
-      setCurrentCanvasName('未命名画布');
+  // 重命名工作区中的画布
+  const renameCanvas = (canvas: StoredCanvas) => {
+    let tempName = canvas.name;
+    Modal.confirm({
+      title: '修改画布名称',
+      content: (
+        <Input 
+          defaultValue={canvas.name} 
+          onChange={(e) => tempName = e.target.value}
+        />
+      ),
+      onOk: async () => {
+        // 如果是当前画布，更新当前画布名称，由自动保存写入工作区
+        if (currentCanvasId === canvas.id) {
+          setCurrentCanvasName(tempName);
+        }
+        try {
+          await putCanvas({ ...canvas, name: tempName, updatedAt: new Date().toISOString() });
+          await refreshCanvasHistory();
+          message.success('画布名称已更新');
+        } catch (error) {
+          console.error('重命名画布失败:', error);
+          message.error('重命名画布失败');
+        }
+      },
+      okText: '确认',
+      cancelText: '取消',
+    });
+  };
+
+  // 复制工作区中的画布
+  const duplicateCanvas = async (canvas: StoredCanvas) => {
+    const now = new Date().toISOString();
+    // 复制当前画布时使用画布上的最新内容
+    const source = canvas.id === currentCanvasId
+      ? { ...canvas, nodes, edges, themes, activeThemeId: activeTheme.id, views }
+      : canvas;
+    
+    try {
+      await putCanvas({
+        ...source,
+        id: `canvas-${Date.now()}`,
+        name: `${canvas.name} 副本`,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await refreshCanvasHistory();
+      message.success(`已复制画布: ${canvas.name}`);
+    } catch (error) {
+      console.error('复制画布失败:', error);
+      message.error('复制画布失败');
     }
-  }, []);
+  };
+
+  // 删除工作区中的画布
+  const removeCanvas = (canvas: StoredCanvas) => {
+    Modal.confirm({
+      title: '删除画布',
+      content: `确定要删除画布「${canvas.name}」吗？删除后无法恢复。`,
+      okText: '删除',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: async () => {
+        try {
+          await deleteCanvas(canvas.id);
+          await refreshCanvasHistory();
+          cleanUpAttachments(null);
+          message.success(`已删除画布: ${canvas.name}`);
+        } catch (error) {
+          console.error('删除画布失败:', error);
+          message.error('删除画布失败');
+        }
+      },
+    });
+  };
 
   // 当锁定状态改变时更新所有节点
   useEffect(() => {
@@ -2299,8 +3315,12 @@ const MindMap: React.FC = () => {
       
       message.success(`已选择保存路径: ${directoryHandle.name}`);
       
-      // 将目录句柄保存到 localStorage (只保存名称，句柄无法序列化)
-      localStorage.setItem('mindMapSaveDirectoryName', directoryHandle.name);
+      // 将目录句柄保存到 IndexedDB，下次打开时无需重新选择
+      if (isWorkspaceStoreSupported()) {
+        putSavedDirectoryHandle(directoryHandle).catch(error => {
+          console.error('保存目录句柄时出错:', error);
+        });
+      }
       
       return directoryHandle;
     } catch (error) {
@@ -2310,7 +3330,13 @@ const MindMap: React.FC = () => {
     }
   };
   
-  // 组件挂载时提示用户选择保存目录
+  // 使用上次选择的保存目录
+  const restoreSaveDirectory = (directoryHandle: FileSystemDirectoryHandle) => {
+    setSaveDirectoryHandle(directoryHandle);
+    setSaveDirectoryPath(directoryHandle.name);
+  };
+  
+  // 组件挂载时恢复上次的保存目录，没有保存过目录时提示用户选择
   useEffect(() => {
     const initSaveDirectory = async () => {
       // 检查是否支持 File System Access API
@@ -2319,6 +3345,46 @@ const MindMap: React.FC = () => {
         return;
       }
       
+      let savedHandle: FileSystemDirectoryHandle | undefined;
+      try {
+        savedHandle = isWorkspaceStoreSupported() ? await getSavedDirectoryHandle() : undefined;
+      } catch (error) {
+        console.error('读取保存目录时出错:', error);
+      }
+      
+      if (savedHandle) {
+        const directoryHandle = savedHandle;
+        
+        // 仍有访问权限时直接使用
+        if (await verifyDirectoryPermission(directoryHandle)) {
+          restoreSaveDirectory(directoryHandle);
+          return;
+        }
+        
+        // 申请权限需要用户操作，先询问是否继续使用该目录
+        Modal.confirm({
+          title: '恢复保存路径',
+          content: `是否继续使用上次选择的保存路径「${directoryHandle.name}」？`,
+          okText: '继续使用',
+          cancelText: '重新选择',
+          onOk: async () => {
+            try {
+              if (await verifyDirectoryPermission(directoryHandle, true)) {
+                restoreSaveDirectory(directoryHandle);
+                message.success(`已恢复保存路径: ${directoryHandle.name}`);
+              } else {
+                message.warning('未获得保存路径的访问权限，保存时将使用其他方式');
+              }
+            } catch (error) {
+              console.error('申请保存目录权限时出错:', error);
+              message.error('恢复保存路径失败');
+            }
+          },
+          onCancel: selectSaveDirectory,
+        });
+        return;
+      }
+      
       // 显示提示
       Modal.confirm({
         title: '选择保存路径',
@@ -2335,7 +3401,7 @@ const MindMap: React.FC = () => {
   }, []);
 
   return (
-    <div style={{ width: '100vw', height: '100vh' }} onClick={handleClick}>
+    <div ref={canvasContainerRef} style={{ width: '100vw', height: '100vh' }} onClick={handleClick}>
       {/* 添加画布名称显示和编辑区域 - 移动到左上角 */}
       <div style={{ 
         position: 'absolute', 
@@ -2379,6 +3445,11 @@ const MindMap: React.FC = () => {
             }}
           >
             {currentCanvasName}
+            {isDirty && (
+              <Tooltip title={currentFileHandle ? `${currentFileHandle.name} 有未保存的修改` : '有未保存的修改'}>
+                <span style={{ marginLeft: '6px', color: '#faad14', fontSize: '12px' }}>●</span>
+              </Tooltip>
+            )}
             {!isLocked && (
               <EditOutlined 
                 style={{ marginLeft: '8px', fontSize: '14px', opacity: 0.6 }} 
@@ -2388,6 +3459,52 @@ const MindMap: React.FC = () => {
         )}
       </div>
 
+      {/* 主题切换栏 - 位于画布名称下方 */}
+      <div style={{ 
+        position: 'absolute', 
+        top: 72, 
+        left: 20, 
+        zIndex: 10,
+        maxWidth: '50vw',
+        background: 'rgba(255, 255, 255, 0.8)',
+        padding: '4px 8px 0',
+        borderRadius: '4px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+      }}>
+        <Tabs
+          type="editable-card"
+          size="small"
+          activeKey={activeTheme.id}
+          onChange={handleSwitchTheme}
+          onEdit={(targetKey, action) => {
+            if (action === 'add') {
+              handleCreateTheme();
+            } else if (typeof targetKey === 'string') {
+              handleDeleteTheme(targetKey);
+            }
+          }}
+          hideAdd={isLocked}
+          tabBarStyle={{ margin: 0 }}
+          items={themes.map(theme => ({
+            key: theme.id,
+            closable: !isLocked && themes.length > 1,
+            label: (
+              <Tooltip 
+                title="双击修改主题名称" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={() => document.body}
+              >
+                <span onDoubleClick={() => !isLocked && handleRenameTheme(theme)}>
+                  {theme.title || '未命名主题'}
+                </span>
+              </Tooltip>
+            ),
+          }))}
+        />
+      </div>
+
       <div style={{ position: 'absolute', top: 20, right: 20, zIndex: 1 }}>
         <Space direction="vertical" size="small" style={{ display: 'flex' }}>
           <div style={{ 
@@ -2439,97 +3556,37 @@ const MindMap: React.FC = () => {
                 destroyTooltipOnHide
                 getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
               >
-                <Dropdown
-                  trigger={['click']}
-                  disabled={canvasHistory.length === 0}
-                  dropdownRender={() => (
-                    <div style={{
-                      backgroundColor: '#fff',
-                      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
-                      borderRadius: '4px',
-                      padding: '4px 0',
-                      minWidth: '200px',
-                    }}>
-                      {canvasHistory.length === 0 ? (
-                        <div style={{ padding: '8px 12px', color: '#999' }}>
-                          暂无历史画布
-                        </div>
-                      ) : (
-                        canvasHistory.map(canvas => (
-                          <div
-                            key={canvas.id}
-                            className="history-item"
-                            style={{
-                              padding: '8px 12px',
-                              cursor: 'pointer',
-                              transition: 'all 0.3s',
-                              display: 'flex',
-                              justifyContent: 'space-between',
-                              alignItems: 'center',
-                              borderBottom: '1px solid #f0f0f0',
-                              backgroundColor: currentCanvasId === canvas.id ? 'rgba(24, 144, 255, 0.1)' : 'transparent',
-                            }}
-                            onMouseEnter={(e) => {
-                              e.currentTarget.style.backgroundColor = 'rgba(0, 0, 0, 0.05)';
-                            }}
-                            onMouseLeave={(e) => {
-                              e.currentTarget.style.backgroundColor = currentCanvasId === canvas.id ? 'rgba(24, 144, 255, 0.1)' : 'transparent';
-                            }}
-                          >
-                            <div onClick={() => switchToCanvas(canvas)}>
-                              <div style={{ fontWeight: 'bold' }}>{canvas.name}</div>
-                              <div style={{ fontSize: '12px', color: '#999' }}>
-                                {new Date(canvas.createdAt).toLocaleString()}
-                              </div>
-                            </div>
-                            <div>
-                              <Button 
-                                type="text" 
-                                size="small" 
-                                icon={<EditOutlined />} 
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  // 弹出对话框修改画布名称
-                                  let tempName = canvas.name;
-                                  Modal.confirm({
-                                    title: '修改画布名称',
-                                    content: (
-                                      <Input 
-                                        defaultValue={canvas.name} 
-                                        onChange={(e) => tempName = e.target.value}
-                                      />
-                                    ),
-                                    onOk: () => {
-                                      // 更新画布名称
-                                      setCanvasHistory(prev => 
-                                        prev.map(item => 
-                                          item.id === canvas.id 
-                                            ? { ...item, name: tempName } 
-                                            : item
-                                        )
-                                      );
-                                      // 如果是当前画布，也更新当前画布名称
-                                      if (currentCanvasId === canvas.id) {
-                                        setCurrentCanvasName(tempName);
-                                      }
-                                      message.success('画布名称已更新');
-                                    },
-                                    okText: '确认',
-                                    cancelText: '取消',
-                                  });
-                                }}
-                              />
-                            </div>
-                          </div>
-                        ))
-                      )}
-                    </div>
-                  )}
+                <Button 
+                  icon={<HistoryOutlined />}
+                  onClick={() => {
+                    refreshCanvasHistory();
+                    setHistoryDrawerVisible(true);
+                  }}
+                  disabled={!isWorkspaceStoreSupported()}
                 >
-                  <Button icon={<HistoryOutlined />}>
-                    历史 ({canvasHistory.length})
-                  </Button>
-                </Dropdown>
+                  历史 ({canvasHistory.length})
+                </Button>
+              </Tooltip>
+              <Tooltip 
+                title="浏览保存路径中的思维导图" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button 
+                  icon={<FolderOutlined />}
+                  onClick={async () => {
+                    // 尚未选择保存路径时先选择
+                    const directoryHandle = saveDirectoryHandle || await selectSaveDirectory();
+                    if (directoryHandle) {
+                      setWorkspaceBrowserVisible(true);
+                    }
+                  }}
+                  disabled={!('showDirectoryPicker' in window)}
+                >
+                  文件夹
+                </Button>
               </Tooltip>
             </Space.Compact>
 
@@ -2590,6 +3647,33 @@ const MindMap: React.FC = () => {
                   布局
                 </Button>
               </Tooltip>
+              <Tooltip 
+                title="展开或折叠节点" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Dropdown
+                  menu={{
+                    items: [
+                      { key: 'expand-all', label: '全部展开' },
+                      { key: 'collapse-all', label: '全部折叠' },
+                      { type: 'divider' as const },
+                      ...[1, 2, 3, 4, 5].map(level => ({ key: `level-${level}`, label: `折叠到第 ${level} 层` })),
+                    ],
+                    onClick: ({ key }) => handleCollapseCommand(key),
+                  }}
+                  disabled={nodes.length === 0}
+                >
+                  <Button 
+                    icon={<NodeCollapseOutlined />} 
+                    disabled={nodes.length === 0}
+                  >
+                    折叠
+                  </Button>
+                </Dropdown>
+              </Tooltip>
             </Space.Compact>
 
             {/* 文件操作组 */}
@@ -2601,6 +3685,21 @@ const MindMap: React.FC = () => {
               >
                 保存
               </Button>
+              <Tooltip 
+                title="另存为新的JSON文件（Ctrl+Shift+S）" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button
+                  icon={<FileDoneOutlined />}
+                  onClick={handleSaveAs}
+                  disabled={isLocked}
+                >
+                  另存为
+                </Button>
+              </Tooltip>
               <Tooltip 
                 title="加载思维导图" 
                 mouseEnterDelay={0.5}
@@ -2618,66 +3717,104 @@ const MindMap: React.FC = () => {
                 </Button>
               </Tooltip>
               <Tooltip 
-                title="导出为Markdown格式" 
+                title="导出为其他格式" 
                 mouseEnterDelay={0.5}
                 mouseLeaveDelay={0.1}
                 destroyTooltipOnHide
                 getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
               >
-                <Button 
-                  icon={<FileOutlined />} 
-                  onClick={async () => {
-                    try {
-                      const mindMapData = getMindMapData();
-                      
-                      // 检查是否在非 HTTPS 环境
-                      const isNotSecure = window.location.protocol !== 'https:' && window.location.hostname !== 'localhost';
-                      
-                      // 如果没有选择保存目录且环境支持，提示用户选择
-                      if (!saveDirectoryHandle && 'showDirectoryPicker' in window && !isNotSecure) {
-                        const shouldSelect = await new Promise<boolean>((resolve) => {
-                          Modal.confirm({
-                            title: '选择保存路径',
-                            content: '您尚未选择保存路径，是否现在选择？',
-                            okText: '选择',
-                            cancelText: '取消',
-                            onOk: () => resolve(true),
-                            onCancel: () => resolve(false),
-                          });
-                        });
-                        
-                        if (shouldSelect) {
-                          await selectSaveDirectory();
-                        }
-                      }
-                      
-                      const success = await saveToMarkdown(mindMapData, currentCanvasName, saveDirectoryHandle);
-                      
-                      if (success) {
-                        if (saveDirectoryHandle) {
-                          message.success(`Markdown文件已保存到 ${saveDirectoryPath} 目录`);
-                        } else if (isNotSecure) {
-                          message.success('成功导出为Markdown格式（使用传统下载方式）');
-                        } else {
-                          message.success('成功导出为Markdown格式');
-                        }
+                <Dropdown
+                  menu={{
+                    items: [
+                      ...(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+                        key: format,
+                        label: EXPORT_FORMATS[format].label,
+                      })),
+                      { type: 'divider' as const },
+                      { key: 'png', label: 'PNG 图片' },
+                      { key: 'svg', label: 'SVG 图片' },
+                    ],
+                    onClick: ({ key }) => {
+                      if (key === 'png' || key === 'svg') {
+                        setImageExportFormat(key);
                       } else {
-                        message.error('导出失败');
+                        handleExport(key as ExportFormat);
                       }
-                    } catch (error) {
-                      console.error('导出Markdown时出错:', error);
-                      message.error('导出失败');
-                    }
+                    },
                   }}
                   disabled={isLocked}
                 >
-                  导出MD
+                  <Button 
+                    icon={<FileOutlined />} 
+                    disabled={isLocked}
+                  >
+                    导出
+                  </Button>
+                </Dropdown>
+              </Tooltip>
+              <Tooltip 
+                title="三方合并同一思维导图的两个修改版本" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button 
+                  icon={<MergeOutlined />} 
+                  onClick={() => setMergeTool({ versions: null, change: null })}
+                  disabled={isLocked}
+                >
+                  合并
+                </Button>
+              </Tooltip>
+              <Tooltip 
+                title="对比两个版本的思维导图" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button 
+                  icon={<DiffOutlined />} 
+                  onClick={() => setCompareVisible(true)}
+                >
+                  对比
                 </Button>
               </Tooltip>
             </Space.Compact>
             
             {/* 设置操作组 */}
             <Space.Compact>
+              <Tooltip 
+                title="搜索节点 (Ctrl+F)" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button 
+                  icon={<SearchOutlined />} 
+                  onClick={openSearch}
+                  type={searchVisible ? "primary" : "default"}
+                >
+                  搜索
+                </Button>
+              </Tooltip>
+              <Tooltip 
+                title="按状态、优先级、标签和日期筛选节点" 
+                mouseEnterDelay={0.5}
+                mouseLeaveDelay={0.1}
+                destroyTooltipOnHide
+                getPopupContainer={(triggerNode) => triggerNode.parentNode as HTMLElement}
+              >
+                <Button 
+                  icon={<FilterOutlined />} 
+                  onClick={() => setFilterVisible(!filterVisible)}
+                  type={filterVisible || filteredOutIds ? "primary" : "default"}
+                >
+                  筛选
+                </Button>
+              </Tooltip>
               <Tooltip 
                 title="布局与保存设置" 
                 mouseEnterDelay={0.5}
@@ -2694,6 +3831,37 @@ const MindMap: React.FC = () => {
               </Tooltip>
             </Space.Compact>
           </div>
+          
+          {/* 筛选栏 */}
+          {filterVisible && (
+            <FilterBar
+              filter={nodeFilter}
+              onFilterChange={setNodeFilter}
+              mode={filterMode}
+              onModeChange={setFilterMode}
+              tagOptions={existingTags}
+              views={views}
+              activeViewId={activeViewId}
+              onApplyView={handleApplyView}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
+              matchCount={nodes.length - (filteredOutIds ? filteredOutIds.size : 0)}
+              totalCount={nodes.length}
+              onClose={() => setFilterVisible(false)}
+            />
+          )}
+          
+          {/* 搜索面板 */}
+          {searchVisible && (
+            <SearchPanel
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              results={searchResults}
+              focusKey={searchFocusKey}
+              onSelect={handleSelectSearchResult}
+              onClose={() => setSearchVisible(false)}
+            />
+          )}
         </Space>
       </div>
       
@@ -2769,6 +3937,29 @@ const MindMap: React.FC = () => {
             </Button>
           </div>
           
+          {/* 任务设置部分 */}
+          <div style={{ marginBottom: '32px' }}>
+            <h4 style={{ marginBottom: '16px', fontSize: '14px', color: '#333', borderBottom: '1px solid #f0f0f0', paddingBottom: '8px' }}>
+              任务设置
+            </h4>
+            
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '16px' }}>
+              <Switch 
+                checked={autoCompleteParents} 
+                onChange={handleAutoCompleteParentsChange} 
+                style={{ marginRight: '12px' }}
+                disabled={isLocked}
+              />
+              <span style={{ fontSize: '14px', color: autoCompleteParents ? '#1890ff' : '#666' }}>
+                {autoCompleteParents ? '自动完成父节点已开启' : '自动完成父节点已关闭'}
+              </span>
+            </div>
+            
+            <p style={{ fontSize: '12px', color: '#666', margin: 0 }}>
+              开启后，编辑节点使所有子节点都已完成时，父节点的状态会自动设为已完成
+            </p>
+          </div>
+          
           {/* 自动保存设置部分 */}
           <div style={{ marginBottom: '32px' }}>
             <h4 style={{ marginBottom: '16px', fontSize: '14px', color: '#333', borderBottom: '1px solid #f0f0f0', paddingBottom: '8px' }}>
@@ -2843,6 +4034,116 @@ const MindMap: React.FC = () => {
         </div>
       </Drawer>
 
+      {/* 保存路径中的思维导图 */}
+      <WorkspaceBrowser
+        open={workspaceBrowserVisible}
+        onClose={() => setWorkspaceBrowserVisible(false)}
+        directoryHandle={saveDirectoryHandle}
+        currentFileHandle={currentFileHandle}
+        isLocked={isLocked}
+        onOpenFile={handleOpenDirectoryFile}
+        onCurrentFileRenamed={handleCurrentFileRenamed}
+        onFileDeleted={cleanUpAttachments}
+      />
+
+      {/* 三方合并 */}
+      <MergeTool
+        open={mergeTool !== null}
+        onCancel={() => setMergeTool(null)}
+        versions={mergeTool?.versions}
+        labels={mergeTool?.labels}
+        onMerged={handleMerged}
+      />
+
+      {/* 版本对比 */}
+      <CompareView open={compareVisible} onClose={() => setCompareVisible(false)} />
+
+      {/* 工作区画布抽屉 */}
+      <Drawer
+        title="历史画布"
+        placement="right"
+        closable={true}
+        onClose={() => setHistoryDrawerVisible(false)}
+        open={historyDrawerVisible}
+        width={350}
+      >
+        {canvasHistory.length === 0 ? (
+          <div style={{ padding: '8px 12px', color: '#999' }}>
+            暂无历史画布
+          </div>
+        ) : (
+          canvasHistory.map(canvas => {
+            const isCurrent = currentCanvasId === canvas.id;
+            return (
+              <div
+                key={canvas.id}
+                className="history-item"
+                style={{
+                  padding: '8px 12px',
+                  transition: 'all 0.3s',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  borderBottom: '1px solid #f0f0f0',
+                  backgroundColor: isCurrent ? 'rgba(24, 144, 255, 0.1)' : 'transparent',
+                }}
+              >
+                <div
+                  style={{ cursor: isCurrent ? 'default' : 'pointer', minWidth: 0 }}
+                  onClick={() => !isLocked && switchToCanvas(canvas)}
+                >
+                  <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {canvas.name}
+                    {isCurrent && <span style={{ marginLeft: '8px', fontSize: '12px', color: '#1890ff', fontWeight: 'normal' }}>当前</span>}
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#999' }}>
+                    {canvas.nodes.length} 个节点 · 更新于 {new Date(canvas.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+                <Space size={0}>
+                  <Tooltip title="打开" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button 
+                      type="text" 
+                      size="small" 
+                      icon={<FolderOpenOutlined />} 
+                      disabled={isLocked || isCurrent}
+                      onClick={() => switchToCanvas(canvas)}
+                    />
+                  </Tooltip>
+                  <Tooltip title="重命名" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button 
+                      type="text" 
+                      size="small" 
+                      icon={<EditOutlined />} 
+                      disabled={isLocked}
+                      onClick={() => renameCanvas(canvas)}
+                    />
+                  </Tooltip>
+                  <Tooltip title="复制" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button 
+                      type="text" 
+                      size="small" 
+                      icon={<CopyOutlined />} 
+                      onClick={() => duplicateCanvas(canvas)}
+                    />
+                  </Tooltip>
+                  <Tooltip title={isCurrent ? '不能删除当前画布' : '删除'} mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button 
+                      type="text" 
+                      size="small" 
+                      danger
+                      icon={<DeleteOutlined />} 
+                      disabled={isLocked || isCurrent}
+                      onClick={() => removeCanvas(canvas)}
+                    />
+                  </Tooltip>
+                </Space>
+              </div>
+            );
+          })
+        )}
+      </Drawer>
+
       {contextMenu.visible && (
         <div
           style={{
@@ -2870,71 +4171,160 @@ const MindMap: React.FC = () => {
         </div>
       )}
 
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={isLocked ? undefined : onNodesChange}
-        onEdgesChange={isLocked ? undefined : onEdgesChange}
-        onConnect={isLocked ? undefined : onConnect}
-        onConnectStart={isLocked ? undefined : onConnectStart}
-        onConnectEnd={isLocked ? undefined : onConnectEnd}
-        onNodeClick={isLocked ? undefined : handleNodeClick}
-        onNodeDoubleClick={isLocked ? undefined : handleNodeDoubleClick}
-        onNodeContextMenu={isLocked ? undefined : handleContextMenu}
-        onPaneContextMenu={isLocked ? undefined : handlePaneContextMenu}
-        onPaneClick={() => !isLocked && setSelectedNode(null)}
-        onEdgeClick={isLocked ? undefined : onEdgeClick}
-        onEdgeDoubleClick={isLocked ? undefined : onEdgeDoubleClick}
-        nodeTypes={nodeTypes}
-        edgeTypes={edgeTypes}
-        fitView
-        deleteKeyCode={isLocked ? null : "Delete"}
-        selectionKeyCode={isLocked ? null : "Control"}
-        multiSelectionKeyCode={isLocked ? null : "Shift"}
-        defaultEdgeOptions={{
-          type: 'custom',
-          animated: false,
-          style: {
-            strokeWidth: 1.5,
-            stroke: '#b1b1b7',
-          },
-        }}
-        connectionLineStyle={{
-          stroke: '#1890ff',
-          strokeWidth: 1.5,
-          strokeDasharray: '5,5',
-        }}
-        connectionLineType={ConnectionLineType.Bezier}
-        snapToGrid={true}
-        snapGrid={[10, 10]}
-        connectOnClick={!isLocked}
-        elementsSelectable={!isLocked}
-        nodesDraggable={!isLocked}
-        nodesConnectable={!isLocked}
-        zoomOnScroll={true}
-        panOnScroll={true}
-        panOnDrag={true}
-        connectionMode={ConnectionMode.Loose}
-      >
-        <Background />
-        <Controls 
-          showInteractive={false}
+      {/* 打开的文件被其他程序修改时的提示 */}
+      {externalChange && currentFileHandle && (
+        <Alert
+          type="warning"
+          showIcon
           style={{
-            display: 'flex',
-            flexDirection: 'column',
-            gap: '8px',
-            padding: '8px',
-            backgroundColor: 'rgba(255, 255, 255, 0.9)',
-            borderRadius: '8px',
-            boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
-            bottom: '20px',
-            top: 'auto',
-            left: '20px',
-            right: 'auto',
             position: 'absolute',
+            bottom: 20,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 10,
+            width: '560px',
+            maxWidth: 'calc(100vw - 200px)',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
           }}
+          message={`${currentFileHandle.name} 已被其他程序修改`}
+          description={
+            <div>
+              <div>
+                {externalChange.diff
+                  ? formatMindMapDiffSummary(externalChange.diff)
+                  : '文件内容无法解析，只能保留当前的内容'}
+              </div>
+              {externalChange.diff && externalChange.diff.nodes.length > 0 && (
+                <div style={{ fontSize: '12px', color: '#999', marginTop: '4px' }}>
+                  {externalChange.diff.nodes.slice(0, 5).map(change => change.title || '未命名节点').join('、')}
+                  {externalChange.diff.nodes.length > 5 && ` 等 ${externalChange.diff.nodes.length} 个节点`}
+                </div>
+              )}
+              <Space style={{ marginTop: '8px' }}>
+                <Button size="small" onClick={handleReloadExternalChange} disabled={!externalChange.data}>
+                  重新加载
+                </Button>
+                <Button size="small" onClick={handleKeepMineExternalChange}>
+                  保留我的版本
+                </Button>
+                <Button size="small" type="primary" onClick={handleMergeExternalChange} disabled={!externalChange.data || isLocked}>
+                  合并
+                </Button>
+              </Space>
+            </div>
+          }
         />
-      </ReactFlow>
+      )}
+
+      {/* 节点通过上下文读取折叠信息和进度，拖动节点时不需要更新所有节点的数据 */}
+      <NodeCollapseContext.Provider value={collapseContextValue}>
+        <NodeProgressContext.Provider value={progressMap}>
+          <ReactFlow
+            nodes={displayNodes}
+            edges={displayEdges}
+            onNodesChange={isLocked ? undefined : onNodesChange}
+            onEdgesChange={isLocked ? undefined : onEdgesChange}
+            onConnect={isLocked ? undefined : onConnect}
+            onConnectStart={isLocked ? undefined : onConnectStart}
+            onConnectEnd={isLocked ? undefined : onConnectEnd}
+            onNodeClick={isLocked ? undefined : handleNodeClick}
+            onNodeDoubleClick={isLocked ? undefined : handleNodeDoubleClick}
+            onNodeContextMenu={isLocked ? undefined : handleContextMenu}
+            onPaneContextMenu={isLocked ? undefined : handlePaneContextMenu}
+            onPaneClick={() => !isLocked && setSelectedNode(null)}
+            onEdgeClick={isLocked ? undefined : onEdgeClick}
+            onEdgeDoubleClick={isLocked ? undefined : onEdgeDoubleClick}
+            nodeTypes={nodeTypes}
+            edgeTypes={edgeTypes}
+            fitView
+            deleteKeyCode={isLocked ? null : "Delete"}
+            selectionKeyCode={isLocked ? null : "Control"}
+            multiSelectionKeyCode={isLocked ? null : "Shift"}
+            defaultEdgeOptions={{
+              type: 'custom',
+              animated: false,
+              style: {
+                strokeWidth: 1.5,
+                stroke: '#b1b1b7',
+              },
+            }}
+            connectionLineStyle={{
+              stroke: '#1890ff',
+              strokeWidth: 1.5,
+              strokeDasharray: '5,5',
+            }}
+            connectionLineType={ConnectionLineType.Bezier}
+            snapToGrid={true}
+            snapGrid={[10, 10]}
+            connectOnClick={!isLocked}
+            elementsSelectable={!isLocked}
+            nodesDraggable={!isLocked}
+            nodesConnectable={!isLocked}
+            zoomOnScroll={true}
+            panOnScroll={true}
+            panOnDrag={true}
+            connectionMode={ConnectionMode.Loose}
+          >
+            <Background />
+            <Controls 
+              showInteractive={false}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+                padding: '8px',
+                backgroundColor: 'rgba(255, 255, 255, 0.9)',
+                borderRadius: '8px',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                bottom: '20px',
+                top: 'auto',
+                left: '20px',
+                right: 'auto',
+                position: 'absolute',
+              }}
+            />
+          </ReactFlow>
+        </NodeProgressContext.Provider>
+      </NodeCollapseContext.Provider>
+
+      {/* 图片导出选项 */}
+      <Modal
+        title={`导出${imageExportFormat ? imageExportFormat.toUpperCase() : ''}图片`}
+        open={imageExportFormat !== null}
+        onOk={handleImageExport}
+        onCancel={() => setImageExportFormat(null)}
+        okText="导出"
+        cancelText="取消"
+      >
+        <Form layout="vertical">
+          <Form.Item label="导出范围">
+            <Radio.Group
+              value={imageExportOptions.scope}
+              onChange={(e) => setImageExportOptions(options => ({ ...options, scope: e.target.value }))}
+            >
+              <Radio value="all">整个思维导图</Radio>
+              <Radio value="viewport">当前可见区域</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item label="背景">
+            <Radio.Group
+              value={imageExportOptions.background}
+              onChange={(e) => setImageExportOptions(options => ({ ...options, background: e.target.value }))}
+            >
+              <Radio value="white">白色</Radio>
+              <Radio value="transparent">透明</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item label="缩放倍数">
+            <Select
+              value={imageExportOptions.scale}
+              onChange={(scale) => setImageExportOptions(options => ({ ...options, scale }))}
+              options={[1, 2, 3, 4].map(scale => ({ value: scale, label: `${scale}x` }))}
+              style={{ width: 120 }}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
 
       <Modal
         title={selectedNode ? "编辑节点" : "新建节点"}
@@ -3051,6 +4441,30 @@ const MindMap: React.FC = () => {
               <Input type="date" />
             </Form.Item>
           </div>
+          
+          <Form.Item name="tags" label="标签">
+            <Select
+              mode="tags"
+              placeholder="输入标签后按回车添加"
+              tokenSeparators={[',', '，']}
+              options={existingTags.map(tag => ({ value: tag, label: tag }))}
+              tagRender={({ label, value, closable, onClose }) => (
+                <Tag
+                  color={getTagColor(String(value))}
+                  closable={closable}
+                  onClose={onClose}
+                  onMouseDown={(event) => event.preventDefault()}
+                  style={{ marginRight: '4px' }}
+                >
+                  {label}
+                </Tag>
+              )}
+            />
+          </Form.Item>
+          
+          <Form.Item name="attachments" label="附件">
+            <AttachmentList directoryHandle={getAttachmentDirectory()} />
+          </Form.Item>
         </Form>
       </Modal>
     </div>
@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button, Input, InputRef } from 'antd';
+import { CloseOutlined, SearchOutlined } from '@ant-design/icons';
+import { SEARCH_FIELD_LABELS, SearchResult, splitByKeyword } from '../utils/mindMapSearch';
+
+// 搜索面板属性
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: SearchResult[];
+  // 每次按下 Ctrl+F 时变化，用于重新聚焦输入框
+  focusKey: number;
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+// 突出显示文字中匹配关键词的部分
+export const HighlightedText: React.FC<{ text: string; query: string }> = ({ text, query }) => (
+  <>
+    {splitByKeyword(text, query).map((part, index) =>
+      part.matched ? (
+        <mark key={index} style={{ padding: 0, backgroundColor: '#ffe58f', color: 'inherit' }}>
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  query,
+  onQueryChange,
+  results,
+  focusKey,
+  onSelect,
+  onClose,
+}) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<InputRef>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 打开或再次按下 Ctrl+F 时聚焦并选中输入框
+  useEffect(() => {
+    inputRef.current?.focus({ cursor: 'all' });
+  }, [focusKey]);
+
+  // 搜索结果变化后从第一个结果开始
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  // 保持当前结果在列表的可见范围内
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // 上下方向键切换结果，回车定位到当前结果并移到下一个，Esc 关闭
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+      return;
+    }
+    if (results.length === 0) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      onSelect(results[activeIndex]);
+      const step = event.shiftKey ? -1 : 1;
+      setActiveIndex(index => (index + step + results.length) % results.length);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: '360px',
+        maxWidth: 'calc(100vw - 40px)',
+        marginLeft: 'auto',
+        background: 'rgba(255, 255, 255, 0.95)',
+        padding: '8px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          prefix={<SearchOutlined style={{ color: '#999' }} />}
+          suffix={
+            query.trim() ? (
+              <span style={{ fontSize: '12px', color: '#999' }}>
+                {results.length > 0 ? `${activeIndex + 1}/${results.length}` : '0'}
+              </span>
+            ) : null
+          }
+          placeholder="搜索标题、描述、标签和连线文字"
+        />
+        <Button type="text" size="small" icon={<CloseOutlined />} onClick={onClose} />
+      </div>
+
+      {query.trim() && (
+        <div ref={listRef} style={{ maxHeight: '50vh', overflow: 'auto', marginTop: '8px' }}>
+          {results.length === 0 && (
+            <div style={{ padding: '8px', color: '#999', fontSize: '12px' }}>没有找到匹配的节点</div>
+          )}
+          {results.map((result, index) => (
+            <div
+              key={result.nodeId}
+              onClick={() => {
+                setActiveIndex(index);
+                onSelect(result);
+              }}
+              style={{
+                padding: '6px 8px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: index === activeIndex ? 'rgba(24, 144, 255, 0.1)' : 'transparent',
+                transition: 'all 0.3s',
+              }}
+            >
+              <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                <HighlightedText text={result.title || '未命名'} query={query} />
+              </div>
+              <div
+                style={{ fontSize: '12px', color: '#999', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                title={[result.themeTitle, ...result.path].join(' / ')}
+              >
+                {[result.themeTitle, ...result.path].join(' / ')}
+              </div>
+              {result.matches
+                .filter(match => match.field !== 'title')
+                .map((match, matchIndex) => (
+                  <div
+                    key={matchIndex}
+                    style={{ fontSize: '12px', color: '#666', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                  >
+                    {SEARCH_FIELD_LABELS[match.field]}：<HighlightedText text={match.text} query={query} />
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button, Drawer, Input, Modal, Space, Spin, Tooltip, message } from 'antd';
+import {
+  FolderOpenOutlined,
+  EditOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+} from '@ant-design/icons';
+import {
+  DirectoryMapFile,
+  listDirectoryMaps,
+  renameMapFile,
+  duplicateMapFile,
+  deleteMapFile,
+} from '../utils/directoryWorkspace';
+import { removeUnusedImageAssets } from '../utils/imageAssets';
+
+// 保存目录浏览器属性
+interface WorkspaceBrowserProps {
+  open: boolean;
+  onClose: () => void;
+  directoryHandle: FileSystemDirectoryHandle | null;
+  // 当前打开的文件
+  currentFileHandle: FileSystemFileHandle | null;
+  isLocked: boolean;
+  onOpenFile: (mapFile: DirectoryMapFile) => void;
+  // 当前文件被重命名后，保存时写入新文件
+  onCurrentFileRenamed: (newHandle: FileSystemFileHandle) => void;
+  // 文件删除后，清理不再被引用的附件
+  onFileDeleted: (directoryHandle: FileSystemDirectoryHandle) => void;
+}
+
+const WorkspaceBrowser: React.FC<WorkspaceBrowserProps> = ({
+  open,
+  onClose,
+  directoryHandle,
+  currentFileHandle,
+  isLocked,
+  onOpenFile,
+  onCurrentFileRenamed,
+  onFileDeleted,
+}) => {
+  const [mapFiles, setMapFiles] = useState<DirectoryMapFile[]>([]);
+  const [currentPath, setCurrentPath] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // 读取目录中的所有思维导图
+  const refresh = useCallback(async () => {
+    if (!directoryHandle) return;
+    setLoading(true);
+    try {
+      setMapFiles(await listDirectoryMaps(directoryHandle));
+    } catch (error) {
+      console.error('读取保存目录失败:', error);
+      message.error('读取保存目录失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [directoryHandle]);
+
+  // 打开抽屉时重新读取目录
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // 找出当前打开的文件
+  useEffect(() => {
+    let cancelled = false;
+    const findCurrentFile = async () => {
+      let path: string | null = null;
+      if (currentFileHandle) {
+        for (const mapFile of mapFiles) {
+          if (await mapFile.fileHandle.isSameEntry(currentFileHandle)) {
+            path = mapFile.path;
+            break;
+          }
+        }
+      }
+      if (!cancelled) setCurrentPath(path);
+    };
+    findCurrentFile();
+    return () => {
+      cancelled = true;
+    };
+  }, [mapFiles, currentFileHandle]);
+
+  // 重命名文件
+  const handleRename = (mapFile: DirectoryMapFile) => {
+    let tempName = mapFile.name;
+    Modal.confirm({
+      title: '重命名文件',
+      content: (
+        <Input
+          defaultValue={mapFile.name}
+          suffix=".json"
+          onChange={(e) => tempName = e.target.value}
+        />
+      ),
+      onOk: async () => {
+        if (!tempName.trim() || tempName === mapFile.name) return;
+        try {
+          const newHandle = await renameMapFile(mapFile, tempName.trim());
+          if (mapFile.path === currentPath) {
+            onCurrentFileRenamed(newHandle);
+          }
+          await refresh();
+          message.success('文件已重命名');
+        } catch (error) {
+          console.error('重命名文件失败:', error);
+          message.error(error instanceof Error ? error.message : '重命名文件失败');
+        }
+      },
+      okText: '确认',
+      cancelText: '取消',
+    });
+  };
+
+  // 复制文件
+  const handleDuplicate = async (mapFile: DirectoryMapFile) => {
+    try {
+      await duplicateMapFile(mapFile);
+      await refresh();
+      message.success(`已复制文件: ${mapFile.name}`);
+    } catch (error) {
+      console.error('复制文件失败:', error);
+      message.error('复制文件失败');
+    }
+  };
+
+  // 删除文件和同名的Markdown文件，并清理只被该文件引用的图片和附件
+  const handleDelete = (mapFile: DirectoryMapFile) => {
+    Modal.confirm({
+      title: '删除文件',
+      content: `确定要删除「${mapFile.path}」及同名的Markdown文件吗？删除后无法恢复。`,
+      okText: '删除',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: async () => {
+        try {
+          await deleteMapFile(mapFile);
+          removeUnusedImageAssets(mapFile.directoryHandle).catch(error => {
+            console.error('清理图片文件时出错:', error);
+          });
+          onFileDeleted(mapFile.directoryHandle);
+          await refresh();
+          message.success(`已删除文件: ${mapFile.name}`);
+        } catch (error) {
+          console.error('删除文件失败:', error);
+          message.error('删除文件失败');
+        }
+      },
+    });
+  };
+
+  return (
+    <Drawer
+      title={directoryHandle ? `保存路径: ${directoryHandle.name}` : '保存路径'}
+      placement="right"
+      closable={true}
+      onClose={onClose}
+      open={open}
+      width={400}
+      extra={
+        <Tooltip title="刷新" mouseEnterDelay={0.5} destroyTooltipOnHide>
+          <Button type="text" size="small" icon={<ReloadOutlined />} onClick={refresh} disabled={!directoryHandle} />
+        </Tooltip>
+      }
+    >
+      <Spin spinning={loading}>
+        {mapFiles.length === 0 ? (
+          <div style={{ padding: '8px 12px', color: '#999' }}>
+            {loading ? '正在读取...' : '保存路径中暂无思维导图'}
+          </div>
+        ) : (
+          mapFiles.map(mapFile => {
+            const isCurrent = mapFile.path === currentPath;
+            return (
+              <div
+                key={mapFile.path}
+                style={{
+                  padding: '8px 12px',
+                  transition: 'all 0.3s',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  borderBottom: '1px solid #f0f0f0',
+                  backgroundColor: isCurrent ? 'rgba(24, 144, 255, 0.1)' : 'transparent',
+                }}
+              >
+                <div
+                  style={{ cursor: isCurrent ? 'default' : 'pointer', minWidth: 0 }}
+                  onClick={() => !isLocked && !isCurrent && onOpenFile(mapFile)}
+                >
+                  <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={mapFile.path}>
+                    {mapFile.name}
+                    {isCurrent && <span style={{ marginLeft: '8px', fontSize: '12px', color: '#1890ff', fontWeight: 'normal' }}>当前</span>}
+                  </div>
+                  {mapFile.path.includes('/') && (
+                    <div style={{ fontSize: '12px', color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {mapFile.path}
+                    </div>
+                  )}
+                  <div style={{ fontSize: '12px', color: '#999' }}>
+                    {mapFile.themeTitle || '无标题'}
+                    {mapFile.themeCount > 1 && ` 等 ${mapFile.themeCount} 个主题`}
+                    {` · ${mapFile.nodeCount} 个节点`}
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#999' }}>
+                    修改于 {new Date(mapFile.modifiedAt).toLocaleString()}
+                  </div>
+                </div>
+                <Space size={0}>
+                  <Tooltip title="打开" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<FolderOpenOutlined />}
+                      disabled={isLocked || isCurrent}
+                      onClick={() => onOpenFile(mapFile)}
+                    />
+                  </Tooltip>
+                  <Tooltip title="重命名" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<EditOutlined />}
+                      disabled={isLocked}
+                      onClick={() => handleRename(mapFile)}
+                    />
+                  </Tooltip>
+                  <Tooltip title="复制" mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<CopyOutlined />}
+                      onClick={() => handleDuplicate(mapFile)}
+                    />
+                  </Tooltip>
+                  <Tooltip title={isCurrent ? '不能删除当前文件' : '删除'} mouseEnterDelay={0.5} destroyTooltipOnHide>
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      disabled={isLocked || isCurrent}
+                      onClick={() => handleDelete(mapFile)}
+                    />
+                  </Tooltip>
+                </Space>
+              </div>
+            );
+          })
+        )}
+      </Spin>
+    </Drawer>
+  );
+};
+
+export default WorkspaceBrowser;
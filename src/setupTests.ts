@@ -3,3 +3,7 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextEncoder } from 'util';
+
+// jsdom 没有提供 TextEncoder，使用 Node 自带的实现
+Object.assign(global, { TextEncoder });
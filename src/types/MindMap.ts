@@ -1,3 +1,20 @@
+// 节点附件，文件内容根据 storage 保存在不同位置
+export interface MindMapAttachment {
+  id: string;
+  name: string;
+  // MIME 类型
+  type: string;
+  // 文件大小（字节）
+  size: number;
+  // directory: 保存目录下的 attachments 文件夹；indexeddb: 浏览器工作区数据库；embedded: 以 data URL 内嵌在文件中
+  storage: 'directory' | 'indexeddb' | 'embedded';
+  // 相对于保存目录的路径，storage 为 directory 时使用
+  path?: string;
+  // data URL，storage 为 embedded 时使用
+  data?: string;
+  created_at: string;
+}
+
 export interface MindMapNode {
   id: string;
   title: string;
@@ -8,8 +25,48 @@ export interface MindMapNode {
   start_date?: string;
   due_date?: string;
   tags?: string[];
+  attachments?: MindMapAttachment[];
   children?: MindMapNode[];
   edgeLabel?: string;
+  // 是否折叠了后代节点
+  collapsed?: boolean;
+}
+
+// 树结构之外的连线，用于保存交叉连接、多个父节点和环
+export interface MindMapLink {
+  id?: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+// 节点在画布上的位置
+export interface MindMapNodePosition {
+  x: number;
+  y: number;
+}
+
+// 连线的连接点信息
+export interface MindMapEdgeLayout {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+// 画布视图（平移和缩放）
+export interface MindMapViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// 画布布局信息，用于在加载时还原手动调整过的画布
+export interface MindMapLayout {
+  nodes: Record<string, MindMapNodePosition>;
+  edges?: MindMapEdgeLayout[];
+  viewport?: MindMapViewport;
 }
 
 export interface MindMapTheme {
@@ -20,12 +77,49 @@ export interface MindMapTheme {
   updated_at?: string;
   start_date?: string;
   due_date?: string;
+  links?: MindMapLink[];
+  layout?: MindMapLayout;
   metadata?: {
     version: string;
     theme: string;
   };
 }
 
+// 日期范围，除 custom 外都相对于当天计算，保存的视图在之后打开时仍然有效
+export type MindMapDateRangePreset = 'today' | 'this_week' | 'next_7_days' | 'this_month' | 'custom';
+
+export interface MindMapDateRange {
+  preset: MindMapDateRangePreset;
+  // 自定义范围的起止日期（YYYY-MM-DD，包含两端），可以只设置一端
+  from?: string;
+  to?: string;
+}
+
+// 节点筛选条件，所有设置了的条件都满足时节点才符合
+export interface MindMapFilter {
+  statuses?: NonNullable<MindMapNode['status']>[];
+  priorities?: NonNullable<MindMapNode['priority']>[];
+  // 包含其中任意一个标签
+  tags?: string[];
+  start?: MindMapDateRange;
+  due?: MindMapDateRange;
+  // 只保留已逾期的节点
+  overdue?: boolean;
+}
+
+// 不符合筛选条件的节点的显示方式
+export type MindMapFilterMode = 'dim' | 'hide';
+
+// 保存的筛选视图
+export interface MindMapView {
+  id: string;
+  name: string;
+  filter: MindMapFilter;
+  mode: MindMapFilterMode;
+}
+
 export interface MindMapData {
   mindMaps: MindMapTheme[];
-} 
\ No newline at end of file
+  // 画布的筛选视图
+  views?: MindMapView[];
+} 
@@ -23,4 +23,16 @@ interface FileSystemFileHandle {
 interface FileSystemWritableFileStream extends WritableStream {
   write(data: any): Promise<void>;
   close(): Promise<void>;
-} 
\ No newline at end of file
+} 
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
+}
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: 'read' | 'readwrite';
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+}
@@ -0,0 +1,61 @@
+import { MindMapAttachment } from '../types/MindMap';
+import { removeUnusedAttachmentFiles } from './attachmentUtils';
+import { listCanvases, StoredCanvas } from './workspaceStore';
+import { createMemoryDirectory, listMemoryFiles, writeMemoryFile } from './testHelpers';
+
+jest.mock('./workspaceStore', () => ({
+  isWorkspaceStoreSupported: () => true,
+  listCanvases: jest.fn(),
+}));
+
+const mockedListCanvases = listCanvases as jest.MockedFunction<typeof listCanvases>;
+
+const createAttachment = (id: string, name: string): MindMapAttachment => ({
+  id,
+  name,
+  type: 'text/plain',
+  size: 1,
+  storage: 'directory',
+  path: `attachments/${id}-${name}`,
+  created_at: '2024-01-01T00:00:00.000Z',
+});
+
+// 节点中引用了附件的工作区画布
+const createCanvas = (id: string, attachments: MindMapAttachment[]): StoredCanvas => ({
+  id,
+  name: id,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  nodes: [{ id: 'n1', position: { x: 0, y: 0 }, data: { nodeData: { id: 'n1', title: '节点', attachments } } }],
+  edges: [],
+});
+
+describe('removeUnusedAttachmentFiles', () => {
+  beforeEach(() => {
+    mockedListCanvases.mockResolvedValue([]);
+  });
+
+  it('只删除不再被引用的生成文件', async () => {
+    const directory = createMemoryDirectory();
+    const used = createAttachment('attachment-1-abc', 'used.txt');
+    await writeMemoryFile(directory, 'map.json', JSON.stringify({ path: used.path }));
+    await writeMemoryFile(directory, 'attachments/attachment-1-abc-used.txt', 'a');
+    await writeMemoryFile(directory, 'attachments/attachment-2-def-unused.txt', 'b');
+    await writeMemoryFile(directory, 'attachments/notes.txt', 'c');
+
+    expect(await removeUnusedAttachmentFiles(directory, [])).toBe(1);
+    const attachments = await directory.getDirectoryHandle('attachments');
+    expect(await listMemoryFiles(attachments)).toEqual(['attachment-1-abc-used.txt', 'notes.txt']);
+  });
+
+  it('保留只被其他工作区画布引用的附件', async () => {
+    const directory = createMemoryDirectory();
+    const other = createAttachment('attachment-3-ghi', 'other.txt');
+    await writeMemoryFile(directory, 'attachments/attachment-3-ghi-other.txt', 'a');
+    mockedListCanvases.mockResolvedValue([createCanvas('canvas-a', [other])]);
+
+    expect(await removeUnusedAttachmentFiles(directory, [])).toBe(0);
+    const attachments = await directory.getDirectoryHandle('attachments');
+    expect(await listMemoryFiles(attachments)).toEqual(['attachment-3-ghi-other.txt']);
+  });
+});
@@ -0,0 +1,284 @@
+import { MindMapAttachment, MindMapData, MindMapNode } from '../types/MindMap';
+import { dataUrlToBlob, blobToDataUrl } from './imageAssets';
+import {
+  isWorkspaceStoreSupported,
+  getAttachmentData,
+  putAttachmentData,
+  deleteAttachmentData,
+  listAttachmentIds,
+  listCanvases,
+} from './workspaceStore';
+
+// 附件文件所在的子目录，与JSON文件位于同一目录
+export const ATTACHMENTS_DIRECTORY = 'attachments';
+
+// 文件内容中对附件文件的引用
+const ATTACHMENT_REFERENCE_PATTERN = new RegExp(`${ATTACHMENTS_DIRECTORY}/([^"\\\\\\r\\n]+)`, 'g');
+// 扫描附件引用时读取的文件
+const REFERENCING_FILE_PATTERN = /\.json$/i;
+// 添加附件时生成的文件名（附件ID加文件名），清理时只删除这些文件
+const GENERATED_FILE_PATTERN = /^attachment-\d+-[0-9a-z]+-/;
+
+// 格式化文件大小
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// 附件在保存目录中的文件名，加上附件ID避免同名文件互相覆盖
+const getAttachmentFileName = (attachment: MindMapAttachment): string =>
+  `${attachment.id}-${attachment.name.replace(/[\\/:*?"<>|]/g, '_')}`;
+
+// 将附件内容写入保存目录，返回相对路径
+const writeAttachmentFile = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  attachment: MindMapAttachment,
+  blob: Blob
+): Promise<string> => {
+  const fileName = getAttachmentFileName(attachment);
+  const attachmentsHandle = await directoryHandle.getDirectoryHandle(ATTACHMENTS_DIRECTORY, { create: true });
+  const fileHandle = await attachmentsHandle.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return `${ATTACHMENTS_DIRECTORY}/${fileName}`;
+};
+
+// 从保存目录中读取附件文件
+const readAttachmentFile = async (directoryHandle: FileSystemDirectoryHandle, path: string): Promise<File> => {
+  const [directoryName, fileName] = path.split('/');
+  const attachmentsHandle = await directoryHandle.getDirectoryHandle(directoryName);
+  const fileHandle = await attachmentsHandle.getFileHandle(fileName);
+  return fileHandle.getFile();
+};
+
+// 添加附件：有保存目录时写入目录，否则保存到浏览器工作区，都不支持时内嵌在节点中
+export const createAttachment = async (
+  file: File,
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<MindMapAttachment> => {
+  const attachment: MindMapAttachment = {
+    id: `attachment-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    storage: 'embedded',
+    created_at: new Date().toISOString(),
+  };
+
+  if (directoryHandle) {
+    attachment.storage = 'directory';
+    attachment.path = await writeAttachmentFile(directoryHandle, attachment, file);
+  } else if (isWorkspaceStoreSupported()) {
+    attachment.storage = 'indexeddb';
+    await putAttachmentData({ id: attachment.id, blob: file });
+  } else {
+    attachment.data = await blobToDataUrl(file);
+  }
+  return attachment;
+};
+
+// 读取附件内容
+export const getAttachmentBlob = async (
+  attachment: MindMapAttachment,
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<Blob> => {
+  switch (attachment.storage) {
+    case 'directory':
+      if (!directoryHandle || !attachment.path) {
+        throw new Error('附件保存在本地目录中，请先选择保存路径');
+      }
+      return readAttachmentFile(directoryHandle, attachment.path);
+    case 'indexeddb': {
+      const stored = await getAttachmentData(attachment.id);
+      if (!stored) {
+        throw new Error('附件内容不存在');
+      }
+      return stored.blob;
+    }
+    default: {
+      const blob = attachment.data ? dataUrlToBlob(attachment.data) : null;
+      if (!blob) {
+        throw new Error('附件内容不存在');
+      }
+      return blob;
+    }
+  }
+};
+
+// 收集数据中所有节点引用的附件，数据可以是画布节点、主题、工作区画布或撤销历史等任意结构
+export const collectAttachmentReferences = (value: unknown, result: MindMapAttachment[] = []): MindMapAttachment[] => {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectAttachmentReferences(item, result));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === 'attachments' && Array.isArray(item)) {
+        item.forEach(attachment => {
+          if (attachment && typeof attachment.id === 'string') result.push(attachment);
+        });
+      } else {
+        collectAttachmentReferences(item, result);
+      }
+    });
+  }
+  return result;
+};
+
+// 删除浏览器工作区中所有画布和 inUse 都不再引用的附件内容，返回删除的数量
+// 复制的画布与原画布共用附件内容，只有没有任何画布引用时才删除
+export const removeUnusedStoredAttachments = async (inUse: MindMapAttachment[]): Promise<number> => {
+  if (!isWorkspaceStoreSupported()) return 0;
+
+  const referenced = new Set(inUse.map(attachment => attachment.id));
+  (await listCanvases()).forEach(canvas => {
+    collectAttachmentReferences(canvas).forEach(attachment => referenced.add(attachment.id));
+  });
+
+  const unused = (await listAttachmentIds()).filter(id => !referenced.has(id));
+  for (const id of unused) {
+    await deleteAttachmentData(id);
+  }
+  return unused.length;
+};
+
+// 删除目录中所有JSON文件、浏览器工作区中的所有画布和 inUse 都不再引用的附件文件，返回删除的文件数量
+// 复制的文件与原文件共用附件文件，只删除添加附件时生成的文件，目录中用户自己的文件保持不变
+export const removeUnusedAttachmentFiles = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  inUse: MindMapAttachment[]
+): Promise<number> => {
+  let attachmentsHandle: FileSystemDirectoryHandle;
+  try {
+    attachmentsHandle = await directoryHandle.getDirectoryHandle(ATTACHMENTS_DIRECTORY);
+  } catch (error) {
+    return 0;
+  }
+
+  // 尚未保存的附件在保存时以相同的文件名写入目录
+  const referenced = new Set<string>();
+  const addReference = (attachment: MindMapAttachment) => {
+    referenced.add(getAttachmentFileName(attachment));
+    if (attachment.path) referenced.add(attachment.path.slice(ATTACHMENTS_DIRECTORY.length + 1));
+  };
+  inUse.forEach(addReference);
+
+  // 添加附件时文件已写入目录，其他画布中尚未保存为文件的附件也要保留
+  if (isWorkspaceStoreSupported()) {
+    (await listCanvases()).forEach(canvas => collectAttachmentReferences(canvas).forEach(addReference));
+  }
+
+  // 收集所有文件中引用的附件，任何文件读取失败时都不删除附件
+  for await (const entry of directoryHandle.values()) {
+    if (entry.kind !== 'file' || !REFERENCING_FILE_PATTERN.test(entry.name)) continue;
+    const content = await (await (entry as FileSystemFileHandle).getFile()).text();
+    content.replace(ATTACHMENT_REFERENCE_PATTERN, (match, fileName: string) => {
+      referenced.add(fileName);
+      return match;
+    });
+  }
+
+  const unused: string[] = [];
+  for await (const entry of attachmentsHandle.values()) {
+    if (entry.kind === 'file' && GENERATED_FILE_PATTERN.test(entry.name) && !referenced.has(entry.name)) {
+      unused.push(entry.name);
+    }
+  }
+
+  for (const fileName of unused) {
+    await attachmentsHandle.removeEntry(fileName);
+  }
+  return unused.length;
+};
+
+// 依次处理所有节点的附件，返回新的数据
+const mapAttachments = async (
+  data: MindMapData,
+  transform: (attachment: MindMapAttachment) => Promise<MindMapAttachment>
+): Promise<MindMapData> => {
+  const processNode = async (node: MindMapNode): Promise<MindMapNode> => {
+    const result: MindMapNode = { ...node };
+    if (node.attachments) {
+      result.attachments = [];
+      for (const attachment of node.attachments) {
+        result.attachments.push(await transform(attachment));
+      }
+    }
+    if (node.children) {
+      result.children = [];
+      for (const child of node.children) {
+        result.children.push(await processNode(child));
+      }
+    }
+    return result;
+  };
+
+  const mindMaps = [];
+  for (const theme of data.mindMaps || []) {
+    const children = [];
+    for (const child of theme.children || []) {
+      children.push(await processNode(child));
+    }
+    mindMaps.push(theme.children ? { ...theme, children } : theme);
+  }
+  return { ...data, mindMaps };
+};
+
+// 判断两个目录是否为同一个目录
+const isSameDirectory = async (
+  a?: FileSystemDirectoryHandle | null,
+  b?: FileSystemDirectoryHandle | null
+): Promise<boolean> => !!a && !!b && (a === b || (await a.isSameEntry(b)));
+
+// 保存JSON文件前处理附件：附件从 sourceDirectory（节点当前使用的目录）读取，
+// 保存到目录时写入 targetDirectory 的 attachments 文件夹，否则内嵌到文件中
+// missing 为无法读取、只保留了附件信息的附件数量
+export const prepareAttachmentsForSave = async (
+  data: MindMapData,
+  sourceDirectory: FileSystemDirectoryHandle | null,
+  targetDirectory: FileSystemDirectoryHandle | null
+): Promise<{ data: MindMapData; missing: number }> => {
+  const sameDirectory = await isSameDirectory(sourceDirectory, targetDirectory);
+  let missing = 0;
+
+  const result = await mapAttachments(data, async attachment => {
+    try {
+      if (targetDirectory) {
+        if (attachment.storage === 'directory' && sameDirectory) return attachment;
+        const blob = await getAttachmentBlob(attachment, sourceDirectory);
+        const { data: embedded, ...rest } = attachment;
+        return { ...rest, storage: 'directory', path: await writeAttachmentFile(targetDirectory, attachment, blob) };
+      }
+
+      if (attachment.storage === 'embedded') return attachment;
+      const blob = await getAttachmentBlob(attachment, sourceDirectory);
+      const { path, ...rest } = attachment;
+      return { ...rest, storage: 'embedded', data: await blobToDataUrl(blob) };
+    } catch (error) {
+      // 无法读取的附件保持原样，只保留附件信息
+      console.error('处理附件时出错:', error);
+      missing += 1;
+      return attachment;
+    }
+  });
+  return { data: result, missing };
+};
+
+// 加载文件后将内嵌的附件转存到浏览器工作区，避免节点数据过大
+export const storeEmbeddedAttachments = (data: MindMapData): Promise<MindMapData> => {
+  if (!isWorkspaceStoreSupported()) return Promise.resolve(data);
+
+  return mapAttachments(data, async attachment => {
+    const blob = attachment.storage === 'embedded' && attachment.data ? dataUrlToBlob(attachment.data) : null;
+    if (!blob) return attachment;
+
+    try {
+      await putAttachmentData({ id: attachment.id, blob });
+      const { data: embedded, ...rest } = attachment;
+      return { ...rest, storage: 'indexeddb' };
+    } catch (error) {
+      console.error('保存附件到工作区时出错:', error);
+      return attachment;
+    }
+  });
+};
@@ -0,0 +1,50 @@
+import { MindMapNode } from '../types/MindMap';
+import { convertToCsv, parseCsv } from './csvUtils';
+import { createData, createNode } from './testHelpers';
+
+// 只保留标题的节点树，便于比较结构
+const toTitles = (nodes: MindMapNode[] = []): unknown[] =>
+  nodes.map(node => (node.children ? { [node.title]: toTitles(node.children) } : node.title));
+
+describe('convertToCsv', () => {
+  it('可能被当作公式的单元格前加单引号', () => {
+    const csv = convertToCsv(createData([createNode('n1', '=HYPERLINK("http://example.com")')]));
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    ['+1', '-1', '@SUM(A1)'].forEach(title => {
+      expect(convertToCsv(createData([createNode('n1', title)]))).toContain(`'${title}`);
+    });
+  });
+
+  it('导出后导入保留以公式字符开头的标题', () => {
+    const data = parseCsv(convertToCsv(createData([createNode('n1', '=1+1'), createNode('n2', "'引号")])));
+    expect(toTitles(data.mindMaps[0].children)).toEqual(['=1+1', "'引号"]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('按父节点ID重建节点树', () => {
+    const data = parseCsv('id,parent_id,title\nn1,,根\nn2,n1,子\nn3,n2,孙\n');
+    expect(toTitles(data.mindMaps[0].children)).toEqual([{ 根: [{ 子: ['孙'] }] }]);
+  });
+
+  it('按路径重建节点树，路径中不存在的父节点自动创建', () => {
+    const data = parseCsv('path,title\nA / B,C\nA,D\n');
+    expect(toTitles(data.mindMaps[0].children)).toEqual([{ A: ['D', { B: ['C'] }] }]);
+  });
+
+  it('标题中的斜杠在路径中不会拆分为多个层级', () => {
+    const csv = convertToCsv(createData([createNode('n1', 'A/B', { children: [createNode('n2', 'C\\D', { children: [createNode('n3', 'E')] })] })]));
+    const withoutIds = csv.replace(/^\uFEFF/, '').split('\r\n').map(line => {
+      const cells = line.split(',');
+      return [cells[3], cells[4]].join(',');
+    }).join('\n');
+    const data = parseCsv(withoutIds);
+    expect(toTitles(data.mindMaps[0].children)).toEqual([{ 'A/B': [{ 'C\\D': ['E'] }] }]);
+  });
+
+  it('识别中文列名和分号分隔符', () => {
+    const data = parseCsv('标题;优先级;状态;标签\n任务;高;已完成;a，b\n');
+    const node = data.mindMaps[0].children![0];
+    expect(node).toMatchObject({ title: '任务', priority: 'high', status: 'done', tags: ['a', 'b'] });
+  });
+});
@@ -0,0 +1,351 @@
+import { MindMapData, MindMapNode, MindMapTheme } from '../types/MindMap';
+import { createTheme } from './mindMapConverter';
+import { htmlToPlainText, plainTextToHtml } from './htmlUtils';
+import { PRIORITY_LABELS, STATUS_LABELS } from './nodeStyles';
+
+// CSV 的列，每行对应一个节点
+const CSV_COLUMNS = [
+  'theme',
+  'id',
+  'parent_id',
+  'path',
+  'title',
+  'edge_label',
+  'priority',
+  'status',
+  'start_date',
+  'due_date',
+  'tags',
+  'created_at',
+  'description',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+// 导入时可以识别的中文列名和常见别名
+const COLUMN_ALIASES: Record<string, CsvColumn> = {
+  '主题': 'theme',
+  '父节点id': 'parent_id',
+  'parent': 'parent_id',
+  'parentid': 'parent_id',
+  '路径': 'path',
+  '父路径': 'path',
+  'parent_path': 'path',
+  '标题': 'title',
+  '名称': 'title',
+  'name': 'title',
+  '任务': 'title',
+  '连线文字': 'edge_label',
+  '优先级': 'priority',
+  '状态': 'status',
+  '开始日期': 'start_date',
+  '截止日期': 'due_date',
+  '标签': 'tags',
+  '创建时间': 'created_at',
+  '描述': 'description',
+};
+
+// 路径中父节点标题之间的分隔符，标题中的斜杠和反斜杠用反斜杠转义
+const PATH_SEPARATOR = ' / ';
+
+// 表格软件会将以这些字符开头的单元格当作公式执行
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+// 转义单元格：可能被当作公式的内容前加单引号，包含分隔符、引号或换行时加引号
+const escapeCell = (value: string): string => {
+  const text = FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 去掉导出时为防止公式执行添加的单引号
+const unescapeCell = (value: string): string =>
+  value.startsWith("'") && FORMULA_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+
+// 将标题列表连接为路径
+const joinPath = (titles: string[]): string =>
+  titles.map(title => title.replace(/[\\/]/g, match => `\\${match}`)).join(PATH_SEPARATOR);
+
+// 按未转义的斜杠拆分路径，忽略空的标题
+const splitPath = (path: string): string[] => {
+  const titles: string[] = [];
+  let current = '';
+  for (let i = 0; i < path.length; i += 1) {
+    if (path[i] === '\\' && i + 1 < path.length) {
+      i += 1;
+      current += path[i];
+    } else if (path[i] === PATH_SEPARATOR.trim()) {
+      titles.push(current);
+      current = '';
+    } else {
+      current += path[i];
+    }
+  }
+  titles.push(current);
+  return titles.map(title => title.trim()).filter(Boolean);
+};
+
+// 将思维导图数据转换为CSV，父节点排在子节点之前
+export const convertToCsv = (data: MindMapData): string => {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+
+  const processNode = (theme: MindMapTheme, node: MindMapNode, parent: MindMapNode | null, ancestors: string[]) => {
+    const values: Record<CsvColumn, string> = {
+      theme: theme.title || '',
+      id: node.id,
+      parent_id: parent ? parent.id : '',
+      path: joinPath(ancestors),
+      title: node.title || '',
+      edge_label: node.edgeLabel || '',
+      priority: node.priority || '',
+      status: node.status || '',
+      start_date: node.start_date || '',
+      due_date: node.due_date || '',
+      tags: (node.tags || []).join(', '),
+      created_at: node.created_at || '',
+      description: htmlToPlainText(node.description || ''),
+    };
+    rows.push(CSV_COLUMNS.map(column => values[column]));
+
+    (node.children || []).forEach(child => processNode(theme, child, node, [...ancestors, node.title || '']));
+  };
+
+  (data.mindMaps || []).forEach(theme => {
+    (theme.children || []).forEach(node => processNode(theme, node, null, []));
+  });
+
+  // 添加 BOM，Excel 打开时才能正确识别 UTF-8 编码的中文
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// 根据第一行中引号之外出现的次数判断分隔符，兼容分号和制表符分隔的文件
+const detectDelimiter = (text: string): string => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char] += 1;
+  }
+  return Object.keys(counts).reduce((best, char) => (counts[char] > counts[best] ? char : best), ',');
+};
+
+// 解析CSV文本为二维数组
+const parseCsvRows = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // 忽略空行
+  return rows.filter(item => item.some(value => value.trim() !== ''));
+};
+
+// 将列名转换为标准列名，无法识别时返回 undefined
+const normalizeColumn = (name: string): CsvColumn | undefined => {
+  const key = name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((CSV_COLUMNS as readonly string[]).includes(key)) return key as CsvColumn;
+  return COLUMN_ALIASES[key] || COLUMN_ALIASES[key.replace(/_/g, '')];
+};
+
+// 同时识别枚举值和中文名称
+const parseEnum = <T extends string>(value: string, labels: Record<T, string>): T | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  return (Object.keys(labels) as T[]).find(key => key === text || labels[key] === text);
+};
+
+// 日期统一为 YYYY-MM-DD，兼容表格软件改写后的格式
+const parseDate = (value: string): string | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// 解析CSV文件，按父节点ID或路径列重建节点树
+export const parseCsv = (content: string, defaultTitle: string = '思维导图'): MindMapData => {
+  const [header, ...rows] = parseCsvRows(content);
+  const columns = (header || []).map(normalizeColumn);
+  if (!columns.includes('title')) {
+    throw new Error('CSV文件缺少标题列（title 或 标题）');
+  }
+
+  const now = new Date().toISOString();
+  const usedIds = new Set<string>();
+  let nodeCounter = 0;
+
+  // 节点ID缺失或重复时重新生成
+  const takeId = (id?: string): string => {
+    nodeCounter += 1;
+    const nodeId = id && !usedIds.has(id) ? id : `node-${Date.now()}-${nodeCounter}`;
+    usedIds.add(nodeId);
+    return nodeId;
+  };
+
+  // 每个主题的解析状态
+  interface ThemeState {
+    theme: MindMapTheme;
+    // 节点的原始ID（CSV中的ID）到节点的映射
+    nodesByRowId: Map<string, MindMapNode>;
+    // 节点完整路径到节点的映射
+    nodesByPath: Map<string, MindMapNode>;
+    parentOf: Map<MindMapNode, MindMapNode>;
+  }
+  const themeStates = new Map<string, ThemeState>();
+
+  const getThemeState = (title: string): ThemeState => {
+    let state = themeStates.get(title);
+    if (!state) {
+      state = {
+        theme: createTheme(title),
+        nodesByRowId: new Map(),
+        nodesByPath: new Map(),
+        parentOf: new Map(),
+      };
+      themeStates.set(title, state);
+    }
+    return state;
+  };
+
+  const getPath = (state: ThemeState, node: MindMapNode): string => {
+    const titles: string[] = [];
+    let current: MindMapNode | undefined = node;
+    while (current) {
+      titles.unshift(current.title);
+      current = state.parentOf.get(current);
+    }
+    return joinPath(titles);
+  };
+
+  const attach = (state: ThemeState, node: MindMapNode, parent?: MindMapNode) => {
+    // 父节点是自身的后代时形成环，作为根节点处理
+    let ancestor = parent;
+    while (ancestor) {
+      if (ancestor === node) {
+        parent = undefined;
+        break;
+      }
+      ancestor = state.parentOf.get(ancestor);
+    }
+
+    if (parent) {
+      parent.children = [...(parent.children || []), node];
+      state.parentOf.set(node, parent);
+    } else {
+      state.theme.children = [...(state.theme.children || []), node];
+    }
+  };
+
+  // 按路径查找父节点，路径中不存在的节点自动创建
+  const ensurePath = (state: ThemeState, path: string): MindMapNode | undefined => {
+    let parent: MindMapNode | undefined;
+    splitPath(path).forEach(title => {
+      const key = parent ? `${getPath(state, parent)}${PATH_SEPARATOR}${joinPath([title])}` : joinPath([title]);
+      let node = state.nodesByPath.get(key);
+      if (!node) {
+        node = { id: takeId(), title, created_at: now };
+        attach(state, node, parent);
+        state.nodesByPath.set(key, node);
+      }
+      parent = node;
+    });
+    return parent;
+  };
+
+  // 第一遍创建所有节点
+  const entries = rows.map(row => {
+    const values: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && row[index] !== undefined) values[column] = unescapeCell(row[index]);
+    });
+
+    const tags = (values.tags || '').split(/[,;，、]/).map(tag => tag.trim()).filter(Boolean);
+    const description = plainTextToHtml(values.description || '');
+    const createdAt = values.created_at && !Number.isNaN(new Date(values.created_at).getTime())
+      ? new Date(values.created_at).toISOString()
+      : now;
+
+    const node: MindMapNode = {
+      id: takeId(values.id?.trim()),
+      title: (values.title || '').trim() || '无标题',
+      created_at: createdAt,
+    };
+    if (description) node.description = description;
+    const priority = parseEnum(values.priority || '', PRIORITY_LABELS);
+    if (priority) node.priority = priority;
+    const status = parseEnum(values.status || '', STATUS_LABELS);
+    if (status) node.status = status;
+    const startDate = parseDate(values.start_date || '');
+    if (startDate) node.start_date = startDate;
+    const dueDate = parseDate(values.due_date || '');
+    if (dueDate) node.due_date = dueDate;
+    if (tags.length > 0) node.tags = tags;
+    if (values.edge_label?.trim()) node.edgeLabel = values.edge_label.trim();
+
+    const state = getThemeState((values.theme || '').trim() || defaultTitle);
+    if (values.id?.trim()) {
+      state.nodesByRowId.set(values.id.trim(), node);
+    }
+    return { node, state, parentId: values.parent_id?.trim(), path: values.path?.trim() };
+  });
+
+  // 第二遍确定父节点：优先使用父节点ID，其次使用路径
+  // 按路径层级由浅到深处理，父节点行排在子节点行之后时也不会重复创建父节点
+  const getDepth = (path?: string) => (path ? splitPath(path).length : 0);
+  const orderedEntries = entries
+    .map((entry, index) => ({ entry, index, depth: entry.parentId ? 0 : getDepth(entry.path) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(({ entry }) => entry);
+
+  orderedEntries.forEach(({ node, state, parentId, path }) => {
+    let parent: MindMapNode | undefined;
+    if (parentId) {
+      parent = state.nodesByRowId.get(parentId);
+    }
+    if (!parent && path) {
+      parent = ensurePath(state, path);
+    }
+    attach(state, node, parent);
+    state.nodesByPath.set(getPath(state, node), node);
+  });
+
+  const themes = Array.from(themeStates.values()).map(state => state.theme);
+  return { mindMaps: themes.length > 0 ? themes : [createTheme(defaultTitle)] };
+};
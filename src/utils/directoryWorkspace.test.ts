@@ -0,0 +1,74 @@
+import { duplicateMapFile, listDirectoryMaps, renameMapFile } from './directoryWorkspace';
+import { createData, createNode, createMemoryDirectory, listMemoryFiles, writeMemoryFile } from './testHelpers';
+
+const MAP_CONTENT = JSON.stringify(createData([createNode('n1', '任务', { children: [createNode('n2')] })]));
+
+// 读取目录中唯一的思维导图文件
+const getMapFile = async (directory: FileSystemDirectoryHandle) => {
+  const [mapFile] = await listDirectoryMaps(directory);
+  return mapFile;
+};
+
+const readText = async (directory: FileSystemDirectoryHandle, fileName: string) =>
+  (await (await directory.getFileHandle(fileName)).getFile()).text();
+
+describe('listDirectoryMaps', () => {
+  it('统计主题和节点数量，跳过不是思维导图的文件和附件目录', async () => {
+    const directory = createMemoryDirectory();
+    await writeMemoryFile(directory, '项目/计划.json', MAP_CONTENT);
+    await writeMemoryFile(directory, 'package.json', JSON.stringify({ name: 'app', mindMaps: 'x' }));
+    await writeMemoryFile(directory, 'broken.json', '{');
+    await writeMemoryFile(directory, 'attachments/map.json', MAP_CONTENT);
+
+    const files = await listDirectoryMaps(directory);
+    expect(files.map(({ path, themeTitle, themeCount, nodeCount }) => ({ path, themeTitle, themeCount, nodeCount }))).toEqual([
+      { path: '项目/计划.json', themeTitle: '主题', themeCount: 1, nodeCount: 2 },
+    ]);
+  });
+});
+
+describe('renameMapFile', () => {
+  it('同名的Markdown文件一起重命名', async () => {
+    const directory = createMemoryDirectory();
+    await writeMemoryFile(directory, '计划.json', MAP_CONTENT);
+    await writeMemoryFile(directory, '计划.md', '# 计划');
+
+    const handle = await renameMapFile(await getMapFile(directory), '新计划');
+    expect(handle.name).toBe('新计划.json');
+    expect(await listMemoryFiles(directory)).toEqual(['新计划.json', '新计划.md']);
+    expect(await readText(directory, '新计划.md')).toBe('# 计划');
+  });
+
+  it('不区分大小写的文件系统中只改变大小写时经过临时文件完成', async () => {
+    const directory = createMemoryDirectory('root', true);
+    await writeMemoryFile(directory, 'plan.json', MAP_CONTENT);
+    await writeMemoryFile(directory, 'plan.md', '# plan');
+
+    await renameMapFile(await getMapFile(directory), 'Plan');
+    expect(await listMemoryFiles(directory)).toEqual(['Plan.json', 'Plan.md']);
+    expect(await readText(directory, 'Plan.json')).toBe(MAP_CONTENT);
+  });
+
+  it('目标文件已存在时不覆盖', async () => {
+    const directory = createMemoryDirectory();
+    await writeMemoryFile(directory, '计划.json', MAP_CONTENT);
+    await writeMemoryFile(directory, '其他.json', '{}');
+
+    await expect(renameMapFile(await getMapFile(directory), '其他')).rejects.toThrow('文件 其他.json 已存在');
+    expect(await readText(directory, '其他.json')).toBe('{}');
+  });
+});
+
+describe('duplicateMapFile', () => {
+  it('副本的文件名已存在时依次添加编号', async () => {
+    const directory = createMemoryDirectory();
+    await writeMemoryFile(directory, '计划.json', MAP_CONTENT);
+    const mapFile = await getMapFile(directory);
+    await writeMemoryFile(directory, '计划 副本.json', '{}');
+    await writeMemoryFile(directory, '计划 副本 2.json', '{}');
+
+    const handle = await duplicateMapFile(mapFile);
+    expect(handle.name).toBe('计划 副本 3.json');
+    expect(await readText(directory, '计划 副本 3.json')).toBe(MAP_CONTENT);
+  });
+});
@@ -0,0 +1,193 @@
+import { MindMapData } from '../types/MindMap';
+import { parseMindMapData } from './mindMapSchema';
+import { ASSETS_DIRECTORY } from './imageAssets';
+import { ATTACHMENTS_DIRECTORY } from './attachmentUtils';
+
+// 保存目录中的思维导图文件
+export interface DirectoryMapFile {
+  // 相对于保存目录的路径，如 项目/迭代一.json
+  path: string;
+  // 不含扩展名的文件名
+  name: string;
+  fileHandle: FileSystemFileHandle;
+  // 文件所在的目录
+  directoryHandle: FileSystemDirectoryHandle;
+  // 第一个主题的标题
+  themeTitle: string;
+  themeCount: number;
+  nodeCount: number;
+  // 文件修改时间（毫秒）
+  modifiedAt: number;
+}
+
+// 图片和附件目录中没有思维导图文件，遍历时跳过
+const SKIPPED_DIRECTORIES = new Set([ASSETS_DIRECTORY, ATTACHMENTS_DIRECTORY, 'node_modules']);
+
+// 判断是否为普通对象，摘要只读取文件中的部分字段，不做完整校验
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 统计节点数量，不是数组时为 0
+const countNodes = (nodes: unknown): number =>
+  Array.isArray(nodes)
+    ? nodes.reduce((count: number, node: unknown) => count + 1 + (isRecord(node) ? countNodes(node.children) : 0), 0)
+    : 0;
+
+// 读取文件摘要，不是思维导图的JSON文件返回 null
+const readMapSummary = async (
+  fileHandle: FileSystemFileHandle,
+  directoryHandle: FileSystemDirectoryHandle,
+  path: string
+): Promise<DirectoryMapFile | null> => {
+  const file = await fileHandle.getFile();
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    return null;
+  }
+  if (!isRecord(data) || !Array.isArray(data.mindMaps)) return null;
+
+  const themes: unknown[] = data.mindMaps;
+  const firstTheme = themes[0];
+  return {
+    path,
+    name: fileHandle.name.replace(/\.json$/i, ''),
+    fileHandle,
+    directoryHandle,
+    themeTitle: isRecord(firstTheme) && typeof firstTheme.title === 'string' ? firstTheme.title : '',
+    themeCount: themes.length,
+    nodeCount: themes.reduce((count: number, theme) => count + (isRecord(theme) ? countNodes(theme.children) : 0), 0),
+    modifiedAt: file.lastModified,
+  };
+};
+
+// 列出保存目录及其子目录中的所有思维导图，按修改时间倒序排列
+export const listDirectoryMaps = async (rootHandle: FileSystemDirectoryHandle): Promise<DirectoryMapFile[]> => {
+  const files: DirectoryMapFile[] = [];
+
+  const scanDirectory = async (directoryHandle: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const entry of directoryHandle.values()) {
+      if (entry.kind === 'directory') {
+        if (!SKIPPED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+          await scanDirectory(entry as FileSystemDirectoryHandle, `${prefix}${entry.name}/`);
+        }
+      } else if (/\.json$/i.test(entry.name)) {
+        try {
+          const summary = await readMapSummary(entry as FileSystemFileHandle, directoryHandle, `${prefix}${entry.name}`);
+          if (summary) files.push(summary);
+        } catch (error) {
+          console.error(`读取文件 ${prefix}${entry.name} 时出错:`, error);
+        }
+      }
+    }
+  };
+
+  await scanDirectory(rootHandle, '');
+  return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+};
+
+// 读取并校验思维导图文件
+export const readMapFile = async (fileHandle: FileSystemFileHandle): Promise<MindMapData> => {
+  const file = await fileHandle.getFile();
+  return parseMindMapData(await file.text());
+};
+
+// 支持 move() 的文件句柄，部分浏览器可以直接移动或重命名文件
+interface MovableFileHandle extends FileSystemFileHandle {
+  move?: (newName: string) => Promise<void>;
+}
+
+// 获取目录中的文件，没有该文件时返回 null
+const findFile = async (directoryHandle: FileSystemDirectoryHandle, fileName: string): Promise<FileSystemFileHandle | null> => {
+  try {
+    return await directoryHandle.getFileHandle(fileName);
+  } catch (error) {
+    return null;
+  }
+};
+
+// 判断目录中是否已有该文件
+const fileExists = async (directoryHandle: FileSystemDirectoryHandle, fileName: string): Promise<boolean> =>
+  !!(await findFile(directoryHandle, fileName));
+
+// 将文件内容复制为同目录下的新文件
+const copyFile = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  fileHandle: FileSystemFileHandle,
+  fileName: string
+): Promise<FileSystemFileHandle> => {
+  if (await fileExists(directoryHandle, fileName)) {
+    throw new Error(`文件 ${fileName} 已存在`);
+  }
+  const content = await (await fileHandle.getFile()).text();
+  const newHandle = await directoryHandle.getFileHandle(fileName, { create: true });
+  const writable = await newHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+  return newHandle;
+};
+
+// 重命名同目录下的文件，支持 move() 时直接移动，否则复制后删除原文件
+// 只改变大小写时，不区分大小写的文件系统中新文件名会被当作已存在，不支持 move() 时先复制为临时文件
+const renameFile = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  fileHandle: FileSystemFileHandle,
+  fileName: string
+): Promise<FileSystemFileHandle> => {
+  const caseOnly = fileHandle.name !== fileName && fileHandle.name.toLowerCase() === fileName.toLowerCase();
+  if (!caseOnly && await fileExists(directoryHandle, fileName)) {
+    throw new Error(`文件 ${fileName} 已存在`);
+  }
+
+  const movable = fileHandle as MovableFileHandle;
+  if (typeof movable.move === 'function') {
+    await movable.move(fileName);
+    return directoryHandle.getFileHandle(fileName);
+  }
+
+  let source = fileHandle;
+  if (caseOnly) {
+    source = await copyFile(directoryHandle, fileHandle, `${fileName}.${Date.now()}.tmp`);
+    await directoryHandle.removeEntry(fileHandle.name);
+  }
+  const newHandle = await copyFile(directoryHandle, source, fileName);
+  await directoryHandle.removeEntry(source.name);
+  return newHandle;
+};
+
+// 保存时与JSON文件一起生成的同名Markdown文件
+const getMarkdownFileName = (name: string): string => `${name}.md`;
+
+// 重命名文件，同名的Markdown文件一起重命名，返回新文件的句柄
+export const renameMapFile = async (mapFile: DirectoryMapFile, newName: string): Promise<FileSystemFileHandle> => {
+  const safeName = newName.replace(/[\\/:*?"<>|]/g, '_');
+  const newHandle = await renameFile(mapFile.directoryHandle, mapFile.fileHandle, `${safeName}.json`);
+
+  const markdownHandle = await findFile(mapFile.directoryHandle, getMarkdownFileName(mapFile.name));
+  if (markdownHandle) {
+    try {
+      await renameFile(mapFile.directoryHandle, markdownHandle, getMarkdownFileName(safeName));
+    } catch (error) {
+      console.error('重命名Markdown文件时出错:', error);
+    }
+  }
+  return newHandle;
+};
+
+// 在同目录下复制文件，文件名后添加“副本”
+export const duplicateMapFile = async (mapFile: DirectoryMapFile): Promise<FileSystemFileHandle> => {
+  let fileName = `${mapFile.name} 副本.json`;
+  for (let index = 2; await fileExists(mapFile.directoryHandle, fileName); index += 1) {
+    fileName = `${mapFile.name} 副本 ${index}.json`;
+  }
+  return copyFile(mapFile.directoryHandle, mapFile.fileHandle, fileName);
+};
+
+// 删除文件和同名的Markdown文件，图片和附件由调用方按引用清理
+export const deleteMapFile = async (mapFile: DirectoryMapFile): Promise<void> => {
+  await mapFile.directoryHandle.removeEntry(mapFile.fileHandle.name);
+  if (await fileExists(mapFile.directoryHandle, getMarkdownFileName(mapFile.name))) {
+    await mapFile.directoryHandle.removeEntry(getMarkdownFileName(mapFile.name));
+  }
+};
@@ -0,0 +1,88 @@
+import { convertToIcs, convertToOpml, parseMindMapFile, parseOpml } from './fileUtils';
+import { MindMapSchemaError, SCHEMA_VERSION } from './mindMapSchema';
+import { createData, createNode } from './testHelpers';
+
+const createOpmlData = () =>
+  createData([createNode('node-1', '第一行\n\t第二行\r', { status: 'done', tags: ['a,b', 'c\\d', '标签'] })]);
+
+describe('OPML', () => {
+  it('导出后导入保留换行、回车和制表符', () => {
+    const node = parseOpml(convertToOpml(createOpmlData())).mindMaps[0].children![0];
+    expect(node.title).toBe('第一行\n\t第二行\r');
+  });
+
+  it('标签中的逗号和反斜杠导入后保持不变', () => {
+    const node = parseOpml(convertToOpml(createOpmlData())).mindMaps[0].children![0];
+    expect(node.tags).toEqual(['a,b', 'c\\d', '标签']);
+  });
+
+  it('兼容以逗号分隔的标签', () => {
+    const content = '<?xml version="1.0"?><opml version="2.0"><head/><body>'
+      + '<outline text="节点" tags="a, b,,c"/></body></opml>';
+    expect(parseOpml(content).mindMaps[0].children![0].tags).toEqual(['a', 'b', 'c']);
+  });
+
+  it('导入的HTML描述按白名单清理', () => {
+    const description = '<p onclick="alert(1)">说明</p><img src="x" onerror="alert(1)"><iframe src="https://example.com"></iframe>';
+    const content = '<?xml version="1.0"?><opml version="2.0"><head/><body>'
+      + `<outline text="节点" description="${description.replace(/"/g, '&quot;').replace(/</g, '&lt;')}"/></body></opml>`;
+    expect(parseOpml(content).mindMaps[0].children![0].description).toBe('<p>说明</p><img src="x">');
+  });
+});
+
+describe('convertToIcs', () => {
+  // 取出折行前的属性行
+  const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+  it('由节点ID生成UID，全天事件的结束日期为下一天', () => {
+    const data = createData([createNode('n1', '发布', { start_date: '2024-05-01', due_date: '2024-05-31', tags: ['上线', 'a,b'] })]);
+    const lines = unfold(convertToIcs(data, '计划', 'VEVENT'));
+    expect(lines).toEqual(expect.arrayContaining([
+      'UID:n1@local-task-list',
+      'DTSTART;VALUE=DATE:20240501',
+      'DTEND;VALUE=DATE:20240601',
+      'CATEGORIES:上线,a\\,b',
+    ]));
+  });
+
+  it('转义文本中的特殊字符，跳过没有日期或日期格式不对的节点', () => {
+    const data = createData([
+      createNode('n1', '标题;含,特殊\\字符\n换行', { due_date: '2024-05-01' }),
+      createNode('n2', '无日期'),
+      createNode('n3', '格式不对', { due_date: '2024/05/01' }),
+    ]);
+    const lines = unfold(convertToIcs(data));
+    expect(lines).toContain('SUMMARY:标题\\;含\\,特殊\\\\字符\\n换行');
+    expect(lines).toContain('DUE;VALUE=DATE:20240501');
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual(['UID:n1@local-task-list']);
+  });
+
+  it('按字节折行，每行不超过75个字节且不拆分多字节字符', () => {
+    const title = '很长的中文标题'.repeat(10);
+    const ics = convertToIcs(createData([createNode('n1', title, { due_date: '2024-05-01' })]));
+    const encoder = new TextEncoder();
+    const lines = ics.split('\r\n');
+    expect(lines.every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(lines.filter(line => line.startsWith(' ')).length).toBeGreaterThan(1);
+    expect(unfold(ics)).toContain(`SUMMARY:${title}`);
+  });
+});
+
+describe('parseMindMapFile', () => {
+  it('Markdown、OPML和CSV导入的结果升级到当前版本并通过校验', () => {
+    const files: [string, string][] = [
+      ['计划.md', '# 计划\n\n- 任务'],
+      ['计划.opml', convertToOpml(createOpmlData())],
+      ['计划.csv', '标题,状态\n任务,已完成'],
+    ];
+    files.forEach(([fileName, content]) => {
+      const [theme] = parseMindMapFile(fileName, content).mindMaps;
+      expect(theme.metadata?.version).toBe(SCHEMA_VERSION);
+      expect(theme.children?.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('导入的数据没有通过校验时报告问题', () => {
+    expect(() => parseMindMapFile('计划.md', '## 任务\n\n- **开始日期**: 2024-13-45')).toThrow(MindMapSchemaError);
+  });
+});
@@ -1,17 +1,37 @@
-import { MindMapData } from '../types/MindMap';
+import { MindMapData, MindMapNode, MindMapTheme } from '../types/MindMap';
+import { normalizeMindMapData, parseMindMapData } from './mindMapSchema';
+import { parseMarkdown } from './markdownImport';
+import { createTheme } from './mindMapConverter';
+import { htmlToPlainText, plainTextToHtml, sanitizeHtml } from './htmlUtils';
+import { convertToHtml } from './htmlExport';
+import { convertToCsv, parseCsv } from './csvUtils';
+import { STATUS_LABELS } from './nodeStyles';
+import { NodeProgress, getProgressPercent, getThemeProgressMap } from './nodeProgress';
+import { htmlToMarkdown, createImageCollector, renderImageDefinitions } from './markdownUtils';
+
+// 节点和主题的日期格式 YYYY-MM-DD，导出日历和导入OPML时只接受这种格式
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // 检查是否支持 File System Access API
 const isFileSystemAccessSupported = () => {
   return 'showSaveFilePicker' in window;
 };
 
+// 检查是否支持打开文件选择器，支持时可以保留文件句柄，保存时写回原文件
+const isOpenFilePickerSupported = () => {
+  return 'showOpenFilePicker' in window;
+};
+
+// 用户在文件选择器中点击取消时抛出 AbortError
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
 // 检查是否支持目录访问 API
 const isDirectoryAccessSupported = () => {
   return 'showDirectoryPicker' in window;
 };
 
 // 创建下载链接并触发下载
-const downloadFile = (content: string, fileName: string, contentType: string) => {
+const downloadFile = (content: string | Blob, fileName: string, contentType: string) => {
   const blob = new Blob([content], { type: contentType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -24,11 +44,23 @@ const downloadFile = (content: string, fileName: string, contentType: string) =>
   return true;
 };
 
+// 检查目录的读写权限，request 为 true 时在没有权限的情况下向用户申请（需要在用户操作中调用）
+export const verifyDirectoryPermission = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  request: boolean = false
+): Promise<boolean> => {
+  const descriptor: FileSystemHandlePermissionDescriptor = { mode: 'readwrite' };
+  if ((await directoryHandle.queryPermission(descriptor)) === 'granted') {
+    return true;
+  }
+  return request && (await directoryHandle.requestPermission(descriptor)) === 'granted';
+};
+
 // 使用目录句柄保存文件
 export const saveFileToDirectory = async (
   directoryHandle: FileSystemDirectoryHandle,
   fileName: string,
-  content: string,
+  content: string | Blob,
   contentType: string
 ): Promise<boolean> => {
   try {
@@ -56,6 +88,56 @@ export const saveFileToDirectory = async (
   }
 };
 
+// 导出文件的类型信息
+interface ExportFileType {
+  extension: string;
+  contentType: string;
+  description: string;
+}
+
+// 保存导出文件：优先保存到选择的目录，其次使用文件选择器，最后使用传统下载
+const saveExportFile = async (
+  content: string | Blob,
+  canvasName: string,
+  fileType: ExportFileType,
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  // 处理文件名，移除不合法字符
+  const safeFileName = canvasName.replace(/[\\/:*?"<>|]/g, '_');
+  const fileName = `${safeFileName}${fileType.extension}`;
+
+  // 如果提供了目录句柄，直接保存到该目录
+  if (directoryHandle && isDirectoryAccessSupported()) {
+    return await saveFileToDirectory(
+      directoryHandle,
+      fileName,
+      content,
+      fileType.contentType
+    );
+  }
+
+  // 检查是否支持 File System Access API
+  if (isFileSystemAccessSupported()) {
+    // 使用文件选择器保存文件
+    const handle = await window.showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{
+        description: fileType.description,
+        accept: { [fileType.contentType]: [fileType.extension] },
+      }],
+    });
+
+    const writable = await handle.createWritable();
+    await writable.write(new Blob([content], { type: fileType.contentType }));
+    await writable.close();
+
+    return true;
+  }
+
+  // 使用传统下载方法
+  return downloadFile(content, fileName, fileType.contentType);
+};
+
 export const saveToFile = async (
   data: MindMapData, 
   canvasName: string = '思维导图',
@@ -106,12 +188,117 @@ export const saveToFile = async (
   }
 };
 
-export const loadFromFile = async (): Promise<MindMapData | null> => {
+// 将思维导图写入文件句柄对应的文件
+export const writeToFileHandle = async (fileHandle: FileSystemFileHandle, data: MindMapData): Promise<void> => {
+  const writable = await fileHandle.createWritable();
+  await writable.write(JSON.stringify(data, null, 2));
+  await writable.close();
+};
+
+// 另存为：选择新的保存位置并写入，返回新文件的句柄；不支持文件选择器时使用传统下载，返回 null
+// 选择位置后才调用 prepareData 准备写入的数据，图片和附件可以写入新文件所在的目录
+export const saveAsFile = async (
+  prepareData: (fileHandle: FileSystemFileHandle | null) => Promise<MindMapData>,
+  canvasName: string = '思维导图'
+): Promise<{ saved: boolean; fileHandle: FileSystemFileHandle | null }> => {
+  const safeFileName = canvasName.replace(/[\\/:*?"<>|]/g, '_');
+  const fileName = `${safeFileName}.json`;
+
+  if (!isFileSystemAccessSupported()) {
+    const data = await prepareData(null);
+    return { saved: downloadFile(JSON.stringify(data, null, 2), fileName, 'application/json'), fileHandle: null };
+  }
+
+  try {
+    const fileHandle = await window.showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{
+        description: 'JSON Files',
+        accept: { 'application/json': ['.json'] },
+      }],
+    });
+    await writeToFileHandle(fileHandle, await prepareData(fileHandle));
+    return { saved: true, fileHandle };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { saved: false, fileHandle: null };
+    }
+    throw error;
+  }
+};
+
+// 按文件扩展名选择解析方式
+export const parseMindMapFile = (fileName: string, content: string): MindMapData => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  // 文件名作为默认主题名称
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+
+  // 其他格式导入的结果与JSON文件一样升级并校验
+  switch (extension) {
+    case 'md':
+    case 'markdown':
+      // 按标题和列表重建节点树
+      return normalizeMindMapData(parseMarkdown(content, baseName));
+    case 'opml':
+      return normalizeMindMapData(parseOpml(content, baseName));
+    case 'csv':
+      // 按父节点ID或路径列重建节点树
+      return normalizeMindMapData(parseCsv(content, baseName));
+    default:
+      // 解析JSON，升级旧版本格式并校验数据结构
+      return parseMindMapData(content);
+  }
+};
+
+// 加载的文件，fileHandle 为可以写回的JSON文件句柄，其他格式或浏览器不支持时为 null
+export interface LoadedFile {
+  data: MindMapData;
+  fileName: string;
+  fileHandle: FileSystemFileHandle | null;
+}
+
+// 使用文件选择器打开文件，保留文件句柄
+const openWithFilePicker = async (): Promise<LoadedFile | null> => {
+  let fileHandle: FileSystemFileHandle;
+  try {
+    [fileHandle] = await window.showOpenFilePicker({
+      types: [{
+        description: '思维导图文件',
+        accept: {
+          'application/json': ['.json'],
+          'text/markdown': ['.md', '.markdown'],
+          'text/x-opml': ['.opml'],
+          'text/csv': ['.csv'],
+        },
+      }],
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('用户取消了文件选择');
+      return null;
+    }
+    throw error;
+  }
+
+  const file = await fileHandle.getFile();
+  const data = parseMindMapFile(file.name, await file.text());
+  console.log('成功加载文件:', data);
+
+  // 只有JSON文件可以直接写回，其他格式保存时需要另存为
+  const isJson = /\.json$/i.test(file.name);
+  return { data, fileName: file.name, fileHandle: isJson ? fileHandle : null };
+};
+
+export const loadFromFile = async (): Promise<LoadedFile | null> => {
   try {
+    if (isOpenFilePickerSupported()) {
+      return await openWithFilePicker();
+    }
+    
     // 创建一个文件输入元素
     const fileInput = document.createElement('input');
     fileInput.type = 'file';
-    fileInput.accept = '.json';
+    fileInput.accept = '.json,.md,.markdown,.opml,.csv';
     
     // 等待用户选择文件
     const fileSelected = new Promise<File | null>((resolve) => {
@@ -141,28 +328,19 @@ export const loadFromFile = async (): Promise<MindMapData | null> => {
       reader.readAsText(file);
     });
     
-    // 解析JSON
-    try {
-      const data = JSON.parse(fileContent);
-      console.log('成功加载文件:', data);
-      
-      // 验证数据结构
-      if (!data.mindMaps || !Array.isArray(data.mindMaps)) {
-        console.error('文件格式不正确: 缺少mindMaps数组');
-        return null;
-      }
-      
-      return data as MindMapData;
-    } catch (parseError) {
-      console.error('解析JSON失败:', parseError);
-      throw new Error('文件格式不正确，无法解析JSON');
-    }
+    const data = parseMindMapFile(file.name, fileContent);
+    console.log('成功加载文件:', data);
+    
+    return { data, fileName: file.name, fileHandle: null };
   } catch (error) {
     console.error('加载文件时出错:', error);
     throw error;
   }
 };
 
+// Markdown导出中使用标题的节点层级，第1级节点为三级标题
+const MARKDOWN_HEADING_DEPTH = 4;
+
 // 将思维导图数据转换为Markdown格式
 export const convertToMarkdown = (data: MindMapData): string => {
   let markdown = '# 思维导图导出\n\n';
@@ -171,34 +349,22 @@ export const convertToMarkdown = (data: MindMapData): string => {
     return markdown + '无内容';
   }
   
-  const theme = data.mindMaps[0];
-  markdown += `## ${theme.title || '主题'}\n\n`;
+  // 描述中的内嵌图片统一放在文档末尾
+  const imageCollector = createImageCollector();
+  // 当前主题中父节点的进度
+  let progressMap = new Map<string, NodeProgress>();
   
-  // 添加主题信息
-  if (theme.start_date || theme.due_date) {
-    markdown += '### 主题信息\n\n';
-    if (theme.start_date) {
-      markdown += `- **开始日期**: ${theme.start_date}\n`;
-    }
-    if (theme.due_date) {
-      markdown += `- **截止日期**: ${theme.due_date}\n`;
-    }
-    if (theme.created_at) {
-      markdown += `- **创建时间**: ${new Date(theme.created_at).toLocaleString()}\n`;
-    }
-    if (theme.updated_at) {
-      markdown += `- **更新时间**: ${new Date(theme.updated_at).toLocaleString()}\n`;
-    }
-    markdown += '\n';
-  }
-  
-  // 递归处理节点
+  // 递归处理节点，前4级使用三到六级标题，更深的节点使用嵌套列表，导入时保留层级
   const processNode = (node: any, level: number): string => {
     let nodeMarkdown = '';
-    const prefix = '#'.repeat(Math.min(level + 2, 6)); // 最多6级标题
+    const isHeading = level <= MARKDOWN_HEADING_DEPTH;
+    // 列表项的元数据和描述缩进在列表项之下
+    const indent = isHeading ? '' : '  '.repeat(level - MARKDOWN_HEADING_DEPTH);
     
     // 添加标题
-    nodeMarkdown += `${prefix} ${node.title || '无标题'}\n\n`;
+    nodeMarkdown += isHeading
+      ? `${'#'.repeat(level + 2)} ${node.title || '无标题'}\n\n`
+      : `${indent.slice(2)}- ${node.title || '无标题'}\n\n`;
     
     // 添加元数据（状态信息）
     const metaData = [];
@@ -223,6 +389,11 @@ export const convertToMarkdown = (data: MindMapData): string => {
       metaData.push(`- **状态**: ${statusEmoji} ${statusMap[node.status] || node.status}`);
     }
     
+    const progress = progressMap.get(node.id);
+    if (progress) {
+      metaData.push(`- **进度**: ${progress.done}/${progress.total} (${getProgressPercent(progress)}%)`);
+    }
+    
     if (node.start_date) {
       metaData.push(`- **开始日期**: 📅 ${node.start_date}`);
     }
@@ -231,17 +402,23 @@ export const convertToMarkdown = (data: MindMapData): string => {
       metaData.push(`- **截止日期**: ⏰ ${node.due_date}`);
     }
     
+    if (node.tags && node.tags.length > 0) {
+      metaData.push(`- **标签**: ${node.tags.join(', ')}`);
+    }
+    
     if (node.created_at) {
       metaData.push(`- **创建时间**: ${new Date(node.created_at).toLocaleString()}`);
     }
     
     if (metaData.length > 0) {
-      nodeMarkdown += metaData.join('\n') + '\n\n';
+      nodeMarkdown += metaData.map(line => indent + line).join('\n') + '\n\n';
     }
     
-    // 添加描述
-    if (node.description) {
-      nodeMarkdown += `**描述**:\n\n${node.description}\n\n`;
+    // 添加描述，转换为Markdown后放在引用块中，避免其中的标题和列表被当作节点
+    const description = htmlToMarkdown(node.description || '', imageCollector);
+    if (description) {
+      const quoted = description.split('\n').map(line => indent + (line ? `> ${line}` : '>')).join('\n');
+      nodeMarkdown += `${indent}**描述**:\n\n${quoted}\n\n`;
     }
     
     // 处理子节点
@@ -254,11 +431,40 @@ export const convertToMarkdown = (data: MindMapData): string => {
     return nodeMarkdown;
   };
   
-  // 处理所有根节点
-  if (theme.children && theme.children.length > 0) {
-    theme.children.forEach((child: any) => {
-      markdown += processNode(child, 1);
-    });
+  // 依次导出每个主题
+  data.mindMaps.forEach((theme) => {
+    markdown += `## ${theme.title || '主题'}\n\n`;
+    progressMap = getThemeProgressMap(theme);
+    
+    // 添加主题信息
+    if (theme.start_date || theme.due_date) {
+      markdown += '### 主题信息\n\n';
+      if (theme.start_date) {
+        markdown += `- **开始日期**: ${theme.start_date}\n`;
+      }
+      if (theme.due_date) {
+        markdown += `- **截止日期**: ${theme.due_date}\n`;
+      }
+      if (theme.created_at) {
+        markdown += `- **创建时间**: ${new Date(theme.created_at).toLocaleString()}\n`;
+      }
+      if (theme.updated_at) {
+        markdown += `- **更新时间**: ${new Date(theme.updated_at).toLocaleString()}\n`;
+      }
+      markdown += '\n';
+    }
+    
+    // 处理所有根节点
+    if (theme.children && theme.children.length > 0) {
+      theme.children.forEach((child: any) => {
+        markdown += processNode(child, 1);
+      });
+    }
+  });
+  
+  // 添加图片引用定义
+  if (imageCollector.images.size > 0) {
+    markdown += `${renderImageDefinitions(imageCollector)}\n`;
   }
   
   return markdown;
@@ -272,51 +478,466 @@ export const saveToMarkdown = async (
 ): Promise<boolean> => {
   try {
     const markdown = convertToMarkdown(data);
-    
-    // 处理文件名，移除不合法字符
-    const safeFileName = canvasName.replace(/[\\/:*?"<>|]/g, '_');
-    const fileName = `${safeFileName}.md`;
-    
-    // 如果提供了目录句柄，直接保存到该目录
-    if (directoryHandle && isDirectoryAccessSupported()) {
-      return await saveFileToDirectory(
-        directoryHandle,
-        fileName,
-        markdown,
-        'text/markdown'
-      );
+    return await saveExportFile(
+      markdown,
+      canvasName,
+      { extension: '.md', contentType: 'text/markdown', description: 'Markdown Files' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存Markdown文件时出错:', error);
+    return false;
+  }
+};
+
+// 保存为独立的只读网页
+export const saveToHtml = async (
+  data: MindMapData,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  try {
+    const html = convertToHtml(data, canvasName);
+    return await saveExportFile(
+      html,
+      canvasName,
+      { extension: '.html', contentType: 'text/html', description: 'HTML Files' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存HTML文件时出错:', error);
+    return false;
+  }
+};
+
+// 保存CSV文件，每行对应一个节点
+export const saveToCsv = async (
+  data: MindMapData,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  try {
+    const csv = convertToCsv(data);
+    return await saveExportFile(
+      csv,
+      canvasName,
+      { extension: '.csv', contentType: 'text/csv', description: 'CSV Files' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存CSV文件时出错:', error);
+    return false;
+  }
+};
+
+// 日历条目类型：VTODO 为待办事项，VEVENT 为日历事件
+export type IcsComponent = 'VTODO' | 'VEVENT';
+
+// iCalendar 中的优先级：1 最高，5 中等，9 最低
+const ICS_PRIORITIES: Record<NonNullable<MindMapNode['priority']>, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+const ICS_STATUSES: Record<NonNullable<MindMapNode['status']>, string> = {
+  todo: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+};
+
+// 转义文本属性值中的特殊字符
+const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 按 RFC 5545 折行，每行不超过75个字节，续行以空格开头
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  let result = '';
+  let lineBytes = 0;
+  for (const char of Array.from(line)) {
+    const charBytes = encoder.encode(char).length;
+    if (lineBytes + charBytes > 75) {
+      result += '\r\n ';
+      lineBytes = 1;
     }
-    
-    // 检查是否支持 File System Access API
-    if (isFileSystemAccessSupported()) {
-      // 使用现代 File System Access API
-      // 创建Blob对象
-      const blob = new Blob([markdown], { type: 'text/markdown' });
-      
-      // 使用文件选择器保存文件
-      const handle = await window.showSaveFilePicker({
-        suggestedName: fileName,
-        types: [{
-          description: 'Markdown Files',
-          accept: { 'text/markdown': ['.md'] },
-        }],
-      });
-      
-      const writable = await handle.createWritable();
-      await writable.write(blob);
-      await writable.close();
-      
-      return true;
+    result += char;
+    lineBytes += charBytes;
+  }
+  return result;
+};
+
+// YYYY-MM-DD 转换为 iCalendar 日期，offsetDays 用于计算结束日期
+const toIcsDate = (date: string, offsetDays: number = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day + offsetDays));
+  return value.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+// 时间转换为 UTC 格式，如 20250101T120000Z
+const toIcsDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 将有日期的节点转换为iCalendar格式
+// UID 由节点ID生成，SEQUENCE 随导出时间递增，重新导入时日历会更新已有条目而不是重复创建
+export const convertToIcs = (
+  data: MindMapData,
+  calendarName: string = '思维导图',
+  component: IcsComponent = 'VTODO'
+): string => {
+  const now = new Date();
+  const stamp = toIcsDateTime(now);
+  const sequence = Math.floor(now.getTime() / 1000);
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//local-task-list//MindMap//ZH',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  const getUid = (node: MindMapNode) => `${node.id}@local-task-list`;
+
+  // 递归处理节点
+  const processNode = (node: MindMapNode, parent?: MindMapNode) => {
+    const startDate = node.start_date && DATE_PATTERN.test(node.start_date) ? node.start_date : undefined;
+    const dueDate = node.due_date && DATE_PATTERN.test(node.due_date) ? node.due_date : undefined;
+
+    if (startDate || dueDate) {
+      const description = htmlToPlainText(node.description || '');
+      lines.push(`BEGIN:${component}`);
+      lines.push(`UID:${getUid(node)}`);
+      lines.push(`DTSTAMP:${stamp}`);
+      lines.push(`SEQUENCE:${sequence}`);
+      if (node.created_at && !Number.isNaN(new Date(node.created_at).getTime())) {
+        lines.push(`CREATED:${toIcsDateTime(new Date(node.created_at))}`);
+      }
+      lines.push(`SUMMARY:${escapeIcsText(node.title || '无标题')}`);
+
+      if (component === 'VTODO') {
+        // 待办的截止日期必须晚于开始日期，同一天时只保留截止日期
+        if (startDate && (!dueDate || startDate < dueDate)) {
+          lines.push(`DTSTART;VALUE=DATE:${toIcsDate(startDate)}`);
+        }
+        if (dueDate) {
+          lines.push(`DUE;VALUE=DATE:${toIcsDate(dueDate)}`);
+        }
+        if (node.status) {
+          lines.push(`STATUS:${ICS_STATUSES[node.status]}`);
+          if (node.status === 'done') {
+            lines.push('PERCENT-COMPLETE:100');
+          }
+        }
+        if (parent) {
+          lines.push(`RELATED-TO;RELTYPE=PARENT:${getUid(parent)}`);
+        }
+      } else {
+        // 全天事件，结束日期不包含在内
+        const firstDate = startDate && (!dueDate || startDate <= dueDate) ? startDate : dueDate!;
+        lines.push(`DTSTART;VALUE=DATE:${toIcsDate(firstDate)}`);
+        lines.push(`DTEND;VALUE=DATE:${toIcsDate(dueDate || firstDate, 1)}`);
+      }
+
+      if (node.priority) {
+        lines.push(`PRIORITY:${ICS_PRIORITIES[node.priority]}`);
+      }
+      if (node.tags && node.tags.length > 0) {
+        lines.push(`CATEGORIES:${node.tags.map(escapeIcsText).join(',')}`);
+      }
+
+      // 日历事件没有对应的状态属性，写在描述开头
+      const descriptionLines = component === 'VEVENT' && node.status
+        ? [`状态：${STATUS_LABELS[node.status]}`, description].filter(Boolean)
+        : [description].filter(Boolean);
+      if (descriptionLines.length > 0) {
+        lines.push(`DESCRIPTION:${escapeIcsText(descriptionLines.join('\n\n'))}`);
+      }
+      lines.push(`END:${component}`);
+    }
+
+    (node.children || []).forEach(child => processNode(child, node));
+  };
+
+  (data.mindMaps || []).forEach(theme => {
+    (theme.children || []).forEach(node => processNode(node));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// 保存iCalendar文件
+export const saveToIcs = async (
+  data: MindMapData,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null,
+  component: IcsComponent = 'VTODO'
+): Promise<boolean> => {
+  try {
+    const ics = convertToIcs(data, canvasName, component);
+    return await saveExportFile(
+      ics,
+      canvasName,
+      { extension: '.ics', contentType: 'text/calendar', description: 'iCalendar Files' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存iCalendar文件时出错:', error);
+    return false;
+  }
+};
+
+// 保存SVG图片
+export const saveToSvg = async (
+  svg: string,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  try {
+    return await saveExportFile(
+      svg,
+      canvasName,
+      { extension: '.svg', contentType: 'image/svg+xml', description: 'SVG Images' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存SVG图片时出错:', error);
+    return false;
+  }
+};
+
+// 保存PNG图片
+export const saveToPng = async (
+  png: Blob,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  try {
+    return await saveExportFile(
+      png,
+      canvasName,
+      { extension: '.png', contentType: 'image/png', description: 'PNG Images' },
+      directoryHandle
+    );
+  } catch (error) {
+    console.error('保存PNG图片时出错:', error);
+    return false;
+  }
+};
+
+// 转义XML特殊字符，属性值中的换行、回车和制表符也需要转义，否则解析时会变成空格
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+
+// 标签以逗号分隔，标签中的反斜杠和逗号用反斜杠转义
+const joinOpmlTags = (tags: string[]): string =>
+  tags.map(tag => tag.replace(/[\\,]/g, match => `\\${match}`)).join(',');
+
+// 按未转义的逗号拆分标签
+const splitOpmlTags = (value: string): string[] => {
+  const tags: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[++i];
+    } else if (value[i] === ',') {
+      tags.push(current);
+      current = '';
     } else {
-      // 使用传统下载方法
-      return downloadFile(
-        markdown,
-        fileName,
-        'text/markdown'
-      );
+      current += value[i];
     }
+  }
+  tags.push(current);
+  return tags.map(tag => tag.trim()).filter(Boolean);
+};
+
+// 生成 outline 的属性，忽略空值
+const toOpmlAttributes = (attributes: [string, string | undefined][]): string =>
+  attributes
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeXml(value!)}"`)
+    .join(' ');
+
+// 将思维导图数据转换为OPML格式
+// 只有一个主题时节点直接放在 body 中；有多个主题时每个主题是一个 type="theme" 的顶层 outline
+export const convertToOpml = (data: MindMapData, title: string = '思维导图'): string => {
+  const themes = data.mindMaps || [];
+
+  // 递归处理节点
+  const processNode = (node: MindMapNode, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const attributes = toOpmlAttributes([
+      ['text', node.title || '无标题'],
+      ['id', node.id],
+      ['priority', node.priority],
+      ['status', node.status],
+      ['startDate', node.start_date],
+      ['dueDate', node.due_date],
+      ['created', node.created_at],
+      ['tags', node.tags && node.tags.length > 0 ? joinOpmlTags(node.tags) : undefined],
+      ['edgeLabel', node.edgeLabel],
+      ['description', node.description],
+      // 大纲工具通用的备注和完成标记
+      ['_note', node.description ? htmlToPlainText(node.description) : undefined],
+      ['_complete', node.status === 'done' ? 'true' : undefined],
+    ]);
+
+    if (!node.children || node.children.length === 0) {
+      return `${indent}<outline ${attributes}/>\n`;
+    }
+    return `${indent}<outline ${attributes}>\n`
+      + node.children.map(child => processNode(child, depth + 1)).join('')
+      + `${indent}</outline>\n`;
+  };
+
+  let body = '';
+  if (themes.length === 1) {
+    body = (themes[0].children || []).map(child => processNode(child, 2)).join('');
+  } else {
+    themes.forEach(theme => {
+      const attributes = toOpmlAttributes([
+        ['text', theme.title || '主题'],
+        ['type', 'theme'],
+        ['id', theme.id],
+        ['created', theme.created_at],
+        ['startDate', theme.start_date],
+        ['dueDate', theme.due_date],
+      ]);
+      body += `    <outline ${attributes}>\n`
+        + (theme.children || []).map(child => processNode(child, 3)).join('')
+        + '    </outline>\n';
+    });
+  }
+
+  const headTitle = themes.length === 1 ? themes[0].title || title : title;
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + '<opml version="2.0">\n'
+    + '  <head>\n'
+    + `    <title>${escapeXml(headTitle)}</title>\n`
+    + `    <dateCreated>${new Date().toUTCString()}</dateCreated>\n`
+    + '  </head>\n'
+    + '  <body>\n'
+    + body
+    + '  </body>\n'
+    + '</opml>\n';
+};
+
+// 保存OPML文件
+export const saveToOpml = async (
+  data: MindMapData,
+  canvasName: string = '思维导图',
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<boolean> => {
+  try {
+    const opml = convertToOpml(data, canvasName);
+    return await saveExportFile(
+      opml,
+      canvasName,
+      { extension: '.opml', contentType: 'text/x-opml', description: 'OPML Files' },
+      directoryHandle
+    );
   } catch (error) {
-    console.error('保存Markdown文件时出错:', error);
+    console.error('保存OPML文件时出错:', error);
     return false;
   }
-}; 
\ No newline at end of file
+};
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const STATUSES = ['todo', 'in_progress', 'done'];
+
+// 获取子 outline 元素
+const getOutlines = (element: Element): Element[] =>
+  Array.from(element.children).filter(child => child.tagName === 'outline');
+
+// 解析OPML文件，其他大纲工具导出的文件只使用 text 和 _note 属性
+export const parseOpml = (content: string, defaultTitle: string = '思维导图'): MindMapData => {
+  const doc = new DOMParser().parseFromString(content, 'text/xml');
+  const body = doc.querySelector('opml > body');
+  if (doc.querySelector('parsererror') || !body) {
+    throw new Error('文件格式不正确，无法解析OPML');
+  }
+
+  const now = new Date().toISOString();
+  const usedIds = new Set<string>();
+  let nodeCounter = 0;
+
+  // 节点ID缺失或重复时重新生成
+  const takeId = (id: string | null): string => {
+    nodeCounter += 1;
+    const nodeId = id && !usedIds.has(id) ? id : `node-${Date.now()}-${nodeCounter}`;
+    usedIds.add(nodeId);
+    return nodeId;
+  };
+
+  const readDate = (value: string | null) =>
+    value && DATE_PATTERN.test(value) ? value : undefined;
+
+  const readDateTime = (value: string | null) =>
+    value && !Number.isNaN(new Date(value).getTime()) ? new Date(value).toISOString() : now;
+
+  // 递归处理 outline 元素
+  const processOutline = (outline: Element): MindMapNode => {
+    const priority = outline.getAttribute('priority');
+    const status = outline.getAttribute('status');
+    const tags = splitOpmlTags(outline.getAttribute('tags') || '');
+    const note = outline.getAttribute('_note');
+    const children = getOutlines(outline).map(processOutline);
+
+    const node: MindMapNode = {
+      id: takeId(outline.getAttribute('id')),
+      title: outline.getAttribute('text') || outline.getAttribute('title') || '无标题',
+      // 描述来自外部文件，按白名单清理
+      description: sanitizeHtml(outline.getAttribute('description') || '') || (note ? plainTextToHtml(note) : undefined),
+      priority: priority && PRIORITIES.includes(priority) ? priority as MindMapNode['priority'] : undefined,
+      status: status && STATUSES.includes(status)
+        ? status as MindMapNode['status']
+        : outline.getAttribute('_complete') === 'true' ? 'done' : undefined,
+      created_at: readDateTime(outline.getAttribute('created')),
+      start_date: readDate(outline.getAttribute('startDate')),
+      due_date: readDate(outline.getAttribute('dueDate')),
+      tags: tags.length > 0 ? tags : undefined,
+      edgeLabel: outline.getAttribute('edgeLabel') || undefined,
+      children: children.length > 0 ? children : undefined,
+    };
+
+    // 移除未设置的字段
+    (Object.keys(node) as (keyof MindMapNode)[]).forEach(key => {
+      if (node[key] === undefined) delete node[key];
+    });
+    return node;
+  };
+
+  const outlines = getOutlines(body);
+  const themes: MindMapTheme[] = [];
+
+  if (outlines.length > 0 && outlines.every(outline => outline.getAttribute('type') === 'theme')) {
+    // 多主题文件
+    outlines.forEach(outline => {
+      const theme = createTheme(outline.getAttribute('text') || '主题');
+      theme.id = outline.getAttribute('id') || theme.id;
+      theme.created_at = readDateTime(outline.getAttribute('created'));
+      theme.start_date = readDate(outline.getAttribute('startDate'));
+      theme.due_date = readDate(outline.getAttribute('dueDate'));
+      theme.children = getOutlines(outline).map(processOutline);
+      themes.push(theme);
+    });
+  } else {
+    const title = doc.querySelector('opml > head > title')?.textContent?.trim();
+    const theme = createTheme(title || defaultTitle);
+    theme.children = outlines.map(processOutline);
+    themes.push(theme);
+  }
+
+  return { mindMaps: themes };
+};
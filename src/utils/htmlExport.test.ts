@@ -0,0 +1,21 @@
+import { convertToHtml } from './htmlExport';
+import { createData, createNode } from './testHelpers';
+
+// 在当前文档中运行导出网页的查看器脚本
+const openViewer = (description: string) => {
+  const page = convertToHtml(createData([createNode('n1', '节点', { description })]));
+  const body = page.slice(page.indexOf('<body>') + '<body>'.length, page.indexOf('</body>'));
+  document.body.innerHTML = body;
+  // innerHTML 插入的脚本不会执行，重新创建后再插入
+  const script = document.createElement('script');
+  script.textContent = document.querySelector('script:not([type])')?.textContent || '';
+  document.body.appendChild(script);
+};
+
+describe('convertToHtml 查看器', () => {
+  it('按白名单清理节点描述', () => {
+    openViewer('<p>说明</p><a href="java&#9;script:alert(1)">链接</a><img src="data:image/png;base64,AAAA" onerror="alert(1)"><form><input></form>');
+    (document.querySelector('.node') as HTMLElement).click();
+    expect(document.getElementById('panel-description')?.innerHTML).toBe('<p>说明</p><a>链接</a><img src="data:image/png;base64,AAAA">');
+  });
+});
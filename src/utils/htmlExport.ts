@@ -0,0 +1,405 @@
+import { MindMapData } from '../types/MindMap';
+import { escapeHtml, HTML_SANITIZE_RULES } from './htmlUtils';
+
+// 导出网页的样式
+const VIEWER_STYLE = `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; color: #333; background: #fafafa; }
+#toolbar { position: fixed; top: 0; left: 0; right: 0; height: 48px; display: flex; align-items: center; gap: 8px; padding: 0 16px; background: rgba(255, 255, 255, 0.9); border-bottom: 1px solid #eee; z-index: 2; }
+#toolbar h1 { font-size: 16px; margin: 0 16px 0 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+#toolbar button, #toolbar select { height: 28px; padding: 0 10px; border: 1px solid #d9d9d9; border-radius: 4px; background: #fff; cursor: pointer; font-size: 13px; }
+#toolbar button:hover { border-color: #1890ff; color: #1890ff; }
+#viewport { position: fixed; top: 48px; left: 0; right: 0; bottom: 0; overflow: hidden; cursor: grab; touch-action: none; }
+#viewport.dragging { cursor: grabbing; }
+#canvas { position: absolute; top: 0; left: 0; transform-origin: 0 0; }
+#edges { position: absolute; top: 0; left: 0; overflow: visible; pointer-events: none; }
+#empty { position: absolute; top: 40%; width: 100%; text-align: center; color: #999; }
+.node { position: absolute; width: 160px; min-height: 48px; padding: 6px 8px; background: #fff; border: 1px solid #ddd; border-radius: 4px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); cursor: pointer; }
+.node:hover, .node.selected { border-color: #1890ff; box-shadow: 0 0 8px rgba(24, 144, 255, 0.5); }
+.node-title { font-weight: bold; font-size: 12px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; text-align: center; }
+.node-meta { display: flex; align-items: center; gap: 4px; margin-top: 4px; font-size: 10px; color: #999; }
+.node-dates { margin-left: auto; }
+.dot { width: 7px; height: 7px; border-radius: 50%; }
+.toggle { position: absolute; right: -10px; top: 50%; margin-top: -10px; min-width: 20px; height: 20px; padding: 0 4px; border: 1px solid #d9d9d9; border-radius: 10px; background: #fff; font-size: 11px; line-height: 18px; text-align: center; cursor: pointer; }
+.toggle:hover { border-color: #1890ff; color: #1890ff; }
+#panel { position: fixed; top: 48px; right: 0; bottom: 0; width: 380px; max-width: 100%; padding: 16px 20px; overflow: auto; background: #fff; border-left: 1px solid #eee; box-shadow: -2px 0 8px rgba(0, 0, 0, 0.08); z-index: 3; }
+#panel[hidden] { display: none; }
+#panel h2 { font-size: 18px; margin: 0 32px 12px 0; }
+#panel-close { position: absolute; top: 12px; right: 12px; border: none; background: none; font-size: 20px; cursor: pointer; color: #999; }
+#panel-meta { margin: 0 0 16px; padding: 0; list-style: none; font-size: 13px; color: #666; }
+#panel-meta li { margin-bottom: 4px; }
+#panel-description img { max-width: 100%; }
+#panel-description pre { background: #f5f5f5; padding: 8px; overflow: auto; }
+#panel-description table { border-collapse: collapse; }
+#panel-description td, #panel-description th { border: 1px solid #ddd; padding: 4px 8px; }
+`;
+
+// 导出网页中的只读查看器脚本，支持平移缩放、展开折叠和查看描述
+const VIEWER_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('mindmap-data').textContent);
+  var themes = data.mindMaps || [];
+  var NODE_WIDTH = 160, NODE_HEIGHT = 48, H_GAP = 70, V_GAP = 16;
+  var PRIORITY = { high: ['高', '#f5222d'], medium: ['中', '#faad14'], low: ['低', '#52c41a'] };
+  var STATUS = { done: ['已完成', '#52c41a'], in_progress: ['进行中', '#1890ff'], todo: ['待办', '#faad14'] };
+
+  var viewportEl = document.getElementById('viewport');
+  var canvasEl = document.getElementById('canvas');
+  var edgesEl = document.getElementById('edges');
+  var nodesEl = document.getElementById('nodes');
+  var panelEl = document.getElementById('panel');
+  var state = { theme: null, collapsed: {}, selectedId: null, x: 40, y: 40, zoom: 1 };
+
+  function escapeText(text) {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  // 按白名单清理描述，规则与应用中导入描述时相同
+  var RULES = ${JSON.stringify(HTML_SANITIZE_RULES)};
+
+  function isSafeUrl(url, allowDataImage) {
+    var compact = url.split('').filter(function (char) {
+      var code = char.charCodeAt(0);
+      return code > 0x20 && (code < 0x7f || code > 0x9f);
+    }).join('');
+    var match = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+    if (!match) return true;
+    if (allowDataImage && /^data:image\\//i.test(compact)) return true;
+    return RULES.urlSchemes.indexOf(match[1].toLowerCase()) >= 0;
+  }
+
+  function clean(parent) {
+    Array.prototype.slice.call(parent.childNodes).forEach(function (child) {
+      if (child.nodeType === 3) return;
+      if (child.nodeType !== 1) { parent.removeChild(child); return; }
+      var tagName = child.tagName.toLowerCase();
+      if (RULES.dropTags.indexOf(tagName) >= 0) { parent.removeChild(child); return; }
+      clean(child);
+      var allowedAttributes = RULES.tags.hasOwnProperty(tagName) ? RULES.tags[tagName] : null;
+      if (!allowedAttributes) {
+        while (child.firstChild) parent.insertBefore(child.firstChild, child);
+        parent.removeChild(child);
+        return;
+      }
+      Array.prototype.slice.call(child.attributes).forEach(function (attr) {
+        var name = attr.name.toLowerCase();
+        var allowed = allowedAttributes.indexOf(name) >= 0 || RULES.globalAttributes.indexOf(name) >= 0;
+        var isUrl = name === 'href' || name === 'src';
+        if (!allowed || (isUrl && !isSafeUrl(attr.value, tagName === 'img' && name === 'src'))) child.removeAttribute(attr.name);
+      });
+    });
+  }
+
+  function sanitize(html) {
+    var doc = new DOMParser().parseFromString(html || '', 'text/html');
+    clean(doc.body);
+    return doc.body.innerHTML;
+  }
+
+  function formatDate(value) {
+    var date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+    return ('0' + (date.getMonth() + 1)).slice(-2) + '-' + ('0' + date.getDate()).slice(-2);
+  }
+
+  // 截止日期颜色：已过期、今天到期或三天内到期
+  function dueColor(value) {
+    var due = new Date(value);
+    var today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (isNaN(due.getTime())) return '';
+    if (due < today) return '#f5222d';
+    if (due.getTime() === today.getTime()) return '#fa8c16';
+    if (Math.ceil((due.getTime() - today.getTime()) / 86400000) <= 3) return '#faad14';
+    return '';
+  }
+
+  function countDescendants(node) {
+    return (node.children || []).reduce(function (sum, child) { return sum + 1 + countDescendants(child); }, 0);
+  }
+
+  // 使用思维导图中保存的折叠状态，没有折叠过任何节点时默认只展开前两层
+  function defaultCollapsed(theme) {
+    var saved = {};
+    var collapsed = {};
+    var hasSaved = false;
+    function walk(node, depth) {
+      if (node.collapsed && (node.children || []).length > 0) {
+        saved[node.id] = true;
+        hasSaved = true;
+      }
+      if (depth >= 1 && (node.children || []).length > 0) collapsed[node.id] = true;
+      (node.children || []).forEach(function (child) { walk(child, depth + 1); });
+    }
+    (theme.children || []).forEach(function (node) { walk(node, 0); });
+    return hasSaved ? saved : collapsed;
+  }
+
+  // 从左到右排列节点树，折叠的节点不展开子节点
+  function layout(theme) {
+    var entries = [];
+    var nextY = 0;
+    function place(node, depth, parent) {
+      var entry = { node: node, parent: parent, x: depth * (NODE_WIDTH + H_GAP), y: 0 };
+      entries.push(entry);
+      var children = node.children || [];
+      if (children.length === 0 || state.collapsed[node.id]) {
+        entry.y = nextY;
+        nextY += NODE_HEIGHT + V_GAP;
+        return entry;
+      }
+      var placed = children.map(function (child) { return place(child, depth + 1, entry); });
+      entry.y = (placed[0].y + placed[placed.length - 1].y) / 2;
+      return entry;
+    }
+    (theme.children || []).forEach(function (node) { place(node, 0, null); });
+    return entries;
+  }
+
+  function curve(x1, y1, x2, y2) {
+    var mx = (x1 + x2) / 2;
+    return 'M' + x1 + ',' + y1 + ' C' + mx + ',' + y1 + ' ' + mx + ',' + y2 + ' ' + x2 + ',' + y2;
+  }
+
+  function renderNode(entry) {
+    var node = entry.node;
+    var el = document.createElement('div');
+    el.className = 'node' + (node.id === state.selectedId ? ' selected' : '');
+    el.style.left = entry.x + 'px';
+    el.style.top = entry.y + 'px';
+
+    var meta = '';
+    if (PRIORITY[node.priority]) meta += '<span class="dot" title="优先级: ' + PRIORITY[node.priority][0] + '" style="background:' + PRIORITY[node.priority][1] + '"></span>';
+    if (STATUS[node.status]) meta += '<span class="dot" title="状态: ' + STATUS[node.status][0] + '" style="background:' + STATUS[node.status][1] + '"></span>';
+    var dates = [];
+    if (node.start_date) dates.push(escapeText(formatDate(node.start_date)));
+    if (node.due_date) dates.push('<span style="color:' + (dueColor(node.due_date) || 'inherit') + '">' + escapeText(formatDate(node.due_date)) + '</span>');
+    meta += '<span class="node-dates">' + dates.join(' - ') + '</span>';
+
+    el.innerHTML = '<div class="node-title" title="' + escapeText(node.title || '') + '">' + escapeText(node.title || '无标题') + '</div>'
+      + '<div class="node-meta">' + meta + '</div>';
+
+    el.addEventListener('click', function () { showPanel(node); });
+
+    var children = node.children || [];
+    if (children.length > 0) {
+      var toggle = document.createElement('button');
+      toggle.className = 'toggle';
+      toggle.title = state.collapsed[node.id] ? '展开' : '折叠';
+      toggle.textContent = state.collapsed[node.id] ? '+' + countDescendants(node) : '−';
+      toggle.addEventListener('click', function (event) {
+        event.stopPropagation();
+        state.collapsed[node.id] = !state.collapsed[node.id];
+        render();
+      });
+      el.appendChild(toggle);
+    }
+    return el;
+  }
+
+  function render() {
+    var theme = state.theme;
+    nodesEl.innerHTML = '';
+    edgesEl.innerHTML = '';
+    document.getElementById('empty').hidden = !!(theme && (theme.children || []).length > 0);
+    if (!theme) return;
+
+    var entries = layout(theme);
+    var byId = {};
+    var paths = '';
+    var width = 0, height = 0;
+
+    entries.forEach(function (entry) {
+      byId[entry.node.id] = entry;
+      nodesEl.appendChild(renderNode(entry));
+      width = Math.max(width, entry.x + NODE_WIDTH);
+      height = Math.max(height, entry.y + NODE_HEIGHT);
+
+      if (entry.parent) {
+        var x1 = entry.parent.x + NODE_WIDTH, y1 = entry.parent.y + NODE_HEIGHT / 2;
+        var x2 = entry.x, y2 = entry.y + NODE_HEIGHT / 2;
+        paths += '<path d="' + curve(x1, y1, x2, y2) + '" fill="none" stroke="#b1b1b7" stroke-width="1.5"/>';
+        if (entry.node.edgeLabel) {
+          paths += '<text x="' + (x1 + x2) / 2 + '" y="' + ((y1 + y2) / 2 - 4) + '" font-size="10" fill="#666" text-anchor="middle">' + escapeText(entry.node.edgeLabel) + '</text>';
+        }
+      }
+    });
+
+    // 树结构之外的连线使用虚线
+    (theme.links || []).forEach(function (link) {
+      var source = byId[link.source], target = byId[link.target];
+      if (!source || !target) return;
+      var x1 = source.x + NODE_WIDTH / 2, y1 = source.y + NODE_HEIGHT;
+      var x2 = target.x + NODE_WIDTH / 2, y2 = target.y;
+      paths += '<path d="' + curve(x1, y1, x2, y2) + '" fill="none" stroke="#91caff" stroke-width="1.5" stroke-dasharray="5,4"/>';
+      if (link.label) {
+        paths += '<text x="' + (x1 + x2) / 2 + '" y="' + (y1 + y2) / 2 + '" font-size="10" fill="#666" text-anchor="middle">' + escapeText(link.label) + '</text>';
+      }
+    });
+
+    edgesEl.setAttribute('width', width);
+    edgesEl.setAttribute('height', height);
+    edgesEl.innerHTML = paths;
+    state.bounds = { width: width, height: height };
+  }
+
+  function applyTransform() {
+    canvasEl.style.transform = 'translate(' + state.x + 'px, ' + state.y + 'px) scale(' + state.zoom + ')';
+  }
+
+  // 缩放到整个思维导图可见
+  function fitView() {
+    var bounds = state.bounds || { width: 0, height: 0 };
+    var rect = viewportEl.getBoundingClientRect();
+    var available = rect.width - (panelEl.hidden ? 0 : panelEl.offsetWidth);
+    state.zoom = Math.min(1, (available - 80) / Math.max(bounds.width, 1), (rect.height - 80) / Math.max(bounds.height, 1));
+    state.zoom = Math.max(0.2, state.zoom);
+    state.x = (available - bounds.width * state.zoom) / 2;
+    state.y = (rect.height - bounds.height * state.zoom) / 2;
+    applyTransform();
+  }
+
+  function showPanel(node) {
+    state.selectedId = node.id;
+    document.getElementById('panel-title').textContent = node.title || '无标题';
+
+    var items = [];
+    if (PRIORITY[node.priority]) items.push('优先级：' + PRIORITY[node.priority][0]);
+    if (STATUS[node.status]) items.push('状态：' + STATUS[node.status][0]);
+    if (node.start_date) items.push('开始日期：' + node.start_date);
+    if (node.due_date) items.push('截止日期：' + node.due_date);
+    if (node.tags && node.tags.length > 0) items.push('标签：' + node.tags.join('、'));
+    document.getElementById('panel-meta').innerHTML = items.map(function (item) { return '<li>' + escapeText(item) + '</li>'; }).join('');
+
+    document.getElementById('panel-description').innerHTML = node.description
+      ? sanitize(node.description)
+      : '<p style="color:#999">没有描述</p>';
+    panelEl.hidden = false;
+    render();
+  }
+
+  function selectTheme(index) {
+    state.theme = themes[index] || null;
+    state.collapsed = state.theme ? defaultCollapsed(state.theme) : {};
+    state.selectedId = null;
+    panelEl.hidden = true;
+    render();
+    fitView();
+  }
+
+  // 平移
+  var drag = null;
+  viewportEl.addEventListener('pointerdown', function (event) {
+    if (event.target.closest('.node')) return;
+    drag = { x: event.clientX - state.x, y: event.clientY - state.y };
+    viewportEl.classList.add('dragging');
+    viewportEl.setPointerCapture(event.pointerId);
+  });
+  viewportEl.addEventListener('pointermove', function (event) {
+    if (!drag) return;
+    state.x = event.clientX - drag.x;
+    state.y = event.clientY - drag.y;
+    applyTransform();
+  });
+  ['pointerup', 'pointercancel'].forEach(function (type) {
+    viewportEl.addEventListener(type, function () {
+      drag = null;
+      viewportEl.classList.remove('dragging');
+    });
+  });
+
+  // 以鼠标位置为中心缩放
+  viewportEl.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = viewportEl.getBoundingClientRect();
+    var mx = event.clientX - rect.left, my = event.clientY - rect.top;
+    var zoom = Math.min(3, Math.max(0.2, state.zoom * (event.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    state.x = mx - (mx - state.x) * zoom / state.zoom;
+    state.y = my - (my - state.y) * zoom / state.zoom;
+    state.zoom = zoom;
+    applyTransform();
+  }, { passive: false });
+
+  document.getElementById('panel-close').addEventListener('click', function () {
+    panelEl.hidden = true;
+    state.selectedId = null;
+    render();
+  });
+
+  document.getElementById('expand-all').addEventListener('click', function () {
+    state.collapsed = {};
+    render();
+  });
+  document.getElementById('collapse-all').addEventListener('click', function () {
+    state.collapsed = {};
+    (function walk(nodes) {
+      nodes.forEach(function (node) {
+        if ((node.children || []).length > 0) state.collapsed[node.id] = true;
+        walk(node.children || []);
+      });
+    })(state.theme ? state.theme.children || [] : []);
+    render();
+  });
+  document.getElementById('fit-view').addEventListener('click', fitView);
+
+  // 多个主题时显示主题选择
+  var select = document.getElementById('theme-select');
+  if (themes.length > 1) {
+    themes.forEach(function (theme, index) {
+      var option = document.createElement('option');
+      option.value = index;
+      option.textContent = theme.title || '主题 ' + (index + 1);
+      select.appendChild(option);
+    });
+    select.addEventListener('change', function () { selectTheme(Number(select.value)); });
+  } else {
+    select.hidden = true;
+  }
+
+  selectTheme(0);
+})();
+`;
+
+// 将数据嵌入 script 标签，转义 < 避免提前结束标签
+const embedJson = (data: MindMapData): string =>
+  JSON.stringify(data).replace(/</g, '\\u003c');
+
+// 将思维导图数据转换为独立的只读网页
+export const convertToHtml = (data: MindMapData, title: string = '思维导图'): string => {
+  const pageTitle = escapeHtml(title);
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${pageTitle}</title>
+<style>${VIEWER_STYLE}</style>
+</head>
+<body>
+<div id="toolbar">
+  <h1>${pageTitle}</h1>
+  <select id="theme-select" aria-label="主题"></select>
+  <button id="expand-all" type="button">全部展开</button>
+  <button id="collapse-all" type="button">全部折叠</button>
+  <button id="fit-view" type="button">适应窗口</button>
+</div>
+<div id="viewport">
+  <div id="empty" hidden>无内容</div>
+  <div id="canvas">
+    <svg id="edges" xmlns="http://www.w3.org/2000/svg"></svg>
+    <div id="nodes"></div>
+  </div>
+</div>
+<aside id="panel" hidden>
+  <button id="panel-close" type="button" aria-label="关闭">×</button>
+  <h2 id="panel-title"></h2>
+  <ul id="panel-meta"></ul>
+  <div id="panel-description"></div>
+</aside>
+<script type="application/json" id="mindmap-data">${embedJson(data)}</script>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
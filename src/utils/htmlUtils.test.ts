@@ -0,0 +1,53 @@
+import { htmlToPlainText, isSafeUrl, sanitizeHtml } from './htmlUtils';
+
+describe('isSafeUrl', () => {
+  it('去掉控制字符和空白后再检查协议', () => {
+    expect(isSafeUrl('java\tscript:alert(1)')).toBe(false);
+    expect(isSafeUrl(' \u0000JavaScript:alert(1)')).toBe(false);
+    expect(isSafeUrl('vbscript:msgbox(1)')).toBe(false);
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl('mailto:a@example.com')).toBe(true);
+    expect(isSafeUrl('assets/image.png')).toBe(true);
+  });
+
+  it('只有图片地址允许 data:image', () => {
+    expect(isSafeUrl('data:image/png;base64,AAAA')).toBe(false);
+    expect(isSafeUrl('data:image/png;base64,AAAA', true)).toBe(true);
+    expect(isSafeUrl('data:text/html,<script>alert(1)</script>', true)).toBe(false);
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('移除不安全的协议和白名单之外的属性', () => {
+    const html = sanitizeHtml(
+      '<a href="java&#9;script:alert(1)" onclick="alert(1)">链接</a><a href="https://example.com" target="_blank">安全</a>'
+    );
+    expect(html).toBe('<a>链接</a><a href="https://example.com" target="_blank">安全</a>');
+  });
+
+  it('图片只允许 http(s) 和 data:image 地址', () => {
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA" onerror="alert(1)">')).toBe('<img src="data:image/png;base64,AAAA">');
+    expect(sanitizeHtml('<img src="javascript:alert(1)" alt="图">')).toBe('<img alt="图">');
+  });
+
+  it('连同内容移除危险的标签，其他未知标签只保留内容', () => {
+    const html = sanitizeHtml(
+      '<p>文本<script>alert(1)</script></p><form action="https://example.com"><input value="x"></form>'
+        + '<base href="https://example.com/"><svg><a xlink:href="javascript:alert(1)">图形</a></svg>'
+        + '<section><mark>保留</mark></section><!-- 注释 -->'
+    );
+    expect(html).toBe('<p>文本</p>保留');
+  });
+
+  it('保留编辑器生成的格式', () => {
+    const html = '<p style="text-align: center;"><strong>粗体</strong><span style="color: red;">红色</span></p><ul><li>项目</li></ul>'
+      + '<div data-w-e-type="todo"><input type="checkbox" disabled="" checked="">待办</div>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('段落之间空一行，换行保留', () => {
+    expect(htmlToPlainText('<p>第一行<br>第二行</p><p>第二段</p>')).toBe('第一行\n第二行\n\n第二段');
+  });
+});
@@ -0,0 +1,152 @@
+// 块级元素，转换为纯文本时在其前后换行
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'UL', 'OL',
+  'PRE', 'BLOCKQUOTE', 'TABLE', 'TR', 'HR',
+]);
+
+// 段落级元素，转换为纯文本时与后面的内容空一行
+const PARAGRAPH_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'PRE', 'BLOCKQUOTE', 'TABLE', 'UL', 'OL']);
+
+// 将描述中的HTML转换为纯文本，保留段落和换行
+export const htmlToPlainText = (html: string): string => {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let text = '';
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (element.tagName === 'BR') {
+      text += '\n';
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(element.tagName);
+    if (isBlock && text && !text.endsWith('\n')) {
+      text += '\n';
+    }
+    element.childNodes.forEach(walk);
+    if (isBlock && text && !text.endsWith('\n')) {
+      text += '\n';
+    }
+    // 段落之间空一行
+    if (PARAGRAPH_TAGS.has(element.tagName) && text && !text.endsWith('\n\n')) {
+      text += '\n';
+    }
+  };
+
+  doc.body.childNodes.forEach(walk);
+
+  // 替换不换行空格并合并多余的空行
+  return text.replace(/\u00a0/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// 转义HTML特殊字符
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 将纯文本转换为段落HTML
+export const plainTextToHtml = (text: string): string => {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+
+  return trimmed
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${paragraph.split('\n').map(line => escapeHtml(line.trim())).join('<br>')}</p>`)
+    .join('');
+};
+
+// 描述HTML的白名单：允许的标签及其属性，其他标签只保留内容
+// 导出网页的查看器脚本也使用这份规则
+export const HTML_SANITIZE_RULES = {
+  tags: {
+    p: [], br: [], div: ['data-w-e-type'], span: [], strong: [], b: [], em: [], i: [], u: [], s: [], del: [],
+    sub: [], sup: [], code: [], pre: [], blockquote: [], hr: [],
+    h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+    ul: [], ol: ['start'], li: [],
+    table: [], thead: [], tbody: [], tr: [], th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan'],
+    a: ['href', 'target'], img: ['src', 'alt', 'width', 'height'],
+    // 编辑器的待办事项
+    input: ['type', 'checked', 'disabled'],
+  } as Record<string, string[]>,
+  // 所有允许的标签都可以带的属性
+  globalAttributes: ['style', 'title'],
+  // 连同内容一起移除的标签
+  dropTags: [
+    'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'button',
+    'textarea', 'select', 'base', 'link', 'meta', 'svg', 'math', 'template', 'noscript', 'title',
+  ],
+  // 链接和图片地址允许的协议，没有协议的相对地址都允许
+  urlSchemes: ['http', 'https', 'mailto'],
+};
+
+// 检查链接或图片地址的协议，先去掉控制字符和空白，避免 java&#9;script: 之类的写法绕过
+export const isSafeUrl = (url: string, allowDataImage = false): boolean => {
+  const compact = url
+    .split('')
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code > 0x20 && (code < 0x7f || code > 0x9f);
+    })
+    .join('');
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  if (!match) return true;
+  if (allowDataImage && /^data:image\//i.test(compact)) return true;
+  return HTML_SANITIZE_RULES.urlSchemes.includes(match[1].toLowerCase());
+};
+
+// 按白名单清理HTML，用于导入的描述等不可信的内容
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const { tags, globalAttributes, dropTags } = HTML_SANITIZE_RULES;
+
+  const clean = (parent: Node) => {
+    Array.from(parent.childNodes).forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) return;
+      if (child.nodeType !== Node.ELEMENT_NODE) {
+        parent.removeChild(child);
+        return;
+      }
+
+      const element = child as Element;
+      const tagName = element.tagName.toLowerCase();
+      if (dropTags.includes(tagName)) {
+        parent.removeChild(element);
+        return;
+      }
+
+      clean(element);
+      if (!Object.prototype.hasOwnProperty.call(tags, tagName)) {
+        // 不在白名单中的标签只保留其中的内容
+        while (element.firstChild) parent.insertBefore(element.firstChild, element);
+        parent.removeChild(element);
+        return;
+      }
+
+      const allowedAttributes = tags[tagName];
+      Array.from(element.attributes).forEach(attribute => {
+        const name = attribute.name.toLowerCase();
+        const allowed = allowedAttributes.includes(name) || globalAttributes.includes(name);
+        const isUrl = name === 'href' || name === 'src';
+        if (!allowed || (isUrl && !isSafeUrl(attribute.value, tagName === 'img' && name === 'src'))) {
+          element.removeAttribute(attribute.name);
+        }
+      });
+    });
+  };
+
+  clean(doc.body);
+  return doc.body.innerHTML;
+};
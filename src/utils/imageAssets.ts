@@ -0,0 +1,193 @@
+import { MindMapData, MindMapNode } from '../types/MindMap';
+
+// 图片文件所在的子目录，与JSON文件位于同一目录，描述中使用相对路径引用
+export const ASSETS_DIRECTORY = 'assets';
+
+// 描述中图片的 src 属性
+const IMAGE_SOURCE_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/;
+// 文件内容中对图片文件的引用
+const ASSET_REFERENCE_PATTERN = new RegExp(`${ASSETS_DIRECTORY}/([\\w-]+\\.\\w+)`, 'g');
+// 扫描图片引用时读取的文件
+const REFERENCING_FILE_PATTERN = /\.(json|md|html?)$/i;
+// 保存时生成的图片文件名（内容哈希），清理时只删除这些文件，目录中用户自己的文件保持不变
+const GENERATED_ASSET_PATTERN = /^[0-9a-f]{32}\.\w+$/;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+};
+
+// 处理所有节点的描述，返回新的数据
+const mapDescriptions = (data: MindMapData, transform: (html: string) => string): MindMapData => {
+  const processNode = (node: MindMapNode): MindMapNode => ({
+    ...node,
+    ...(node.description ? { description: transform(node.description) } : {}),
+    ...(node.children ? { children: node.children.map(processNode) } : {}),
+  });
+
+  return {
+    ...data,
+    mindMaps: (data.mindMaps || []).map(theme => ({
+      ...theme,
+      ...(theme.children ? { children: theme.children.map(processNode) } : {}),
+    })),
+  };
+};
+
+// 收集所有描述中的图片地址
+const collectImageSources = (data: MindMapData): Set<string> => {
+  const sources = new Set<string>();
+  mapDescriptions(data, html => {
+    html.replace(IMAGE_SOURCE_PATTERN, (match, prefix: string, quote: string, src: string) => {
+      sources.add(src);
+      return match;
+    });
+    return html;
+  });
+  return sources;
+};
+
+// 按映射表替换描述中的图片地址
+const replaceImageSources = (data: MindMapData, replacements: Map<string, string>): MindMapData =>
+  mapDescriptions(data, html =>
+    html.replace(IMAGE_SOURCE_PATTERN, (match, prefix: string, quote: string, src: string) =>
+      replacements.has(src) ? `${prefix}${quote}${replacements.get(src)}${quote}` : match
+    )
+  );
+
+// 将 data URL 转换为二进制数据
+export const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) return null;
+
+  const type = match[1] || 'application/octet-stream';
+  if (!/;base64/i.test(match[2])) {
+    return new Blob([decodeURIComponent(match[3])], { type });
+  }
+
+  const binary = atob(match[3].replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+// 读取文件为 data URL
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('读取图片失败'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+// 以内容的哈希值作为文件名，相同的图片只保存一份
+const getAssetFileName = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest).slice(0, 16))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const extension = MIME_EXTENSIONS[blob.type] || blob.type.split('/')[1] || 'bin';
+  return `${hash}.${extension.replace(/\W/g, '')}`;
+};
+
+// 判断目录中是否已有该文件
+const hasFile = async (directoryHandle: FileSystemDirectoryHandle, fileName: string): Promise<boolean> => {
+  try {
+    await directoryHandle.getFileHandle(fileName);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// 将描述中内嵌的 base64 图片写入 assets 目录，返回使用相对路径引用图片的数据
+export const extractImageAssets = async (
+  data: MindMapData,
+  directoryHandle: FileSystemDirectoryHandle
+): Promise<MindMapData> => {
+  const dataUrls = Array.from(collectImageSources(data)).filter(src => src.startsWith('data:'));
+  if (dataUrls.length === 0) return data;
+
+  const assetsHandle = await directoryHandle.getDirectoryHandle(ASSETS_DIRECTORY, { create: true });
+  const replacements = new Map<string, string>();
+
+  for (const dataUrl of dataUrls) {
+    const blob = dataUrlToBlob(dataUrl);
+    if (!blob) continue;
+
+    const fileName = await getAssetFileName(blob);
+    if (!(await hasFile(assetsHandle, fileName))) {
+      const fileHandle = await assetsHandle.getFileHandle(fileName, { create: true });
+      const writable = await fileHandle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+    }
+    replacements.set(dataUrl, `${ASSETS_DIRECTORY}/${fileName}`);
+  }
+
+  return replaceImageSources(data, replacements);
+};
+
+// 将描述中引用 assets 目录的图片还原为 data URL，missing 为无法读取的图片数量
+export const resolveImageAssets = async (
+  data: MindMapData,
+  directoryHandle?: FileSystemDirectoryHandle | null
+): Promise<{ data: MindMapData; missing: number }> => {
+  const assetPaths = Array.from(collectImageSources(data)).filter(src => src.startsWith(`${ASSETS_DIRECTORY}/`));
+  if (assetPaths.length === 0) return { data, missing: 0 };
+  if (!directoryHandle) return { data, missing: assetPaths.length };
+
+  const replacements = new Map<string, string>();
+  let missing = 0;
+
+  for (const assetPath of assetPaths) {
+    try {
+      const assetsHandle = await directoryHandle.getDirectoryHandle(ASSETS_DIRECTORY);
+      const fileHandle = await assetsHandle.getFileHandle(assetPath.slice(ASSETS_DIRECTORY.length + 1));
+      replacements.set(assetPath, await blobToDataUrl(await fileHandle.getFile()));
+    } catch (error) {
+      console.error('读取图片文件时出错:', error);
+      missing += 1;
+    }
+  }
+
+  return { data: replaceImageSources(data, replacements), missing };
+};
+
+// 删除目录中所有JSON、Markdown和网页文件都不再引用的、保存时生成的图片，返回删除的文件数量
+export const removeUnusedImageAssets = async (directoryHandle: FileSystemDirectoryHandle): Promise<number> => {
+  let assetsHandle: FileSystemDirectoryHandle;
+  try {
+    assetsHandle = await directoryHandle.getDirectoryHandle(ASSETS_DIRECTORY);
+  } catch (error) {
+    return 0;
+  }
+
+  // 收集所有文件中引用的图片，任何文件读取失败时都不删除图片
+  const referenced = new Set<string>();
+  for await (const entry of directoryHandle.values()) {
+    if (entry.kind !== 'file' || !REFERENCING_FILE_PATTERN.test(entry.name)) continue;
+    const content = await (await (entry as FileSystemFileHandle).getFile()).text();
+    content.replace(ASSET_REFERENCE_PATTERN, (match, fileName: string) => {
+      referenced.add(fileName);
+      return match;
+    });
+  }
+
+  const unused: string[] = [];
+  for await (const entry of assetsHandle.values()) {
+    if (entry.kind === 'file' && GENERATED_ASSET_PATTERN.test(entry.name) && !referenced.has(entry.name)) {
+      unused.push(entry.name);
+    }
+  }
+
+  for (const fileName of unused) {
+    await assetsHandle.removeEntry(fileName);
+  }
+  return unused.length;
+};
@@ -0,0 +1,307 @@
+import { Node as FlowNode, Edge, Viewport, Position, getBezierPath, getRectOfNodes } from 'reactflow';
+import { MindMapNode } from '../types/MindMap';
+import { NODE_WIDTH, NODE_HEIGHT } from './mindMapConverter';
+import { htmlToPlainText, escapeHtml } from './htmlUtils';
+import {
+  getPriorityColor,
+  getStatusColor,
+  getDueDateStatus,
+  getDueDateColor,
+  formatShortDate,
+  getTagColor,
+  MAX_VISIBLE_TAGS,
+} from './nodeStyles';
+import { getCollapseState } from './nodeCollapse';
+import { NodeProgress, getProgressMap, getProgressPercent } from './nodeProgress';
+
+// 图片导出选项
+export interface ImageExportOptions {
+  // 导出整个思维导图或只导出当前可见区域
+  scope: 'all' | 'viewport';
+  background: 'white' | 'transparent';
+  // 缩放倍数，PNG 图片的像素尺寸随之放大
+  scale: number;
+}
+
+// 当前视图信息，导出可见区域时使用
+export interface ViewportRect {
+  viewport: Viewport;
+  width: number;
+  height: number;
+}
+
+// 渲染结果，width 和 height 为图片的像素尺寸
+export interface RenderedImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// 导出整个思维导图时四周的留白
+const IMAGE_PADDING = 20;
+
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+const HANDLE_POSITIONS: Record<string, Position> = {
+  top: Position.Top,
+  bottom: Position.Bottom,
+  left: Position.Left,
+  right: Position.Right,
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// 获取用于测量文本宽度的画布
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  return measureContext;
+};
+
+// 测量文本宽度，无法测量时按字数估算
+const measureText = (text: string, font: string): number => {
+  const context = getMeasureContext();
+  if (!context) return text.length * 8;
+
+  context.font = font;
+  return context.measureText(text).width;
+};
+
+// 按宽度截断文本，超出时添加省略号
+const truncateText = (text: string, maxWidth: number, font: string): string => {
+  const context = getMeasureContext();
+  if (!context) return text;
+
+  context.font = font;
+  if (context.measureText(text).width <= maxWidth) return text;
+
+  let end = text.length;
+  while (end > 0 && context.measureText(`${text.slice(0, end)}...`).width > maxWidth) {
+    end -= 1;
+  }
+  return `${text.slice(0, end)}...`;
+};
+
+// 获取节点尺寸，未测量时使用默认尺寸
+const getNodeSize = (node: FlowNode) => ({
+  width: node.width || NODE_WIDTH,
+  height: node.height || NODE_HEIGHT,
+});
+
+// 计算连接点在画布中的坐标
+const getHandlePoint = (node: FlowNode, position: Position) => {
+  const { width, height } = getNodeSize(node);
+  const { x, y } = node.positionAbsolute || node.position;
+
+  switch (position) {
+    case Position.Top:
+      return { x: x + width / 2, y };
+    case Position.Bottom:
+      return { x: x + width / 2, y: y + height };
+    case Position.Left:
+      return { x, y: y + height / 2 };
+    default:
+      return { x: x + width, y: y + height / 2 };
+  }
+};
+
+// 渲染连线及其文字，与 CustomEdge 的样式一致
+const renderEdge = (edge: Edge, nodeMap: Map<string, FlowNode>): string => {
+  const source = nodeMap.get(edge.source);
+  const target = nodeMap.get(edge.target);
+  if (!source || !target || edge.hidden || source.hidden || target.hidden) return '';
+
+  const sourcePosition = HANDLE_POSITIONS[edge.sourceHandle || ''] || Position.Right;
+  const targetPosition = HANDLE_POSITIONS[edge.targetHandle || ''] || Position.Left;
+  const sourcePoint = getHandlePoint(source, sourcePosition);
+  const targetPoint = getHandlePoint(target, targetPosition);
+
+  const [edgePath, labelX, labelY] = getBezierPath({
+    sourceX: sourcePoint.x,
+    sourceY: sourcePoint.y,
+    sourcePosition,
+    targetX: targetPoint.x,
+    targetY: targetPoint.y,
+    targetPosition,
+    curvature: 0.25,
+  });
+
+  let svg = `<path d="${edgePath}" fill="none" stroke="#b1b1b7" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>`;
+
+  const label = edge.data && edge.data.label ? String(edge.data.label) : '';
+  if (label) {
+    const text = truncateText(label, 74, `9px ${FONT_FAMILY}`);
+    svg += `<text x="${labelX}" y="${labelY}" font-size="9" fill="#666" text-anchor="middle" dominant-baseline="central">${escapeHtml(text)}</text>`;
+  }
+  return svg;
+};
+
+// 渲染节点，与 CustomNode 的样式一致，hiddenCount 为折叠时隐藏的后代数量，progress 为子任务进度
+const renderNode = (node: FlowNode, hiddenCount: number, progress?: NodeProgress): string => {
+  const nodeData: MindMapNode = node.data.nodeData || {};
+  const { width, height } = getNodeSize(node);
+  const { x, y } = node.positionAbsolute || node.position;
+  const contentWidth = width - 16;
+  // 子任务进度位于节点最下方，其上的内容随之上移
+  const progressHeight = progress ? 13 : 0;
+
+  let svg = `<g transform="translate(${x}, ${y})">`;
+  svg += `<rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" rx="4" fill="#fff" stroke="#ddd"/>`;
+
+  // 标题
+  let lineY = 6;
+  const title = truncateText(nodeData.title || '', contentWidth, `bold 11px ${FONT_FAMILY}`);
+  svg += `<text x="${width / 2}" y="${lineY + 11}" font-size="11" font-weight="bold" fill="#333" text-anchor="middle">${escapeHtml(title)}</text>`;
+  lineY += 17;
+
+  // 描述摘要
+  const description = htmlToPlainText(nodeData.description || '').replace(/\s+/g, ' ');
+  if (description) {
+    const summary = truncateText(description, contentWidth, `9px ${FONT_FAMILY}`);
+    svg += `<text x="8" y="${lineY + 9}" font-size="9" fill="#666">${escapeHtml(summary)}</text>`;
+  }
+
+  // 标签位于底部一行的上方
+  const tags = nodeData.tags || [];
+  if (tags.length > 0) {
+    const tagFont = `8px ${FONT_FAMILY}`;
+    const tagY = height - 33 - progressHeight;
+    let tagX = 8;
+    tags.slice(0, MAX_VISIBLE_TAGS).forEach(tag => {
+      const text = truncateText(tag, 42, tagFont);
+      const tagWidth = Math.min(measureText(text, tagFont) + 6, 48);
+      if (tagX + tagWidth > width - 8) return;
+      const color = getTagColor(tag);
+      svg += `<rect x="${tagX}" y="${tagY}" width="${tagWidth}" height="12" rx="2" fill="${color}" fill-opacity="0.1"/>`;
+      svg += `<text x="${tagX + 3}" y="${tagY + 9}" font-size="8" fill="${color}">${escapeHtml(text)}</text>`;
+      tagX += tagWidth + 2;
+    });
+    if (tags.length > MAX_VISIBLE_TAGS && tagX < width - 16) {
+      svg += `<text x="${tagX}" y="${tagY + 9}" font-size="8" fill="#999">+${tags.length - MAX_VISIBLE_TAGS}</text>`;
+    }
+  }
+
+  // 优先级、状态和日期位于节点底部
+  const rowY = height - 11 - progressHeight;
+  let dotX = 11;
+  if (nodeData.priority) {
+    svg += `<circle cx="${dotX}" cy="${rowY}" r="3" fill="${getPriorityColor(nodeData.priority)}"/>`;
+    dotX += 9;
+  }
+  if (nodeData.status) {
+    svg += `<circle cx="${dotX}" cy="${rowY}" r="3" fill="${getStatusColor(nodeData.status)}"/>`;
+  }
+
+  const startDate = nodeData.start_date ? new Date(nodeData.start_date) : null;
+  const dueDate = nodeData.due_date ? new Date(nodeData.due_date) : null;
+  if (startDate || dueDate) {
+    const dueColor = getDueDateColor(getDueDateStatus(dueDate)) || '#999';
+    svg += `<text x="${width - 8}" y="${rowY}" font-size="8" fill="#999" text-anchor="end" dominant-baseline="central">`;
+    if (startDate) {
+      svg += `<tspan>${formatShortDate(startDate)}</tspan>`;
+    }
+    if (startDate && dueDate) {
+      svg += '<tspan> - </tspan>';
+    }
+    if (dueDate) {
+      svg += `<tspan fill="${dueColor}">${formatShortDate(dueDate)}</tspan>`;
+    }
+    svg += '</text>';
+  }
+
+  // 子任务进度条和完成数量
+  if (progress) {
+    const progressText = `${progress.done}/${progress.total}`;
+    const barWidth = contentWidth - measureText(progressText, `8px ${FONT_FAMILY}`) - 3;
+    const barY = height - 11;
+    svg += `<rect x="8" y="${barY}" width="${barWidth}" height="3" rx="1.5" fill="#f0f0f0"/>`;
+    svg += `<rect x="8" y="${barY}" width="${(barWidth * getProgressPercent(progress)) / 100}" height="3" rx="1.5" fill="${getStatusColor('done')}"/>`;
+    svg += `<text x="${width - 8}" y="${barY + 1.5}" font-size="8" fill="#999" text-anchor="end" dominant-baseline="central">${progressText}</text>`;
+  }
+
+  // 折叠的节点在右下角显示隐藏的后代数量
+  if (nodeData.collapsed && hiddenCount > 0) {
+    const badgeText = `+${hiddenCount}`;
+    const badgeWidth = Math.max(14, measureText(badgeText, `9px ${FONT_FAMILY}`) + 6);
+    svg += `<rect x="${width + 7 - badgeWidth}" y="${height - 7}" width="${badgeWidth}" height="14" rx="7" fill="#1890ff"/>`;
+    svg += `<text x="${width + 7 - badgeWidth / 2}" y="${height}" font-size="9" fill="#fff" text-anchor="middle" dominant-baseline="central">${badgeText}</text>`;
+  }
+
+  return `${svg}</g>`;
+};
+
+// 将画布上的节点和连线渲染为 SVG，被折叠或筛选隐藏的节点不导出
+export const renderCanvasToSvg = (
+  nodes: FlowNode[],
+  edges: Edge[],
+  options: ImageExportOptions,
+  viewportRect?: ViewportRect
+): RenderedImage => {
+  // 计算导出区域（画布坐标）和输出尺寸
+  let bounds: { x: number; y: number; width: number; height: number };
+  let zoom = 1;
+
+  if (options.scope === 'viewport' && viewportRect) {
+    const { viewport, width, height } = viewportRect;
+    zoom = viewport.zoom;
+    bounds = {
+      x: -viewport.x / zoom,
+      y: -viewport.y / zoom,
+      width: width / zoom,
+      height: height / zoom,
+    };
+  } else {
+    const visibleNodes = nodes.filter(node => !node.hidden);
+    const rect = getRectOfNodes(visibleNodes.map(node => ({ ...node, ...getNodeSize(node) })));
+    bounds = {
+      x: rect.x - IMAGE_PADDING,
+      y: rect.y - IMAGE_PADDING,
+      width: rect.width + IMAGE_PADDING * 2,
+      height: rect.height + IMAGE_PADDING * 2,
+    };
+  }
+
+  const width = Math.max(1, Math.round(bounds.width * zoom * options.scale));
+  const height = Math.max(1, Math.round(bounds.height * zoom * options.scale));
+
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const { hiddenCounts } = getCollapseState(
+    nodes.map(node => ({ id: node.id, collapsed: node.data.nodeData?.collapsed })),
+    edges
+  );
+  const progressMap = getProgressMap(nodes.map(node => ({ id: node.id, status: node.data.nodeData?.status })), edges);
+  const background = options.background === 'white'
+    ? `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="#fff"/>`
+    : '';
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" `
+    + `viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="${FONT_FAMILY}">`
+    + background
+    + `<g>${edges.map(edge => renderEdge(edge, nodeMap)).join('')}</g>`
+    + `<g>${nodes.filter(node => !node.hidden).map(node => renderNode(node, hiddenCounts.get(node.id) || 0, progressMap.get(node.id))).join('')}</g>`
+    + '</svg>';
+
+  return { svg, width, height };
+};
+
+// 将 SVG 绘制到画布上并转换为 PNG
+export const svgToPngBlob = (image: RenderedImage): Promise<Blob> => {
+  return new Promise<Blob>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('无法创建画布'));
+        return;
+      }
+      context.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('生成PNG图片失败'))), 'image/png');
+    };
+    img.onerror = () => reject(new Error('加载SVG图片失败'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+};
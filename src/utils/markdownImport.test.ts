@@ -0,0 +1,37 @@
+import { MindMapNode } from '../types/MindMap';
+import { convertToMarkdown } from './fileUtils';
+import { parseMarkdown } from './markdownImport';
+import { createData, createNode } from './testHelpers';
+
+// 只保留标题、字段和层级，忽略导入时生成的ID
+const simplify = (nodes: MindMapNode[] = []): unknown[] =>
+  nodes.map(({ title, status, priority, due_date, tags, description, children }) => ({
+    title, status, priority, due_date, tags, description, children: simplify(children),
+  }));
+
+describe('parseMarkdown', () => {
+  it('旧版导出文件中的HTML描述按白名单清理', () => {
+    const markdown = '# 思维导图导出\n\n## 主题\n\n### 节点\n\n**描述**:\n\n'
+      + '<p>说明<img src="x" onerror="alert(1)"></p><script>alert(1)</script><a href="javascript:alert(1)">链接</a>\n';
+    const [node] = parseMarkdown(markdown).mindMaps[0].children || [];
+    expect(node.description).toBe('<p>说明<img src="x"></p><a>链接</a>');
+  });
+
+  it('导出超过六级标题的节点后再导入保留层级和字段', () => {
+    // 每个节点都是上一个节点的子节点，共7层，第7层有两个子节点
+    let deepest = [createNode('n7', '第7层', { status: 'done', tags: ['深'] }), createNode('n8', '第7层兄弟')];
+    for (let level = 6; level >= 1; level -= 1) {
+      deepest = [createNode(`n${level}`, `第${level}层`, {
+        priority: level % 2 === 0 ? 'high' : undefined,
+        status: level === 6 ? 'in_progress' : undefined,
+        due_date: level === 5 ? '2024-05-01' : undefined,
+        description: level >= 5 ? `<p>描述${level}</p>` : undefined,
+        children: deepest,
+      })];
+    }
+    const data = createData(deepest);
+
+    const imported = parseMarkdown(convertToMarkdown(data));
+    expect(simplify(imported.mindMaps[0].children)).toEqual(simplify(data.mindMaps[0].children));
+  });
+});
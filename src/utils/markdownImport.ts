@@ -0,0 +1,332 @@
+import { MindMapData, MindMapNode, MindMapTheme } from '../types/MindMap';
+import { sanitizeHtml } from './htmlUtils';
+import { createTheme } from './mindMapConverter';
+import { extractReferences, markdownToHtml } from './markdownUtils';
+
+// convertToMarkdown 导出文件的标题
+const EXPORT_TITLE = '思维导图导出';
+
+// 标题、列表项和元数据行的匹配规则
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const META_PATTERN = /^\s*[-*+]\s+\*\*(.+?)\*\*\s*[:：]\s*(.*)$/;
+const DESCRIPTION_PATTERN = /^\*\*描述\*\*\s*[:：]\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}/;
+
+const PRIORITY_VALUES: Record<string, MindMapNode['priority']> = {
+  '高': 'high',
+  '中': 'medium',
+  '低': 'low',
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+};
+
+const STATUS_VALUES: Record<string, MindMapNode['status']> = {
+  '待办': 'todo',
+  '进行中': 'in_progress',
+  '已完成': 'done',
+  todo: 'todo',
+  in_progress: 'in_progress',
+  done: 'done',
+};
+
+// 在文本中查找映射表中的值，忽略前面的表情符号
+const matchValue = <T>(text: string, values: Record<string, T>): T | undefined => {
+  const key = Object.keys(values).find(item => text.split(/\s+/).includes(item));
+  return key ? values[key] : undefined;
+};
+
+// 解析导出时使用 toLocaleString 格式化的时间
+const parseDateTime = (text: string): string | undefined => {
+  const date = new Date(text.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// 行首缩进的宽度，制表符按4个空格计算
+const getIndent = (line: string): number => (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+
+// 将描述文本转换为编辑器使用的HTML，旧版导出文件中的描述本身就是HTML，按白名单清理后使用
+const toDescriptionHtml = (lines: string[], references: Map<string, string>): string => {
+  const text = lines.join('\n').trim();
+  return text.startsWith('<') ? sanitizeHtml(text) : markdownToHtml(text, references);
+};
+
+// 解析中的节点，记录描述文本
+interface ParsingNode {
+  node: MindMapNode;
+  descriptionLines: string[];
+}
+
+// 将Markdown标题和嵌套列表转换为思维导图数据
+export const parseMarkdown = (markdown: string, defaultTitle: string = '思维导图'): MindMapData => {
+  // 导出时描述中的图片以引用定义的形式放在文件末尾
+  const { lines, references } = extractReferences(markdown.replace(/\r\n?/g, '\n').split('\n'));
+  const themes: MindMapTheme[] = [];
+  const parsingNodes: ParsingNode[] = [];
+  let nodeCounter = 0;
+
+  // 代码块之外的标题
+  let fenced = false;
+  const headings = lines.filter(line => {
+    if (FENCE_PATTERN.test(line)) fenced = !fenced;
+    return !fenced && HEADING_PATTERN.test(line);
+  });
+  const firstHeading = headings[0]?.match(HEADING_PATTERN);
+
+  // convertToMarkdown 导出的文件：二级标题为主题，三级及以下标题为节点
+  const isExportFormat = !!firstHeading && firstHeading[1].length === 1 && firstHeading[2] === EXPORT_TITLE;
+  // 普通文档：只有一个一级标题且位于开头时，将其作为主题名称
+  const h1Count = headings.filter(line => /^#\s/.test(line)).length;
+  const useH1AsTitle = !isExportFormat && !!firstHeading && firstHeading[1].length === 1 && h1Count === 1;
+
+  let currentTheme: MindMapTheme | null = null;
+  let headingStack: { level: number; item: ParsingNode }[] = [];
+  let listStack: { indent: number; item: ParsingNode }[] = [];
+  // 节点后紧跟的元数据列表，列表项的元数据缩进在列表项之下，标题的缩进记为 -1
+  let metaTarget: { indent: number; item: ParsingNode } | null = null;
+  // 描述的读取状态：pending 表示尚未遇到内容，quote 为引用块格式，raw 为旧版导出的HTML
+  let descriptionMode: 'none' | 'pending' | 'quote' | 'raw' = 'none';
+  let descriptionTarget: ParsingNode | undefined;
+  let readingThemeInfo = false;
+  let inCodeFence = false;
+
+  const startTheme = (title: string) => {
+    currentTheme = createTheme(title);
+    themes.push(currentTheme);
+    headingStack = [];
+    listStack = [];
+    metaTarget = null;
+    descriptionMode = 'none';
+    readingThemeInfo = false;
+  };
+
+  const getTheme = (): MindMapTheme => {
+    if (!currentTheme) {
+      startTheme(defaultTitle);
+    }
+    return currentTheme!;
+  };
+
+  const createNode = (title: string, parent?: ParsingNode): ParsingNode => {
+    nodeCounter += 1;
+    const node: MindMapNode = {
+      id: `node-${Date.now()}-${nodeCounter}`,
+      title: title.trim() || '无标题',
+      created_at: new Date().toISOString(),
+      children: [],
+    };
+    const item: ParsingNode = { node, descriptionLines: [] };
+    parsingNodes.push(item);
+
+    if (parent) {
+      parent.node.children!.push(node);
+    } else {
+      const theme = getTheme();
+      theme.children = [...(theme.children || []), node];
+    }
+    return item;
+  };
+
+  // 将元数据行写入节点，不是元数据时返回 false
+  const applyMeta = (node: MindMapNode, key: string, value: string): boolean => {
+    switch (key) {
+      case '优先级':
+        node.priority = matchValue(value, PRIORITY_VALUES);
+        return true;
+      case '状态':
+        node.status = matchValue(value, STATUS_VALUES);
+        return true;
+      case '开始日期':
+        node.start_date = value.match(DATE_PATTERN)?.[0];
+        return true;
+      case '截止日期':
+        node.due_date = value.match(DATE_PATTERN)?.[0];
+        return true;
+      case '标签': {
+        const tags = value.split(/[,，、]/).map(tag => tag.trim()).filter(Boolean);
+        node.tags = tags.length > 0 ? tags : undefined;
+        return true;
+      }
+      case '创建时间':
+        node.created_at = parseDateTime(value) || node.created_at;
+        return true;
+      // 进度由子节点的状态计算，导入时忽略
+      case '进度':
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // 将主题信息行写入主题
+  const applyThemeInfo = (theme: MindMapTheme, key: string, value: string) => {
+    switch (key) {
+      case '开始日期':
+        theme.start_date = value.match(DATE_PATTERN)?.[0];
+        break;
+      case '截止日期':
+        theme.due_date = value.match(DATE_PATTERN)?.[0];
+        break;
+      case '创建时间':
+        theme.created_at = parseDateTime(value) || theme.created_at;
+        break;
+      case '更新时间':
+        theme.updated_at = parseDateTime(value);
+        break;
+    }
+  };
+
+  // 移除缩进不小于当前行的列表项，返回当前行所属的列表项
+  const popListStack = (indent: number): ParsingNode | undefined => {
+    while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+      listStack.pop();
+    }
+    return listStack[listStack.length - 1]?.item;
+  };
+
+  lines.forEach(line => {
+    // 代码块中的内容全部作为描述
+    if (FENCE_PATTERN.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+    const headingMatch = inCodeFence ? null : line.match(HEADING_PATTERN);
+
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      const title = headingMatch[2];
+      listStack = [];
+      descriptionMode = 'none';
+      readingThemeInfo = false;
+
+      if (isExportFormat) {
+        if (level === 1) return;
+        if (level === 2) {
+          startTheme(title);
+          return;
+        }
+        if (level === 3 && title === '主题信息' && headingStack.length === 0) {
+          readingThemeInfo = true;
+          return;
+        }
+      } else if (useH1AsTitle && level === 1) {
+        startTheme(title);
+        return;
+      }
+
+      // 按标题级别确定父节点
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      const parent = headingStack[headingStack.length - 1]?.item;
+      const item = createNode(title, parent);
+      headingStack.push({ level, item });
+      metaTarget = { indent: -1, item };
+      return;
+    }
+
+    const currentHeading = headingStack[headingStack.length - 1]?.item;
+
+    if (descriptionMode === 'pending') {
+      if (!line.trim()) return;
+      descriptionMode = QUOTE_PATTERN.test(line) ? 'quote' : 'raw';
+    }
+
+    // 引用块格式的描述在第一个非引用行结束
+    if (descriptionMode === 'quote') {
+      if (QUOTE_PATTERN.test(line)) {
+        descriptionTarget?.descriptionLines.push(line.replace(QUOTE_PATTERN, ''));
+        return;
+      }
+      descriptionMode = 'none';
+    }
+
+    if (descriptionMode === 'raw' || inCodeFence) {
+      const target = descriptionMode === 'raw' ? descriptionTarget : listStack[listStack.length - 1]?.item || currentHeading;
+      target?.descriptionLines.push(line);
+      return;
+    }
+
+    if (!line.trim()) {
+      // 空行保留在描述中，用于区分段落
+      const target = listStack[listStack.length - 1]?.item || currentHeading;
+      if (target && target.descriptionLines.length > 0) {
+        target.descriptionLines.push('');
+      }
+      return;
+    }
+
+    // 主题信息
+    const metaMatch = line.match(META_PATTERN);
+    if (readingThemeInfo) {
+      if (metaMatch) {
+        applyThemeInfo(getTheme(), metaMatch[1], metaMatch[2]);
+      }
+      return;
+    }
+
+    // 节点后紧跟的元数据行
+    const lineIndent = getIndent(line);
+    if (metaTarget && metaMatch && lineIndent > metaTarget.indent && applyMeta(metaTarget.item.node, metaMatch[1], metaMatch[2])) {
+      return;
+    }
+    metaTarget = null;
+
+    // 描述属于缩进在其之上的列表项，否则属于标题
+    if (DESCRIPTION_PATTERN.test(line.trim())) {
+      const owner = popListStack(lineIndent) || currentHeading;
+      if (owner) {
+        descriptionTarget = owner;
+        descriptionMode = 'pending';
+        return;
+      }
+    }
+
+    // 列表项，按缩进确定父节点
+    const listMatch = line.match(LIST_ITEM_PATTERN);
+    if (listMatch) {
+      const parent = popListStack(lineIndent) || currentHeading;
+
+      // 任务列表项对应节点状态
+      let title = listMatch[2];
+      let status: MindMapNode['status'];
+      const taskMatch = title.match(TASK_PATTERN);
+      if (taskMatch) {
+        status = taskMatch[1] === ' ' ? 'todo' : 'done';
+        title = taskMatch[2];
+      }
+
+      const item = createNode(title, parent);
+      if (status) {
+        item.node.status = status;
+      }
+      listStack.push({ indent: lineIndent, item });
+      metaTarget = { indent: lineIndent, item };
+      return;
+    }
+
+    // 普通段落：缩进在列表项之下时属于该列表项，否则结束列表
+    const target = popListStack(lineIndent) || currentHeading;
+    target?.descriptionLines.push(line.trim());
+  });
+
+  // 写入描述并移除空的子节点数组
+  parsingNodes.forEach(({ node, descriptionLines }) => {
+    const description = toDescriptionHtml(descriptionLines, references);
+    if (description) {
+      node.description = description;
+    }
+    if (node.children && node.children.length === 0) {
+      delete node.children;
+    }
+  });
+
+  if (themes.length === 0) {
+    themes.push(createTheme(defaultTitle));
+  }
+
+  return { mindMaps: themes };
+};
@@ -0,0 +1,45 @@
+import { createImageCollector, htmlToMarkdown, markdownToHtml, renderImageDefinitions } from './markdownUtils';
+
+describe('htmlToMarkdown', () => {
+  it('转换标题、强调、链接和列表', () => {
+    const html = '<h2>标题</h2><p><strong>粗体</strong> 和 <em>斜体</em> <a href="https://example.com">链接</a></p>'
+      + '<ul><li>一</li><li>二</li></ul><ol start="3"><li>三</li></ol>';
+    expect(htmlToMarkdown(html)).toBe('## 标题\n\n**粗体** 和 *斜体* [链接](https://example.com)\n\n- 一\n- 二\n\n3. 三');
+  });
+
+  it('转义段落行首的块级标记', () => {
+    expect(htmlToMarkdown('<p>1. not a list</p>')).toBe('1\\. not a list');
+    expect(htmlToMarkdown('<p>2) not a list</p>')).toBe('2\\) not a list');
+    expect(htmlToMarkdown('<p># not heading</p>')).toBe('\\# not heading');
+    expect(htmlToMarkdown('<p>- a</p><p>+ b</p><p>* c</p><p>&gt; d</p>')).toBe('\\- a\n\n\\+ b\n\n\\* c\n\n\\> d');
+    expect(htmlToMarkdown('<p>第一行<br>1. 第二行</p>')).toBe('第一行\\\n1\\. 第二行');
+  });
+
+  it('转义后的段落转换回HTML时仍是段落', () => {
+    ['1. not a list', '# not heading', '- item', '+ item', '* item', '> quote'].forEach(text => {
+      expect(markdownToHtml(htmlToMarkdown(`<p>${text.replace('>', '&gt;')}</p>`))).toBe(`<p>${text.replace('>', '&gt;')}</p>`);
+    });
+  });
+
+  it('内嵌图片使用引用并放在文档末尾', () => {
+    const collector = createImageCollector();
+    const markdown = htmlToMarkdown('<p><img src="data:image/png;base64,AAAA" alt="图"></p>', collector);
+    expect(markdown).toBe('![图][image-1]');
+    expect(renderImageDefinitions(collector)).toBe('[image-1]: data:image/png;base64,AAAA');
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('转换任务列表为编辑器的待办格式', () => {
+    expect(markdownToHtml('- [x] 完成\n- [ ] 待办')).toBe(
+      '<div data-w-e-type="todo"><input type="checkbox" disabled checked>完成</div>'
+      + '<div data-w-e-type="todo"><input type="checkbox" disabled >待办</div>'
+    );
+  });
+
+  it('不安全协议的链接和图片只保留文字', () => {
+    expect(markdownToHtml('[链接](javascript:alert%281%29) [邮件](mailto:a@example.com) ![图](vbscript:x)')).toBe(
+      '<p>链接 <a href="mailto:a@example.com" target="_blank">邮件</a> 图</p>'
+    );
+  });
+});
@@ -0,0 +1,507 @@
+import { escapeHtml, isSafeUrl } from './htmlUtils';
+
+// 收集描述中的内嵌图片（data URL），导出时以引用形式放在文档末尾，正文保持简洁
+export interface MarkdownImageCollector {
+  // 图片地址到引用名称的映射
+  images: Map<string, string>;
+}
+
+export const createImageCollector = (): MarkdownImageCollector => ({ images: new Map() });
+
+// 生成图片引用定义，如 [image-1]: data:image/png;base64,...
+export const renderImageDefinitions = (collector: MarkdownImageCollector): string =>
+  Array.from(collector.images.entries())
+    .map(([src, label]) => `[${label}]: ${src}`)
+    .join('\n');
+
+// 块级元素
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'UL', 'OL', 'LI', 'PRE', 'BLOCKQUOTE', 'TABLE', 'HR',
+]);
+
+// 转义Markdown中有特殊含义的字符
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+// 转义行首的标题、列表和引用标记，避免段落中的文字被当作块级元素（* 已由 escapeMarkdown 转义）
+const escapeLineStart = (line: string): string =>
+  line.replace(/^(\d+)([.)])/, '$1\\$2').replace(/^([#>+-])/, '\\$1');
+
+// 使用比内容中最长的反引号串更长的反引号包裹代码
+const longestBacktickRun = (text: string): number => {
+  const runs: string[] = text.match(/`+/g) || [];
+  return runs.reduce((max, run) => Math.max(max, run.length), 0);
+};
+
+// 给多行文本的后续行添加缩进
+const indentLines = (text: string, indent: string, firstIndent: string = ''): string =>
+  text
+    .split('\n')
+    .map((line, index) => (index === 0 ? firstIndent + line : line ? indent + line : line))
+    .join('\n');
+
+// 将HTML转换为Markdown，collector 用于收集内嵌图片
+export const htmlToMarkdown = (html: string, collector?: MarkdownImageCollector): string => {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const isBlock = (node: Node) =>
+    node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+  // 图片：内嵌图片使用引用，其他图片直接写地址
+  const imageToMarkdown = (img: Element): string => {
+    const src = img.getAttribute('src') || '';
+    const alt = escapeMarkdown(img.getAttribute('alt') || '');
+    if (!src) return '';
+
+    if (collector && src.startsWith('data:')) {
+      let label = collector.images.get(src);
+      if (!label) {
+        label = `image-${collector.images.size + 1}`;
+        collector.images.set(src, label);
+      }
+      return `![${alt}][${label}]`;
+    }
+    return `![${alt}](${src.replace(/ /g, '%20')})`;
+  };
+
+  // 行内内容
+  const inlineToMarkdown = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const content = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+
+    // 强调标记不能以空格开头或结尾，将空格移到标记外
+    const wrap = (marker: string) => {
+      const text = content();
+      const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+    };
+
+    switch (element.tagName) {
+      case 'BR':
+        return '\\\n';
+      case 'STRONG':
+      case 'B':
+        return wrap('**');
+      case 'EM':
+      case 'I':
+        return wrap('*');
+      case 'S':
+      case 'DEL':
+      case 'STRIKE':
+        return wrap('~~');
+      case 'CODE': {
+        const code = element.textContent || '';
+        const fence = '`'.repeat(longestBacktickRun(code) + 1);
+        return code.startsWith('`') || code.endsWith('`') ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+      }
+      case 'A': {
+        const href = element.getAttribute('href') || '';
+        const text = content() || escapeMarkdown(href);
+        if (!href) return text;
+        const title = element.getAttribute('title');
+        return `[${text}](${href.replace(/ /g, '%20')}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+      }
+      case 'IMG':
+        return imageToMarkdown(element);
+      case 'INPUT':
+        return '';
+      default:
+        return content();
+    }
+  };
+
+  // 将一组子节点转换为块级内容，连续的行内节点合并为一个段落
+  const childrenToBlocks = (nodes: Node[]): string[] => {
+    const blocks: string[] = [];
+    let paragraph: Node[] = [];
+
+    const flush = () => {
+      // 去掉段落首尾的换行
+      const text = paragraph
+        .map(inlineToMarkdown)
+        .join('')
+        .replace(/^ +| +$/gm, '')
+        .replace(/^(\\\n)+|(\\\n)+$/g, '')
+        .trim()
+        .split('\n')
+        .map(escapeLineStart)
+        .join('\n');
+      if (text && text !== '\\') {
+        blocks.push(text);
+      }
+      paragraph = [];
+    };
+
+    nodes.forEach(node => {
+      if (isBlock(node)) {
+        flush();
+        const block = blockToMarkdown(node as Element);
+        if (block) blocks.push(block);
+      } else {
+        paragraph.push(node);
+      }
+    });
+    flush();
+    return blocks;
+  };
+
+  const listToMarkdown = (list: Element): string => {
+    const ordered = list.tagName === 'OL';
+    let number = Number(list.getAttribute('start')) || 1;
+
+    return Array.from(list.children)
+      .filter(child => child.tagName === 'LI')
+      .map(item => {
+        const marker = ordered ? `${number++}. ` : '- ';
+        const checkbox = item.querySelector(':scope > input[type="checkbox"]');
+        const task = checkbox ? `[${(checkbox as HTMLInputElement).checked || checkbox.hasAttribute('checked') ? 'x' : ' '}] ` : '';
+        const content = childrenToBlocks(Array.from(item.childNodes)).join('\n\n');
+        return indentLines(`${task}${content}`, ' '.repeat(marker.length), marker);
+      })
+      .join('\n');
+  };
+
+  const tableToMarkdown = (table: Element): string => {
+    const rows = Array.from(table.querySelectorAll('tr'));
+    if (rows.length === 0) return '';
+
+    const cellText = (cell: Element) =>
+      Array.from(cell.childNodes)
+        .map(inlineToMarkdown)
+        .join('')
+        .replace(/\\\n/g, '<br>')
+        .replace(/\|/g, '\\|')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    const cells = rows.map(row => Array.from(row.children).map(cellText));
+    const columnCount = Math.max(...cells.map(row => row.length));
+    const renderRow = (row: string[]) =>
+      `| ${Array.from({ length: columnCount }, (_, index) => row[index] || '').join(' | ')} |`;
+
+    // 第一行作为表头
+    const [header, ...body] = cells;
+    return [
+      renderRow(header),
+      `| ${Array.from({ length: columnCount }, () => '---').join(' | ')} |`,
+      ...body.map(renderRow),
+    ].join('\n');
+  };
+
+  const blockToMarkdown = (element: Element): string => {
+    switch (element.tagName) {
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = Array.from(element.childNodes).map(inlineToMarkdown).join('').replace(/\\\n/g, ' ').trim();
+        return text ? `${'#'.repeat(Number(element.tagName[1]))} ${text}` : '';
+      }
+      case 'UL':
+      case 'OL':
+        return listToMarkdown(element);
+      case 'PRE': {
+        const codeElement = element.querySelector('code') || element;
+        const language = (codeElement.className.match(/language-([\w+#-]+)/) || [])[1] || '';
+        const code = (codeElement.textContent || '').replace(/\n$/, '');
+        const fence = '`'.repeat(Math.max(3, longestBacktickRun(code) + 1));
+        return `${fence}${language}\n${code}\n${fence}`;
+      }
+      case 'BLOCKQUOTE':
+        return childrenToBlocks(Array.from(element.childNodes))
+          .join('\n\n')
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n');
+      case 'TABLE':
+        return tableToMarkdown(element);
+      case 'HR':
+        return '---';
+      case 'DIV': {
+        // 编辑器的待办事项
+        if (element.getAttribute('data-w-e-type') === 'todo') {
+          const checkbox = element.querySelector('input[type="checkbox"]');
+          const checked = !!checkbox && ((checkbox as HTMLInputElement).checked || checkbox.hasAttribute('checked'));
+          const text = Array.from(element.childNodes).map(inlineToMarkdown).join('').trim();
+          return `- [${checked ? 'x' : ' '}] ${text}`;
+        }
+        return childrenToBlocks(Array.from(element.childNodes)).join('\n\n');
+      }
+      default:
+        return childrenToBlocks(Array.from(element.childNodes)).join('\n\n');
+    }
+  };
+
+  return childrenToBlocks(Array.from(doc.body.childNodes))
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// 图片和链接的引用定义，如 [image-1]: data:image/png;base64,...
+export const REFERENCE_DEFINITION_PATTERN = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+"[^"]*")?\s*$/;
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// 将Markdown行内语法转换为HTML
+const inlineToHtml = (text: string, references: Map<string, string>): string => {
+  // 先取出代码和转义字符，避免被其他规则处理
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\uE000${placeholders.push(html) - 1}\uE000`;
+
+  let result = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => hold(`<code>${escapeHtml(code.replace(/^ (.*) $/, '$1'))}</code>`))
+    .replace(/\\([\\`*_[\]{}()#+\-.!~|>])/g, (_, char: string) => hold(escapeHtml(char)));
+
+  result = escapeHtml(result);
+
+  const resolve = (label: string) => references.get(label.toLowerCase());
+
+  result = result
+    // 图片，地址的协议不安全时只保留替代文本
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;(.*?)&quot;)?\)/g, (_, alt: string, src: string, title?: string) =>
+      (isSafeUrl(src, true) ? hold(`<img src="${src}" alt="${alt}"${title ? ` title="${title}"` : ''}/>`) : alt))
+    .replace(/!\[([^\]]*)\]\[([^\]]*)\]/g, (match, alt: string, label: string) => {
+      const src = resolve(label || alt);
+      if (!src) return match;
+      return isSafeUrl(src, true) ? hold(`<img src="${escapeHtml(src)}" alt="${alt}"/>`) : alt;
+    })
+    // 链接，只允许 http(s)、mailto 和相对地址，其他协议只保留文字
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;(.*?)&quot;)?\)/g, (_, label: string, href: string, title?: string) =>
+      (isSafeUrl(href) ? `<a href="${href}"${title ? ` title="${title}"` : ''} target="_blank">${label}</a>` : label))
+    .replace(/\[([^\]]+)\]\[([^\]]*)\]/g, (match, label: string, ref: string) => {
+      const href = resolve(ref || label);
+      if (!href) return match;
+      return isSafeUrl(href) ? `<a href="${escapeHtml(href)}" target="_blank">${label}</a>` : label;
+    })
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, '<a href="$1" target="_blank">$1</a>')
+    // 强调
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    // 换行
+    .replace(/(\\| {2,})\n/g, '<br>')
+    .replace(/\n/g, ' ');
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_, index: string) => placeholders[Number(index)]);
+};
+
+// 从文本中取出引用定义
+export const extractReferences = (lines: string[]): { lines: string[]; references: Map<string, string> } => {
+  const references = new Map<string, string>();
+  let inCodeFence = false;
+  const rest = lines.filter(line => {
+    if (/^\s*(```|~~~)/.test(line)) inCodeFence = !inCodeFence;
+    const match = !inCodeFence && line.match(REFERENCE_DEFINITION_PATTERN);
+    if (match) {
+      references.set(match[1].toLowerCase(), match[2]);
+      return false;
+    }
+    return true;
+  });
+  return { lines: rest, references };
+};
+
+// 将Markdown转换为编辑器使用的HTML
+export const markdownToHtml = (markdown: string, references?: Map<string, string>): string => {
+  const extracted = extractReferences(markdown.replace(/\r\n?/g, '\n').split('\n'));
+  const lines = extracted.lines;
+  const allReferences = new Map([...Array.from(extracted.references.entries()), ...Array.from((references || new Map()).entries())]);
+  const inline = (text: string) => inlineToHtml(text, allReferences);
+  const html: string[] = [];
+  let index = 0;
+
+  const isBlank = (line?: string) => line === undefined || line.trim() === '';
+  const getIndent = (line: string) => (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+
+  const isBlockStart = (line: string, next?: string) =>
+    /^\s*(```|~~~)/.test(line)
+    || /^#{1,6}\s/.test(line)
+    || /^\s*>/.test(line)
+    || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)
+    || LIST_ITEM_PATTERN.test(line)
+    || (line.includes('|') && !!next && TABLE_SEPARATOR_PATTERN.test(next));
+
+  // 解析列表，按缩进确定层级
+  const parseList = (baseIndent: number): string => {
+    const first = lines[index].match(LIST_ITEM_PATTERN)!;
+    const ordered = /\d/.test(first[2]);
+    const start = ordered ? parseInt(first[2], 10) : 1;
+    const items: { task?: boolean; html: string }[] = [];
+
+    while (index < lines.length) {
+      const match = lines[index].match(LIST_ITEM_PATTERN);
+      if (!match || getIndent(lines[index]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+      index += 1;
+
+      // 收集列表项的后续行，缩进更深的行属于该列表项
+      const contentIndent = baseIndent + match[0].length - match[0].trimStart().length + match[2].length + 1;
+      const itemLines = [match[3]];
+      while (index < lines.length) {
+        const line = lines[index];
+        if (isBlank(line)) {
+          if (!isBlank(lines[index + 1]) && getIndent(lines[index + 1]) > baseIndent) {
+            itemLines.push('');
+            index += 1;
+            continue;
+          }
+          break;
+        }
+        if (getIndent(line) <= baseIndent && (LIST_ITEM_PATTERN.test(line) || isBlockStart(line))) break;
+        itemLines.push(getIndent(line) >= contentIndent ? line.slice(contentIndent) : line.trimStart());
+        index += 1;
+      }
+
+      const taskMatch = itemLines[0].match(/^\[([ xX])\]\s+(.*)$/);
+      if (taskMatch) {
+        itemLines[0] = taskMatch[2];
+      }
+      const content = markdownToHtml(itemLines.join('\n'), allReferences);
+      // 只有一个段落时去掉段落标签，保持紧凑列表
+      const compact = content.replace(/^<p>([\s\S]*?)<\/p>/, (match, inner: string) =>
+        content.indexOf('<p>', 1) < 0 ? inner : match);
+      items.push({ task: taskMatch ? taskMatch[1] !== ' ' : undefined, html: compact });
+
+      // 列表之间的空行
+      if (isBlank(lines[index]) && lines[index + 1] !== undefined) {
+        const next = lines[index + 1].match(LIST_ITEM_PATTERN);
+        if (next && getIndent(lines[index + 1]) === baseIndent) index += 1;
+      }
+    }
+
+    // 全部为任务项时使用编辑器的待办格式
+    if (items.every(item => item.task !== undefined)) {
+      return items
+        .map(item => `<div data-w-e-type="todo"><input type="checkbox" disabled ${item.task ? 'checked' : ''}>${item.html}</div>`)
+        .join('');
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+    return `<${tag}${startAttribute}>${items.map(item => `<li>${item.html}</li>`).join('')}</${tag}>`;
+  };
+
+  // 拆分表格行，忽略转义的竖线
+  const splitTableRow = (line: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    const text = line.trim().replace(/^\|/, '');
+    for (let i = 0; i < text.length; i += 1) {
+      if (text[i] === '\\' && text[i + 1] === '|') {
+        cell += '\\|';
+        i += 1;
+      } else if (text[i] === '|') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += text[i];
+      }
+    }
+    if (cell.trim()) cells.push(cell);
+    return cells.map(item => item.trim());
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index += 1;
+      continue;
+    }
+
+    // 代码块
+    const fence = line.match(/^\s*(`{3,}|~{3,})\s*([\w+#-]*)/);
+    if (fence) {
+      const codeLines: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        codeLines.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      const language = fence[2] ? ` class="language-${fence[2]}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(codeLines.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    // 标题
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      html.push(`<h${heading[1].length}>${inline(heading[2])}</h${heading[1].length}>`);
+      index += 1;
+      continue;
+    }
+
+    // 分隔线
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      html.push('<hr/>');
+      index += 1;
+      continue;
+    }
+
+    // 引用
+    if (/^\s*>/.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && /^\s*>/.test(lines[index])) {
+        quoteLines.push(lines[index].replace(/^\s*> ?/, ''));
+        index += 1;
+      }
+      html.push(`<blockquote>${markdownToHtml(quoteLines.join('\n'), allReferences)}</blockquote>`);
+      continue;
+    }
+
+    // 列表
+    if (LIST_ITEM_PATTERN.test(line)) {
+      html.push(parseList(getIndent(line)));
+      continue;
+    }
+
+    // 表格
+    if (line.includes('|') && TABLE_SEPARATOR_PATTERN.test(lines[index + 1] || '')) {
+      const header = splitTableRow(line);
+      index += 2;
+      const rows: string[][] = [];
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        rows.push(splitTableRow(lines[index]));
+        index += 1;
+      }
+      const renderRow = (cells: string[], tag: string) =>
+        `<tr>${header.map((_, column) => `<${tag}>${inline(cells[column] || '').replace(/&lt;br&gt;/g, '<br>')}</${tag}>`).join('')}</tr>`;
+      html.push(`<table><tbody>${renderRow(header, 'th')}${rows.map(row => renderRow(row, 'td')).join('')}</tbody></table>`);
+      continue;
+    }
+
+    // 原样保留的HTML块
+    if (/^\s*<[a-zA-Z!/]/.test(line)) {
+      const blockLines: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        blockLines.push(lines[index]);
+        index += 1;
+      }
+      html.push(blockLines.join('\n'));
+      continue;
+    }
+
+    // 段落
+    const paragraph: string[] = [];
+    while (index < lines.length && !isBlank(lines[index]) && (paragraph.length === 0 || !isBlockStart(lines[index], lines[index + 1]))) {
+      paragraph.push(lines[index].replace(/^\s+/, ''));
+      index += 1;
+    }
+    html.push(`<p>${inline(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('');
+};
@@ -0,0 +1,57 @@
+import { MindMapNode } from '../types/MindMap';
+import { flowToTheme, themeToFlow } from './mindMapConverter';
+import { createNode, createTheme } from './testHelpers';
+
+// 只保留ID的节点树，便于比较结构
+const toIds = (nodes: MindMapNode[] = []): unknown[] =>
+  nodes.map(node => (node.children && node.children.length > 0 ? { [node.id]: toIds(node.children) } : node.id));
+
+describe('themeToFlow', () => {
+  it('使用保存的位置、连接点和视图', () => {
+    const theme = createTheme([createNode('a', 'a', { children: [createNode('b')] })], {
+      layout: {
+        nodes: { a: { x: 10, y: 20 }, b: { x: 200, y: 20 } },
+        edges: [{ id: 'e1', source: 'a', target: 'b', sourceHandle: 'bottom', targetHandle: 'top' }],
+        viewport: { x: 1, y: 2, zoom: 1.5 },
+      },
+    });
+    const flow = themeToFlow(theme);
+    expect(flow.hasLayout).toBe(true);
+    expect(flow.viewport).toEqual({ x: 1, y: 2, zoom: 1.5 });
+    expect(flow.nodes.map(node => node.position)).toEqual([{ x: 10, y: 20 }, { x: 200, y: 20 }]);
+    expect(flow.edges[0]).toMatchObject({ id: 'e1', sourceHandle: 'bottom', targetHandle: 'top' });
+  });
+
+  it('旧文件中重复出现的节点只创建一次，补充连线', () => {
+    const theme = createTheme([createNode('a', 'a', { children: [createNode('c')] }), createNode('b', 'b', { children: [createNode('c')] })]);
+    const flow = themeToFlow(theme);
+    expect(flow.hasLayout).toBe(false);
+    expect(flow.nodes.map(node => node.id)).toEqual(['a', 'c', 'b']);
+    expect(flow.edges.map(edge => `${edge.source}>${edge.target}`)).toEqual(['a>c', 'b>c']);
+  });
+});
+
+describe('flowToTheme', () => {
+  it('第二个父节点和环中的连线保存到 links，重新加载后连线不变', () => {
+    const theme = createTheme([createNode('a', 'a', { children: [createNode('b', 'b', { children: [createNode('c')] })] })], {
+      links: [{ id: 'l1', source: 'c', target: 'a', label: '返回' }, { id: 'l2', source: 'a', target: 'c' }],
+    });
+    const flow = themeToFlow(theme);
+    const saved = flowToTheme(flow.nodes, flow.edges, { id: theme.id, title: theme.title });
+    expect(toIds(saved.children)).toEqual([{ a: [{ b: ['c'] }] }]);
+    expect(saved.links).toEqual([
+      { id: 'l1', source: 'c', target: 'a', label: '返回' },
+      { id: 'l2', source: 'a', target: 'c', label: undefined },
+    ]);
+    const reloaded = themeToFlow(saved);
+    expect(reloaded.edges.map(edge => `${edge.source}>${edge.target}`).sort()).toEqual(['a>b', 'a>c', 'b>c', 'c>a']);
+  });
+
+  it('只存在于环中的节点取第一个作为根节点', () => {
+    const theme = createTheme([createNode('a', 'a', { children: [createNode('b')] })], { links: [{ source: 'b', target: 'a' }] });
+    const flow = themeToFlow(theme);
+    const saved = flowToTheme(flow.nodes, flow.edges, { id: theme.id, title: theme.title });
+    expect(toIds(saved.children)).toEqual([{ a: ['b'] }]);
+    expect(saved.links?.map(link => `${link.source}>${link.target}`)).toEqual(['b>a']);
+  });
+});
@@ -0,0 +1,300 @@
+import { Node as FlowNode, Edge, Viewport } from 'reactflow';
+import { MindMapData, MindMapNode, MindMapTheme, MindMapLink, MindMapLayout, MindMapEdgeLayout } from '../types/MindMap';
+import { SCHEMA_VERSION } from './mindMapSchema';
+
+// 节点尺寸
+export const NODE_WIDTH = 112;
+export const NODE_HEIGHT = 56;
+
+// 主题的基本信息
+interface ThemeInfo {
+  id: string;
+  title: string;
+  created_at?: string;
+}
+
+// 从画布数据转换得到的画布内容
+export interface FlowContent {
+  nodes: FlowNode[];
+  edges: Edge[];
+  viewport?: Viewport;
+  // 文件中是否包含布局信息，没有时需要重新自动布局
+  hasLayout: boolean;
+}
+
+// 创建一个空主题
+export const createTheme = (title: string): MindMapTheme => ({
+  id: `theme-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  title,
+  created_at: new Date().toISOString(),
+  children: [],
+  metadata: {
+    version: SCHEMA_VERSION,
+    theme: 'default',
+  },
+});
+
+// 将画布上的节点和连线转换为主题数据
+export const flowToTheme = (
+  nodes: FlowNode[],
+  edges: Edge[],
+  info: ThemeInfo,
+  viewport?: Viewport
+): MindMapTheme => {
+  // 创建节点映射
+  const nodeMap = new Map<string, MindMapNode>();
+
+  // 首先创建所有节点
+  nodes.forEach(node => {
+    const nodeData: MindMapNode = node.data.nodeData || {};
+    nodeMap.set(node.id, {
+      id: node.id,
+      title: nodeData.title || '',
+      description: nodeData.description || '',
+      priority: nodeData.priority,
+      status: nodeData.status,
+      created_at: nodeData.created_at || new Date().toISOString(),
+      start_date: nodeData.start_date,
+      due_date: nodeData.due_date,
+      tags: nodeData.tags && nodeData.tags.length > 0 ? nodeData.tags : undefined,
+      attachments: nodeData.attachments,
+      collapsed: nodeData.collapsed || undefined,
+      children: [],
+    });
+  });
+
+  // 按源节点整理出边，保持连线原有顺序
+  const outgoingEdges = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    if (!nodeMap.has(edge.source) || !nodeMap.has(edge.target)) return;
+    const list = outgoingEdges.get(edge.source) || [];
+    list.push(edge);
+    outgoingEdges.set(edge.source, list);
+  });
+
+  // 每个节点只在树中出现一次，其余连线（第二个父节点、交叉连接、环）记录到 links 中
+  const placedIds = new Set<string>();
+  const links: MindMapLink[] = [];
+
+  const placeNode = (nodeId: string) => {
+    placedIds.add(nodeId);
+    const sourceNode = nodeMap.get(nodeId)!;
+
+    (outgoingEdges.get(nodeId) || []).forEach(edge => {
+      const label = edge.data && edge.data.label ? String(edge.data.label) : undefined;
+
+      if (placedIds.has(edge.target)) {
+        links.push({ id: edge.id, source: edge.source, target: edge.target, label });
+        return;
+      }
+
+      const targetNode = nodeMap.get(edge.target)!;
+      // 如果边有标签，添加到目标节点
+      if (label) {
+        targetNode.edgeLabel = label;
+      }
+      sourceNode.children!.push(targetNode);
+      placeNode(edge.target);
+    });
+  };
+
+  // 从根节点（没有入边的节点）开始构建树
+  const targetIds = new Set(edges.map(edge => edge.target));
+  const rootNodes: MindMapNode[] = [];
+  nodes.forEach(node => {
+    if (nodeMap.has(node.id) && !targetIds.has(node.id)) {
+      rootNodes.push(nodeMap.get(node.id)!);
+      placeNode(node.id);
+    }
+  });
+
+  // 只存在于环中的节点没有根节点，取其中第一个节点作为根节点
+  nodes.forEach(node => {
+    if (nodeMap.has(node.id) && !placedIds.has(node.id)) {
+      rootNodes.push(nodeMap.get(node.id)!);
+      placeNode(node.id);
+    }
+  });
+
+  // 记录节点位置、连线的连接点和当前视图
+  const layout: MindMapLayout = {
+    nodes: {},
+    edges: edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle,
+      targetHandle: edge.targetHandle,
+    })),
+  };
+  nodes.forEach(node => {
+    layout.nodes[node.id] = { x: node.position.x, y: node.position.y };
+  });
+  if (viewport) {
+    layout.viewport = { x: viewport.x, y: viewport.y, zoom: viewport.zoom };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: info.id,
+    title: info.title,
+    created_at: info.created_at || now,
+    updated_at: now,
+    children: rootNodes,
+    links: links.length > 0 ? links : undefined,
+    layout,
+    metadata: {
+      version: SCHEMA_VERSION,
+      theme: 'default',
+    },
+  };
+};
+
+// 将主题数据转换为画布上的节点和连线
+export const themeToFlow = (theme: MindMapTheme): FlowContent => {
+  const nodes: FlowNode[] = [];
+  const edges: Edge[] = [];
+  const currentDate = new Date().toISOString().split('T')[0];
+  const layout = theme.layout;
+
+  // 用于匹配保存的连接点，优先按连线ID匹配，其次按源节点和目标节点匹配，已使用的记录不再重复匹配
+  const unusedEdgeLayouts: MindMapEdgeLayout[] = [...(layout?.edges || [])];
+  const linkIds = new Set((theme.links || []).map(link => link.id));
+  const takeEdgeLayout = (source: string, target: string, id?: string) => {
+    let index = id ? unusedEdgeLayouts.findIndex(item => item.id === id) : -1;
+    if (index < 0) {
+      index = unusedEdgeLayouts.findIndex(item =>
+        item.source === source && item.target === target && (id || !linkIds.has(item.id))
+      );
+    }
+    return index >= 0 ? unusedEdgeLayouts.splice(index, 1)[0] : undefined;
+  };
+
+  // 创建连线
+  const createEdge = (source: string, target: string, label?: string, id?: string) => {
+    const edgeLayout = takeEdgeLayout(source, target, id);
+    edges.push({
+      id: id || edgeLayout?.id || `edge-${source}-${target}-${Date.now()}-${edges.length}`, // 确保边ID唯一
+      source,
+      target,
+      type: 'custom',
+      data: { label: label || '' },
+      sourceHandle: edgeLayout ? edgeLayout.sourceHandle : 'right',
+      targetHandle: edgeLayout ? edgeLayout.targetHandle : 'left',
+    });
+  };
+
+  // 已创建的节点ID，旧版本文件中同一节点可能在多个父节点下重复出现
+  const createdIds = new Set<string>();
+
+  // 递归处理节点及其子节点
+  const processNode = (node: MindMapNode, parentId?: string, position = { x: 0, y: 0 }) => {
+    const nodeId = node.id || `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`; // 确保ID唯一
+
+    // 重复出现的节点只补充连线，不再创建新节点
+    if (createdIds.has(nodeId)) {
+      if (parentId) {
+        createEdge(parentId, nodeId, node.edgeLabel);
+      }
+      return;
+    }
+    createdIds.add(nodeId);
+
+    // 优先使用保存的位置
+    const savedPosition = layout?.nodes[nodeId];
+
+    const newNode: FlowNode = {
+      id: nodeId,
+      type: 'custom',
+      position: savedPosition ? { x: savedPosition.x, y: savedPosition.y } : position,
+      data: {
+        label: node.title,
+        nodeData: {
+          id: nodeId,
+          title: node.title || '',
+          description: node.description || '',
+          priority: node.priority,
+          status: node.status,
+          created_at: node.created_at || new Date().toISOString(),
+          start_date: node.start_date || currentDate,
+          due_date: node.due_date || currentDate,
+          tags: node.tags,
+          attachments: node.attachments,
+          collapsed: node.collapsed,
+        },
+        selected: false, // 确保节点未被选中状态
+      },
+    };
+
+    nodes.push(newNode);
+
+    // 如果有父节点，创建边
+    if (parentId) {
+      createEdge(parentId, nodeId, node.edgeLabel);
+    }
+
+    // 处理子节点
+    if (node.children && node.children.length > 0) {
+      node.children.forEach((child, index) => {
+        const childPosition = {
+          x: position.x + NODE_WIDTH * 1.5, // 子节点向右偏移
+          y: position.y + (index - node.children!.length / 2) * NODE_HEIGHT * 1.5, // 子节点垂直分布
+        };
+        processNode(child, nodeId, childPosition);
+      });
+    }
+  };
+
+  if (theme.children && theme.children.length > 0) {
+    // 垂直排列根节点
+    theme.children.forEach((child, index) => {
+      processNode(child, undefined, { x: 100, y: 100 + index * NODE_HEIGHT * 2 });
+    });
+  } else {
+    // 如果主题没有子节点，创建一个主题节点
+    const themeNodeId = theme.id || `theme-${Date.now()}`;
+    nodes.push({
+      id: themeNodeId,
+      type: 'custom',
+      position: layout?.nodes[themeNodeId] || { x: 100, y: 100 },
+      data: {
+        label: theme.title,
+        nodeData: {
+          id: themeNodeId,
+          title: theme.title || '思维导图',
+          description: '', // 主题没有description属性，设置为空字符串
+          created_at: theme.created_at || new Date().toISOString(),
+          start_date: currentDate,
+          due_date: currentDate,
+        },
+        selected: false,
+      },
+    });
+  }
+
+  // 还原树结构之外的连线
+  (theme.links || []).forEach(link => {
+    if (createdIds.has(link.source) && createdIds.has(link.target)) {
+      createEdge(link.source, link.target, link.label, link.id);
+    }
+  });
+
+  return {
+    nodes,
+    edges,
+    viewport: layout?.viewport,
+    hasLayout: !!layout,
+  };
+};
+
+// 按加载到画布再保存的方式整理思维导图数据，使文件中的内容可以与画布上的内容直接比较
+export const normalizeMindMapData = (data: MindMapData): MindMapData => ({
+  ...data,
+  mindMaps: data.mindMaps.map(theme => {
+    const { nodes, edges, viewport } = themeToFlow(theme);
+    return {
+      ...theme,
+      ...flowToTheme(nodes, edges, { id: theme.id, title: theme.title, created_at: theme.created_at }, viewport),
+    };
+  }),
+});
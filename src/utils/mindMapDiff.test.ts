@@ -0,0 +1,40 @@
+import { diffMindMaps, formatMindMapDiffSummary, formatNodeFieldValue, isMindMapDiffEmpty } from './mindMapDiff';
+import { createData, createNode, createTheme } from './testHelpers';
+
+describe('diffMindMaps', () => {
+  it('相同的内容没有变化', () => {
+    const data = createData([createNode('n1', '任务', { children: [createNode('n2', '子任务')] })]);
+    expect(isMindMapDiffEmpty(diffMindMaps(data, data))).toBe(true);
+  });
+
+  it('按节点ID区分新增、删除和修改', () => {
+    const before = createData([createNode('n1', '任务'), createNode('n2', '删除')]);
+    const after = createData([createNode('n1', '任务', { status: 'done' }), createNode('n3', '新增')]);
+    const diff = diffMindMaps(before, after);
+    expect(diff.nodes.map(change => [change.id, change.type])).toEqual([['n1', 'changed'], ['n3', 'added'], ['n2', 'removed']]);
+    expect(diff.nodes[0].fields).toEqual([{ field: 'status', before: undefined, after: 'done' }]);
+    expect(formatMindMapDiffSummary(diff)).toBe('新增 1 个节点，删除 1 个节点，修改 1 个节点');
+  });
+
+  it('移到其他主题的节点记为移动', () => {
+    const before = { mindMaps: [createTheme([createNode('n1', '任务')], { id: 't1' }), createTheme([], { id: 't2' })] };
+    const after = { mindMaps: [createTheme([], { id: 't1' }), createTheme([createNode('n1', '任务')], { id: 't2' })] };
+    const diff = diffMindMaps(before, after);
+    expect(diff.nodes).toHaveLength(1);
+    expect(diff.nodes[0]).toMatchObject({ id: 'n1', type: 'moved', moved: true });
+  });
+
+  it('比较折叠状态，未折叠与没有该字段相同', () => {
+    const before = createData([createNode('n1', '任务')]);
+    expect(isMindMapDiffEmpty(diffMindMaps(before, createData([createNode('n1', '任务', { collapsed: false })])))).toBe(true);
+    const diff = diffMindMaps(before, createData([createNode('n1', '任务', { collapsed: true })]));
+    expect(diff.nodes[0].fields.map(field => field.field)).toEqual(['collapsed']);
+    expect(formatNodeFieldValue('collapsed', true)).toBe('已折叠');
+  });
+
+  it('比较树结构之外的连线', () => {
+    const before = { mindMaps: [createTheme([createNode('n1', 'A'), createNode('n2', 'B')], { links: [{ source: 'n1', target: 'n2', label: '依赖' }] })] };
+    const after = { mindMaps: [createTheme([createNode('n1', 'A'), createNode('n2', 'B')], { links: [{ source: 'n1', target: 'n2' }] })] };
+    expect(diffMindMaps(before, after).links.map(change => change.type)).toEqual(['changed']);
+  });
+});
@@ -0,0 +1,297 @@
+import { MindMapAttachment, MindMapData, MindMapLink, MindMapNode } from '../types/MindMap';
+import { htmlToPlainText } from './htmlUtils';
+import { PRIORITY_LABELS, STATUS_LABELS } from './nodeStyles';
+
+// 比较的节点字段，edgeLabel 为父节点指向该节点的连线文字
+export type NodeDiffField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'status'
+  | 'start_date'
+  | 'due_date'
+  | 'tags'
+  | 'attachments'
+  | 'edgeLabel'
+  | 'collapsed';
+
+export const NODE_DIFF_FIELDS: NodeDiffField[] = [
+  'title',
+  'description',
+  'priority',
+  'status',
+  'start_date',
+  'due_date',
+  'tags',
+  'attachments',
+  'edgeLabel',
+  'collapsed',
+];
+
+export const DIFF_FIELD_LABELS: Record<NodeDiffField, string> = {
+  title: '标题',
+  description: '描述',
+  priority: '优先级',
+  status: '状态',
+  start_date: '开始日期',
+  due_date: '截止日期',
+  tags: '标签',
+  attachments: '附件',
+  edgeLabel: '连线文字',
+  collapsed: '折叠',
+};
+
+// 展开后的节点，记录节点在树中的位置
+export interface FlatMindMapNode {
+  // 不含子节点的节点数据
+  node: MindMapNode;
+  themeId: string;
+  themeTitle: string;
+  // 父节点ID，主题下的根节点为 null
+  parentId: string | null;
+  // 在兄弟节点中的顺序
+  index: number;
+  // 所有祖先节点的标题，从根节点开始
+  path: string[];
+}
+
+// 节点字段的变化
+export interface NodeFieldChange {
+  field: NodeDiffField;
+  before: unknown;
+  after: unknown;
+}
+
+// added: 新增；removed: 删除；moved: 只移动了位置；changed: 修改了字段（也可能同时移动）
+export type NodeChangeType = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface NodeChange {
+  id: string;
+  type: NodeChangeType;
+  title: string;
+  before?: FlatMindMapNode;
+  after?: FlatMindMapNode;
+  // 父节点或所在主题是否改变
+  moved: boolean;
+  fields: NodeFieldChange[];
+}
+
+// 树结构之外的连线的变化
+export interface LinkChange {
+  key: string;
+  type: 'added' | 'removed' | 'changed';
+  themeId: string;
+  before?: MindMapLink;
+  after?: MindMapLink;
+}
+
+// 主题的变化
+export interface ThemeChange {
+  id: string;
+  type: 'added' | 'removed' | 'renamed';
+  before?: string;
+  after?: string;
+}
+
+export interface MindMapDiff {
+  themes: ThemeChange[];
+  nodes: NodeChange[];
+  links: LinkChange[];
+}
+
+// 各类变化的数量
+export interface MindMapDiffSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  changed: number;
+  links: number;
+  themes: number;
+}
+
+// 编辑器中的空描述
+const EMPTY_DESCRIPTIONS = new Set(['', '<p><br></p>', '<p></p>']);
+
+// 获取用于比较的字段值，空值统一为 undefined，附件只比较附件ID
+export const getNodeFieldValue = (node: MindMapNode, field: NodeDiffField): unknown => {
+  switch (field) {
+    case 'description':
+      return node.description && !EMPTY_DESCRIPTIONS.has(node.description.trim()) ? node.description : undefined;
+    case 'tags':
+      return node.tags && node.tags.length > 0 ? node.tags : undefined;
+    case 'attachments':
+      return node.attachments && node.attachments.length > 0 ? node.attachments.map(attachment => attachment.id) : undefined;
+    default:
+      return node[field] || undefined;
+  }
+};
+
+// 将字段值格式化为显示文字，空值返回空字符串
+export const formatNodeFieldValue = (field: NodeDiffField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  switch (field) {
+    case 'description':
+      return htmlToPlainText(String(value));
+    case 'priority':
+      return PRIORITY_LABELS[value as NonNullable<MindMapNode['priority']>] || String(value);
+    case 'status':
+      return STATUS_LABELS[value as NonNullable<MindMapNode['status']>] || String(value);
+    case 'tags':
+      return Array.isArray(value) ? value.join('、') : String(value);
+    case 'attachments':
+      // 字段值为附件列表或比较时使用的附件ID列表
+      return Array.isArray(value)
+        ? value.map(item => (typeof item === 'string' ? item : (item as MindMapAttachment).name)).join('、')
+        : String(value);
+    case 'collapsed':
+      return value ? '已折叠' : '';
+    default:
+      return String(value);
+  }
+};
+
+// 判断两个字段值是否相同
+export const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// 连线的标识，没有ID的连线使用源节点和目标节点
+export const getLinkKey = (link: MindMapLink): string => link.id || `${link.source}->${link.target}`;
+
+// 将所有主题的节点树展开为以节点ID为键的映射
+export const flattenMindMap = (data: MindMapData): Map<string, FlatMindMapNode> => {
+  const result = new Map<string, FlatMindMapNode>();
+
+  (data.mindMaps || []).forEach(theme => {
+    const visit = (nodes: MindMapNode[], parentId: string | null, path: string[]) => {
+      nodes.forEach((node, index) => {
+        // 旧版本文件中同一节点可能重复出现，只取第一次出现的位置
+        if (result.has(node.id)) return;
+        const { children, ...rest } = node;
+        result.set(node.id, { node: rest, themeId: theme.id, themeTitle: theme.title, parentId, index, path });
+        visit(children || [], node.id, [...path, node.title]);
+      });
+    };
+    visit(theme.children || [], null, []);
+  });
+
+  return result;
+};
+
+// 比较节点的字段
+export const diffNodeFields = (before: MindMapNode, after: MindMapNode): NodeFieldChange[] =>
+  NODE_DIFF_FIELDS
+    .map(field => ({ field, before: getNodeFieldValue(before, field), after: getNodeFieldValue(after, field) }))
+    .filter(change => !isSameValue(change.before, change.after));
+
+// 判断节点是否移动到了其他父节点或主题下
+export const isNodeMoved = (before: FlatMindMapNode, after: FlatMindMapNode): boolean =>
+  before.themeId !== after.themeId || before.parentId !== after.parentId;
+
+// 按主题收集树结构之外的连线
+const collectLinks = (data: MindMapData): Map<string, { themeId: string; link: MindMapLink }> => {
+  const result = new Map<string, { themeId: string; link: MindMapLink }>();
+  (data.mindMaps || []).forEach(theme => {
+    (theme.links || []).forEach(link => {
+      result.set(getLinkKey(link), { themeId: theme.id, link });
+    });
+  });
+  return result;
+};
+
+// 比较两个版本的思维导图，节点按ID对应
+export const diffMindMaps = (before: MindMapData, after: MindMapData): MindMapDiff => {
+  // 主题
+  const themes: ThemeChange[] = [];
+  const beforeThemes = new Map((before.mindMaps || []).map(theme => [theme.id, theme]));
+  const afterThemes = new Map((after.mindMaps || []).map(theme => [theme.id, theme]));
+  afterThemes.forEach((theme, id) => {
+    const previous = beforeThemes.get(id);
+    if (!previous) {
+      themes.push({ id, type: 'added', after: theme.title });
+    } else if (previous.title !== theme.title) {
+      themes.push({ id, type: 'renamed', before: previous.title, after: theme.title });
+    }
+  });
+  beforeThemes.forEach((theme, id) => {
+    if (!afterThemes.has(id)) {
+      themes.push({ id, type: 'removed', before: theme.title });
+    }
+  });
+
+  // 节点
+  const nodes: NodeChange[] = [];
+  const beforeNodes = flattenMindMap(before);
+  const afterNodes = flattenMindMap(after);
+  afterNodes.forEach((current, id) => {
+    const previous = beforeNodes.get(id);
+    if (!previous) {
+      nodes.push({ id, type: 'added', title: current.node.title, after: current, moved: false, fields: [] });
+      return;
+    }
+    const fields = diffNodeFields(previous.node, current.node);
+    const moved = isNodeMoved(previous, current);
+    if (fields.length > 0 || moved) {
+      nodes.push({
+        id,
+        type: fields.length > 0 ? 'changed' : 'moved',
+        title: current.node.title,
+        before: previous,
+        after: current,
+        moved,
+        fields,
+      });
+    }
+  });
+  beforeNodes.forEach((previous, id) => {
+    if (!afterNodes.has(id)) {
+      nodes.push({ id, type: 'removed', title: previous.node.title, before: previous, moved: false, fields: [] });
+    }
+  });
+
+  // 树结构之外的连线
+  const links: LinkChange[] = [];
+  const beforeLinks = collectLinks(before);
+  const afterLinks = collectLinks(after);
+  afterLinks.forEach(({ themeId, link }, key) => {
+    const previous = beforeLinks.get(key);
+    if (!previous) {
+      links.push({ key, type: 'added', themeId, after: link });
+    } else if ((previous.link.label || '') !== (link.label || '')) {
+      links.push({ key, type: 'changed', themeId, before: previous.link, after: link });
+    }
+  });
+  beforeLinks.forEach(({ themeId, link }, key) => {
+    if (!afterLinks.has(key)) {
+      links.push({ key, type: 'removed', themeId, before: link });
+    }
+  });
+
+  return { themes, nodes, links };
+};
+
+// 判断是否没有任何变化
+export const isMindMapDiffEmpty = (diff: MindMapDiff): boolean =>
+  diff.themes.length === 0 && diff.nodes.length === 0 && diff.links.length === 0;
+
+// 统计各类变化的数量
+export const summarizeMindMapDiff = (diff: MindMapDiff): MindMapDiffSummary => ({
+  added: diff.nodes.filter(change => change.type === 'added').length,
+  removed: diff.nodes.filter(change => change.type === 'removed').length,
+  moved: diff.nodes.filter(change => change.type === 'moved').length,
+  changed: diff.nodes.filter(change => change.type === 'changed').length,
+  links: diff.links.length,
+  themes: diff.themes.length,
+});
+
+// 生成变化摘要，如“新增 2 个节点，修改 1 个节点”
+export const formatMindMapDiffSummary = (diff: MindMapDiff): string => {
+  const summary = summarizeMindMapDiff(diff);
+  const parts = [
+    summary.added > 0 ? `新增 ${summary.added} 个节点` : '',
+    summary.removed > 0 ? `删除 ${summary.removed} 个节点` : '',
+    summary.changed > 0 ? `修改 ${summary.changed} 个节点` : '',
+    summary.moved > 0 ? `移动 ${summary.moved} 个节点` : '',
+    summary.links > 0 ? `${summary.links} 条连线有变化` : '',
+    summary.themes > 0 ? `${summary.themes} 个主题有变化` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('，') : '没有变化';
+};
@@ -0,0 +1,76 @@
+import { mergeMindMaps } from './mindMapMerge';
+import { MindMapData, MindMapLink } from '../types/MindMap';
+import { createData, createNode, createTheme, createView } from './testHelpers';
+
+// 两个节点之间有一条树结构之外的连线
+const createLinkedData = (links: MindMapLink[]): MindMapData => ({
+  mindMaps: [createTheme([createNode('a', '甲'), createNode('b', '乙')], { links })],
+});
+
+describe('mergeMindMaps', () => {
+  it('自动合并双方修改的不同字段', () => {
+    const base = createData([createNode('n1', '任务')]);
+    const mine = createData([createNode('n1', '任务', { status: 'done' })]);
+    const theirs = createData([createNode('n1', '任务', { priority: 'high' })]);
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(data.mindMaps[0].children?.[0]).toMatchObject({ status: 'done', priority: 'high' });
+  });
+
+  it('双方修改同一字段时记录冲突，按指定的版本处理', () => {
+    const base = createData([createNode('n1', '任务')]);
+    const mine = createData([createNode('n1', '我的标题')]);
+    const theirs = createData([createNode('n1', '他的标题')]);
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs);
+    expect(conflicts.map(conflict => conflict.id)).toEqual(['node:n1:title']);
+    expect(data.mindMaps[0].children?.[0].title).toBe('我的标题');
+    const resolved = mergeMindMaps(base, mine, theirs, { 'node:n1:title': 'theirs' });
+    expect(resolved.data.mindMaps[0].children?.[0].title).toBe('他的标题');
+  });
+
+  it('合并另一方的折叠状态', () => {
+    const base = createData([createNode('n1', '任务', { children: [createNode('n2', '子任务')] })]);
+    const mine = createData([createNode('n1', '任务', { status: 'done', children: [createNode('n2', '子任务')] })]);
+    const theirs = createData([createNode('n1', '任务', { collapsed: true, children: [createNode('n2', '子任务')] })]);
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(data.mindMaps[0].children?.[0]).toMatchObject({ status: 'done', collapsed: true });
+  });
+
+  it('按ID合并双方的筛选视图', () => {
+    const shared = createView('v1', '共同');
+    const base = createData([], { views: [shared, createView('v2', '已删除')] });
+    const mine = createData([], { views: [shared, createView('v3', '我的')] });
+    const theirs = createData([], { views: [createView('v1', '共同', { mode: 'hide' }), createView('v2', '已删除'), createView('v4', '他的')] });
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(data.views?.map(view => [view.id, view.mode])).toEqual([['v1', 'hide'], ['v3', 'dim'], ['v4', 'dim']]);
+  });
+
+  it('双方修改同一筛选视图时记录冲突', () => {
+    const base = createData([], { views: [createView('v1', '视图')] });
+    const mine = createData([], { views: [createView('v1', '我的视图')] });
+    const theirs = createData([], { views: [createView('v1', '他的视图')] });
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs, { 'view:v1': 'theirs' });
+    expect(conflicts.map(conflict => conflict.kind)).toEqual(['view']);
+    expect(data.views?.map(view => view.name)).toEqual(['他的视图']);
+  });
+
+  it('一方删除连线而另一方修改了连线文字时记录冲突', () => {
+    const base = createLinkedData([{ source: 'a', target: 'b', label: '依赖' }]);
+    const mine = createLinkedData([]);
+    const theirs = createLinkedData([{ source: 'a', target: 'b', label: '阻塞' }]);
+    const { data, conflicts } = mergeMindMaps(base, mine, theirs);
+    expect(conflicts).toEqual([expect.objectContaining({ id: 'link:a->b', kind: 'link', title: '甲 → 乙', mine: undefined, theirs: '阻塞' })]);
+    expect(data.mindMaps[0].links).toBeUndefined();
+    const resolved = mergeMindMaps(base, mine, theirs, { 'link:a->b': 'theirs' });
+    expect(resolved.data.mindMaps[0].links).toEqual([{ source: 'a', target: 'b', label: '阻塞' }]);
+  });
+
+  it('另一方没有修改连线文字时直接删除连线', () => {
+    const base = createLinkedData([{ source: 'a', target: 'b', label: '依赖' }]);
+    const { data, conflicts } = mergeMindMaps(base, base, createLinkedData([]));
+    expect(conflicts).toEqual([]);
+    expect(data.mindMaps[0].links).toBeUndefined();
+  });
+});
@@ -0,0 +1,385 @@
+import { MindMapData, MindMapLayout, MindMapLink, MindMapNode, MindMapTheme, MindMapView } from '../types/MindMap';
+import {
+  NodeDiffField,
+  NODE_DIFF_FIELDS,
+  FlatMindMapNode,
+  flattenMindMap,
+  getNodeFieldValue,
+  getLinkKey,
+  isSameValue,
+  diffNodeFields,
+  isNodeMoved,
+} from './mindMapDiff';
+import { FILTER_MODE_LABELS } from './nodeFilter';
+
+// 冲突时采用的版本
+export type MergeSide = 'mine' | 'theirs';
+
+// field: 节点字段；parent: 节点位置；node: 一方删除了节点，另一方修改了节点；
+// theme: 一方删除了主题，另一方修改了主题；themeTitle: 主题名称；linkLabel: 连线文字；
+// link: 一方删除了连线，另一方修改了连线文字；view: 筛选视图
+export type MergeConflictKind = 'field' | 'parent' | 'node' | 'theme' | 'themeTitle' | 'linkLabel' | 'link' | 'view';
+
+export interface MergeConflict {
+  // 冲突的标识，用于指定解决方式
+  id: string;
+  kind: MergeConflictKind;
+  field?: NodeDiffField;
+  nodeId?: string;
+  themeId?: string;
+  // 节点或主题的标题
+  title: string;
+  // 各版本的值，节点位置为路径文字，被删除时为 undefined
+  base?: unknown;
+  mine?: unknown;
+  theirs?: unknown;
+}
+
+// 按冲突标识指定采用的版本，未指定的冲突采用我的版本
+export type MergeResolutions = Record<string, MergeSide>;
+
+export interface MergeResult {
+  data: MindMapData;
+  conflicts: MergeConflict[];
+}
+
+// 合并后的节点
+interface MergedNode {
+  node: MindMapNode;
+  themeId: string;
+  parentId: string | null;
+  index: number;
+}
+
+// 节点在树中的位置，以路径文字显示
+const formatPosition = (flat?: FlatMindMapNode): string | undefined =>
+  flat ? [flat.themeTitle, ...flat.path].join(' / ') : undefined;
+
+// 筛选视图的显示文字
+const formatView = (view?: MindMapView): string | undefined =>
+  view ? `${view.name}（${FILTER_MODE_LABELS[view.mode]}）` : undefined;
+
+// 判断节点与原始版本相比是否有修改
+const isNodeChanged = (base: FlatMindMapNode, current: FlatMindMapNode): boolean =>
+  diffNodeFields(base.node, current.node).length > 0 || isNodeMoved(base, current);
+
+// 合并双方的布局，双方都有的节点使用我的位置
+const mergeLayout = (mine?: MindMapLayout, theirs?: MindMapLayout): MindMapLayout | undefined => {
+  if (!mine || !theirs) return mine || theirs;
+  const edgeIds = new Set((mine.edges || []).map(edge => edge.id));
+  return {
+    ...mine,
+    nodes: { ...theirs.nodes, ...mine.nodes },
+    edges: [...(mine.edges || []), ...(theirs.edges || []).filter(edge => !edgeIds.has(edge.id))],
+  };
+};
+
+// 三方合并：base 为共同的原始版本，mine 和 theirs 为分别修改后的版本
+// 只有一方修改的节点、字段和连线自动合并，双方都修改且结果不同时记录冲突，按 resolutions 指定的版本处理
+export const mergeMindMaps = (
+  base: MindMapData,
+  mine: MindMapData,
+  theirs: MindMapData,
+  resolutions: MergeResolutions = {}
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const resolve = (conflict: MergeConflict): MergeSide => {
+    conflicts.push(conflict);
+    return resolutions[conflict.id] || 'mine';
+  };
+
+  // 三方比较一个值，返回应采用的版本
+  const pick = (baseValue: unknown, mineValue: unknown, theirsValue: unknown, conflict: () => MergeConflict): MergeSide => {
+    if (isSameValue(mineValue, theirsValue) || isSameValue(baseValue, theirsValue)) return 'mine';
+    if (isSameValue(baseValue, mineValue)) return 'theirs';
+    return resolve(conflict());
+  };
+
+  const baseNodes = flattenMindMap(base);
+  const mineNodes = flattenMindMap(mine);
+  const theirsNodes = flattenMindMap(theirs);
+
+  // 主题：一方删除而另一方修改了主题中的内容时记录冲突
+  const baseThemes = new Map((base.mindMaps || []).map(theme => [theme.id, theme]));
+  const mineThemes = new Map((mine.mindMaps || []).map(theme => [theme.id, theme]));
+  const theirsThemes = new Map((theirs.mindMaps || []).map(theme => [theme.id, theme]));
+
+  const isThemeChanged = (themeId: string, nodes: Map<string, FlatMindMapNode>, theme: MindMapTheme): boolean => {
+    if (baseThemes.get(themeId)?.title !== theme.title) return true;
+    return Array.from(nodes.values()).some(flat => {
+      if (flat.themeId !== themeId) return false;
+      const previous = baseNodes.get(flat.node.id);
+      return !previous || isNodeChanged(previous, flat);
+    });
+  };
+
+  const mergedThemes: MindMapTheme[] = [];
+  const themeOrder = [
+    ...Array.from(mineThemes.keys()),
+    ...Array.from(theirsThemes.keys()).filter(id => !mineThemes.has(id)),
+  ];
+  themeOrder.forEach(themeId => {
+    const baseTheme = baseThemes.get(themeId);
+    const mineTheme = mineThemes.get(themeId);
+    const theirsTheme = theirsThemes.get(themeId);
+
+    if (mineTheme && theirsTheme) {
+      const side = pick(baseTheme?.title, mineTheme.title, theirsTheme.title, () => ({
+        id: `theme:${themeId}:title`,
+        kind: 'themeTitle',
+        themeId,
+        title: mineTheme.title,
+        base: baseTheme?.title,
+        mine: mineTheme.title,
+        theirs: theirsTheme.title,
+      }));
+      mergedThemes.push({
+        ...mineTheme,
+        title: side === 'mine' ? mineTheme.title : theirsTheme.title,
+        layout: mergeLayout(mineTheme.layout, theirsTheme.layout),
+      });
+      return;
+    }
+
+    const existing = (mineTheme || theirsTheme)!;
+    if (!baseTheme) {
+      // 一方新增的主题
+      mergedThemes.push(existing);
+      return;
+    }
+
+    // 一方删除的主题，另一方没有修改时直接删除
+    const keptBy: MergeSide = mineTheme ? 'mine' : 'theirs';
+    if (!isThemeChanged(themeId, mineTheme ? mineNodes : theirsNodes, existing)) return;
+    const side = resolve({
+      id: `theme:${themeId}`,
+      kind: 'theme',
+      themeId,
+      title: existing.title,
+      base: baseTheme.title,
+      mine: mineTheme?.title,
+      theirs: theirsTheme?.title,
+    });
+    if (side === keptBy) {
+      mergedThemes.push(existing);
+    }
+  });
+  const mergedThemeIds = new Set(mergedThemes.map(theme => theme.id));
+
+  // 节点
+  const mergedNodes = new Map<string, MergedNode>();
+  const nodeOrder = [
+    ...Array.from(mineNodes.keys()),
+    ...Array.from(theirsNodes.keys()).filter(id => !mineNodes.has(id)),
+  ];
+  nodeOrder.forEach(nodeId => {
+    const baseFlat = baseNodes.get(nodeId);
+    const mineFlat = mineNodes.get(nodeId);
+    const theirsFlat = theirsNodes.get(nodeId);
+
+    if (mineFlat && theirsFlat) {
+      // 逐个字段合并
+      const node: MindMapNode = { ...mineFlat.node };
+      NODE_DIFF_FIELDS.forEach(field => {
+        const side = pick(
+          baseFlat ? getNodeFieldValue(baseFlat.node, field) : undefined,
+          getNodeFieldValue(mineFlat.node, field),
+          getNodeFieldValue(theirsFlat.node, field),
+          () => ({
+            id: `node:${nodeId}:${field}`,
+            kind: 'field',
+            field,
+            nodeId,
+            title: mineFlat.node.title,
+            base: baseFlat ? baseFlat.node[field] : undefined,
+            mine: mineFlat.node[field],
+            theirs: theirsFlat.node[field],
+          })
+        );
+        if (side === 'theirs') {
+          Object.assign(node, { [field]: theirsFlat.node[field] });
+        }
+      });
+
+      // 合并节点位置
+      const position = (flat?: FlatMindMapNode) => (flat ? { themeId: flat.themeId, parentId: flat.parentId } : undefined);
+      const side = pick(position(baseFlat), position(mineFlat), position(theirsFlat), () => ({
+        id: `node:${nodeId}:parent`,
+        kind: 'parent',
+        nodeId,
+        title: mineFlat.node.title,
+        base: formatPosition(baseFlat),
+        mine: formatPosition(mineFlat),
+        theirs: formatPosition(theirsFlat),
+      }));
+      const placed = side === 'mine' ? mineFlat : theirsFlat;
+      mergedNodes.set(nodeId, { node, themeId: placed.themeId, parentId: placed.parentId, index: placed.index });
+      return;
+    }
+
+    const existing = (mineFlat || theirsFlat)!;
+    if (!mergedThemeIds.has(existing.themeId)) return;
+    if (baseFlat) {
+      // 一方删除的节点，另一方没有修改时直接删除
+      if (!isNodeChanged(baseFlat, existing)) return;
+      const keptBy: MergeSide = mineFlat ? 'mine' : 'theirs';
+      const side = resolve({
+        id: `node:${nodeId}`,
+        kind: 'node',
+        nodeId,
+        title: existing.node.title,
+        base: formatPosition(baseFlat),
+        mine: formatPosition(mineFlat),
+        theirs: formatPosition(theirsFlat),
+      });
+      if (side !== keptBy) return;
+    }
+    mergedNodes.set(nodeId, { node: { ...existing.node }, themeId: existing.themeId, parentId: existing.parentId, index: existing.index });
+  });
+
+  // 被删除的节点下还有保留的子节点时，恢复被删除的父节点
+  let restored = true;
+  while (restored) {
+    restored = false;
+    for (const merged of Array.from(mergedNodes.values())) {
+      if (!merged.parentId || mergedNodes.has(merged.parentId)) continue;
+      const parent = theirsNodes.get(merged.parentId) || mineNodes.get(merged.parentId) || baseNodes.get(merged.parentId);
+      if (parent && mergedThemeIds.has(parent.themeId)) {
+        mergedNodes.set(parent.node.id, { node: { ...parent.node }, themeId: parent.themeId, parentId: parent.parentId, index: parent.index });
+        restored = true;
+      } else {
+        merged.parentId = null;
+      }
+    }
+  }
+
+  // 双方分别移动节点可能形成环，环中的节点移到根节点
+  mergedNodes.forEach(merged => {
+    const visited = new Set<string>([merged.node.id]);
+    let parentId = merged.parentId;
+    while (parentId) {
+      if (visited.has(parentId)) {
+        merged.parentId = null;
+        break;
+      }
+      visited.add(parentId);
+      parentId = mergedNodes.get(parentId)?.parentId || null;
+    }
+  });
+
+  // 节点所在主题以根节点为准
+  const getThemeId = (merged: MergedNode): string =>
+    merged.parentId ? getThemeId(mergedNodes.get(merged.parentId)!) : merged.themeId;
+
+  // 按父节点整理子节点
+  const childrenMap = new Map<string, MergedNode[]>();
+  mergedNodes.forEach(merged => {
+    const key = merged.parentId || `theme:${getThemeId(merged)}`;
+    const list = childrenMap.get(key) || [];
+    list.push(merged);
+    childrenMap.set(key, list);
+  });
+  const buildChildren = (key: string): MindMapNode[] =>
+    (childrenMap.get(key) || [])
+      .sort((a, b) => a.index - b.index)
+      .map(merged => {
+        const children = buildChildren(merged.node.id);
+        return children.length > 0 ? { ...merged.node, children } : { ...merged.node };
+      });
+
+  // 树结构之外的连线：只有一方新增或删除时直接采用，双方都修改了连线文字、
+  // 或一方删除而另一方修改了连线文字时记录冲突
+  const collectLinks = (data: MindMapData) => {
+    const result = new Map<string, MindMapLink>();
+    (data.mindMaps || []).forEach(theme => (theme.links || []).forEach(link => result.set(getLinkKey(link), link)));
+    return result;
+  };
+  const baseLinks = collectLinks(base);
+  const mineLinks = collectLinks(mine);
+  const theirsLinks = collectLinks(theirs);
+  const mergedLinks = new Map<string, MindMapLink[]>();
+  const formatLinkTitle = (link: MindMapLink): string =>
+    `${mergedNodes.get(link.source)?.node.title || link.source} → ${mergedNodes.get(link.target)?.node.title || link.target}`;
+  const linkOrder = [
+    ...Array.from(mineLinks.keys()),
+    ...Array.from(theirsLinks.keys()).filter(key => !mineLinks.has(key)),
+  ];
+  linkOrder.forEach(key => {
+    const baseLink = baseLinks.get(key);
+    const mineLink = mineLinks.get(key);
+    const theirsLink = theirsLinks.get(key);
+    let link: MindMapLink;
+    if (mineLink && theirsLink) {
+      const side = pick(baseLink?.label || '', mineLink.label || '', theirsLink.label || '', () => ({
+        id: `link:${key}:label`,
+        kind: 'linkLabel',
+        title: formatLinkTitle(mineLink),
+        base: baseLink?.label,
+        mine: mineLink.label,
+        theirs: theirsLink.label,
+      }));
+      link = side === 'mine' ? mineLink : theirsLink;
+    } else if (baseLink) {
+      // 一方删除的连线，另一方没有修改文字时直接删除
+      const existing = (mineLink || theirsLink)!;
+      if ((existing.label || '') === (baseLink.label || '')) return;
+      const keptBy: MergeSide = mineLink ? 'mine' : 'theirs';
+      const side = resolve({
+        id: `link:${key}`,
+        kind: 'link',
+        title: formatLinkTitle(existing),
+        base: baseLink.label || '',
+        mine: mineLink ? mineLink.label || '' : undefined,
+        theirs: theirsLink ? theirsLink.label || '' : undefined,
+      });
+      if (side !== keptBy) return;
+      link = existing;
+    } else {
+      link = (mineLink || theirsLink)!;
+    }
+
+    const source = mergedNodes.get(link.source);
+    const target = mergedNodes.get(link.target);
+    if (!source || !target || getThemeId(source) !== getThemeId(target)) return;
+    const themeId = getThemeId(source);
+    mergedLinks.set(themeId, [...(mergedLinks.get(themeId) || []), link]);
+  });
+
+  const mindMaps = mergedThemes.map(theme => {
+    const links = mergedLinks.get(theme.id);
+    return {
+      ...theme,
+      children: buildChildren(`theme:${theme.id}`),
+      links: links && links.length > 0 ? links : undefined,
+    };
+  });
+
+  // 筛选视图按ID合并：只有一方新增或删除时直接采用，双方都修改且结果不同时记录冲突
+  const baseViews = new Map((base.views || []).map(view => [view.id, view]));
+  const mineViews = new Map((mine.views || []).map(view => [view.id, view]));
+  const theirsViews = new Map((theirs.views || []).map(view => [view.id, view]));
+  const views: MindMapView[] = [];
+  [
+    ...Array.from(mineViews.keys()),
+    ...Array.from(theirsViews.keys()).filter(id => !mineViews.has(id)),
+  ].forEach(viewId => {
+    const baseView = baseViews.get(viewId);
+    const mineView = mineViews.get(viewId);
+    const theirsView = theirsViews.get(viewId);
+    if (mineView && theirsView) {
+      const side = pick(baseView, mineView, theirsView, () => ({
+        id: `view:${viewId}`,
+        kind: 'view',
+        title: mineView.name,
+        base: formatView(baseView),
+        mine: formatView(mineView),
+        theirs: formatView(theirsView),
+      }));
+      views.push(side === 'mine' ? mineView : theirsView);
+    } else if (!baseView) {
+      views.push((mineView || theirsView)!);
+    }
+  });
+
+  return { data: { ...mine, mindMaps, views: views.length > 0 ? views : undefined }, conflicts };
+};
@@ -0,0 +1,75 @@
+import { MindMapSchemaError, SCHEMA_VERSION, migrateMindMapData, parseMindMapData, validateMindMapData } from './mindMapSchema';
+
+describe('migrateMindMapData', () => {
+  it('没有版本号的旧文件补齐创建时间，重复出现的节点改为连线', () => {
+    const data = migrateMindMapData({
+      mindMaps: [{
+        id: 'theme-1',
+        title: '主题',
+        children: [
+          { id: 'a', title: 'A', children: [{ id: 'c', title: 'C', edgeLabel: '依赖' }] },
+          { id: 'b', title: 'B', children: [{ id: 'c', title: 'C', edgeLabel: '依赖' }] },
+        ],
+      }],
+    });
+    const theme = data.mindMaps[0];
+    expect(theme.metadata.version).toBe(SCHEMA_VERSION);
+    expect(typeof theme.created_at).toBe('string');
+    expect(theme.children[0].created_at).toBe(theme.created_at);
+    expect(theme.children[1].children).toEqual([]);
+    expect(theme.links).toEqual([{ source: 'b', target: 'c', label: '依赖' }]);
+  });
+
+  it('不支持的版本抛出格式错误', () => {
+    const migrate = () => migrateMindMapData({ mindMaps: [{ id: 'theme-1', metadata: { version: '9.0' }, children: [] }] });
+    expect(migrate).toThrow(MindMapSchemaError);
+    expect(migrate).toThrow('$.mindMaps[0].metadata.version');
+  });
+});
+
+describe('validateMindMapData', () => {
+  it('列出所有问题及其路径', () => {
+    const issues = validateMindMapData({
+      mindMaps: [{
+        id: 'theme-1',
+        children: [
+          { id: 'a', status: 'finished', collapsed: 'yes' },
+          { id: 'a', due_date: 'not a date' },
+        ],
+        links: [{ source: 'a', target: 'missing' }],
+      }],
+      views: [{ id: 'v1', name: '视图', mode: 'dim', filter: { overdue: 1 } }],
+    });
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$.mindMaps[0].children[0].status',
+      '$.mindMaps[0].children[0].collapsed',
+      '$.mindMaps[0].children[1].id',
+      '$.mindMaps[0].children[1].due_date',
+      '$.mindMaps[0].links[0].target',
+      '$.views[0].filter.overdue',
+    ]);
+  });
+
+  it('目录中的附件必须有路径', () => {
+    const issues = validateMindMapData({
+      mindMaps: [{
+        id: 'theme-1',
+        children: [{ id: 'a', attachments: [{ id: 'f1', name: 'a.txt', type: 'text/plain', size: 1, storage: 'directory' }] }],
+      }],
+    });
+    expect(issues).toEqual([{ path: '$.mindMaps[0].children[0].attachments[0].path', message: '缺少必填字段' }]);
+  });
+});
+
+describe('parseMindMapData', () => {
+  it('无法解析的JSON给出提示', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => parseMindMapData('{')).toThrow('文件格式不正确，无法解析JSON');
+    consoleError.mockRestore();
+  });
+
+  it('升级后通过校验的内容直接返回', () => {
+    const data = parseMindMapData(JSON.stringify({ mindMaps: [{ id: 'theme-1', title: '主题', children: [{ id: 'a', title: 'A' }] }] }));
+    expect(data.mindMaps[0].metadata?.version).toBe(SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,489 @@
+import { MindMapData } from '../types/MindMap';
+
+// 当前的数据格式版本
+// 1.0: 只有节点树，同一节点可能在多个父节点下重复出现
+// 1.1: 增加 layout 布局信息
+// 1.2: 增加 links，节点在树中只出现一次
+// 1.3: 增加节点附件 attachments
+// 1.4: 增加文件顶层的筛选视图 views
+// 1.5: 增加节点的折叠状态 collapsed
+export const SCHEMA_VERSION = '1.5';
+
+// 没有版本号的旧文件视为 1.0
+const LEGACY_VERSION = '1.0';
+
+// 校验问题，path 为出错字段的 JSON 路径
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// 文件内容不符合数据格式时抛出的错误
+export class MindMapSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`文件格式不正确：${issues.map(issue => `${issue.path} ${issue.message}`).join('；')}`);
+    this.name = 'MindMapSchemaError';
+    this.issues = issues;
+    // 编译目标为 ES5 时需要手动修正原型链，instanceof 才能正常工作
+    Object.setPrototypeOf(this, MindMapSchemaError.prototype);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 迁移步骤，每一步把单个主题从 from 版本升级到 to 版本
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (theme: Record<string, any>) => Record<string, any>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 补齐旧文件中缺失的创建时间
+    from: '1.0',
+    to: '1.1',
+    migrate: (theme) => {
+      const now = new Date().toISOString();
+      const fillCreatedAt = (node: any) => {
+        if (!isObject(node)) return;
+        if (node.created_at === undefined) {
+          node.created_at = now;
+        }
+        if (Array.isArray(node.children)) {
+          node.children.forEach(fillCreatedAt);
+        }
+      };
+      if (theme.created_at === undefined) {
+        theme.created_at = now;
+      }
+      if (Array.isArray(theme.children)) {
+        theme.children.forEach(fillCreatedAt);
+      }
+      return theme;
+    },
+  },
+  {
+    // 重复出现的节点改为 links 中的连线
+    from: '1.1',
+    to: '1.2',
+    migrate: (theme) => {
+      const seenIds = new Set<string>();
+      const links: any[] = Array.isArray(theme.links) ? theme.links : [];
+
+      const dedupeChildren = (parentId: string | undefined, children: any[]): any[] =>
+        children.filter(child => {
+          if (!isObject(child) || typeof child.id !== 'string') return true;
+
+          if (seenIds.has(child.id)) {
+            if (parentId) {
+              links.push({ source: parentId, target: child.id, label: child.edgeLabel || undefined });
+            }
+            return false;
+          }
+
+          seenIds.add(child.id);
+          if (Array.isArray(child.children)) {
+            child.children = dedupeChildren(child.id, child.children);
+          }
+          return true;
+        });
+
+      if (Array.isArray(theme.children)) {
+        theme.children = dedupeChildren(undefined, theme.children);
+      }
+      if (links.length > 0) {
+        theme.links = links;
+      }
+      return theme;
+    },
+  },
+  {
+    // 新增的附件字段是可选的，旧数据无需转换
+    from: '1.2',
+    to: '1.3',
+    migrate: (theme) => theme,
+  },
+  {
+    // 筛选视图保存在文件顶层，主题数据无需转换
+    from: '1.3',
+    to: '1.4',
+    migrate: (theme) => theme,
+  },
+  {
+    // 没有折叠状态的节点默认展开，旧数据无需转换
+    from: '1.4',
+    to: '1.5',
+    migrate: (theme) => theme,
+  },
+];
+
+// 获取主题的版本号
+const getThemeVersion = (theme: Record<string, any>): string =>
+  isObject(theme.metadata) && typeof theme.metadata.version === 'string'
+    ? theme.metadata.version
+    : LEGACY_VERSION;
+
+// 将旧版本的数据逐步升级到当前版本
+export const migrateMindMapData = (data: Record<string, any>): Record<string, any> => {
+  if (!Array.isArray(data.mindMaps)) return data;
+
+  const issues: SchemaIssue[] = [];
+
+  data.mindMaps = data.mindMaps.map((theme: unknown, index: number) => {
+    if (!isObject(theme)) return theme;
+
+    let version = getThemeVersion(theme);
+    let migrated = theme;
+
+    while (version !== SCHEMA_VERSION) {
+      const fromVersion = version;
+      const migration = MIGRATIONS.find(item => item.from === fromVersion);
+      if (!migration) {
+        issues.push({
+          path: `$.mindMaps[${index}].metadata.version`,
+          message: `不支持的版本 ${version}，当前支持的最高版本为 ${SCHEMA_VERSION}`,
+        });
+        return theme;
+      }
+      migrated = migration.migrate(migrated);
+      version = migration.to;
+    }
+
+    migrated.metadata = {
+      theme: 'default',
+      ...(isObject(migrated.metadata) ? migrated.metadata : {}),
+      version: SCHEMA_VERSION,
+    };
+    return migrated;
+  });
+
+  if (issues.length > 0) {
+    throw new MindMapSchemaError(issues);
+  }
+
+  return data;
+};
+
+// 校验数据结构，返回发现的所有问题
+export const validateMindMapData = (data: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  const checkString = (value: unknown, path: string, required = false) => {
+    if (value === undefined || value === null) {
+      if (required) report(path, '缺少必填字段');
+      return;
+    }
+    if (typeof value !== 'string') {
+      report(path, '应为字符串');
+    } else if (required && value.trim() === '') {
+      report(path, '不能为空');
+    }
+  };
+
+  const checkDate = (value: unknown, path: string) => {
+    if (value === undefined || value === null || value === '') return;
+    if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+      report(path, '应为有效的日期');
+    }
+  };
+
+  const checkEnum = (value: unknown, path: string, allowed: string[]) => {
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      report(path, `应为 ${allowed.join('、')} 之一`);
+    }
+  };
+
+  const checkNumber = (value: unknown, path: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      report(path, '应为数字');
+    }
+  };
+
+  const checkAttachment = (attachment: unknown, path: string) => {
+    if (!isObject(attachment)) {
+      report(path, '应为对象');
+      return;
+    }
+
+    checkString(attachment.id, `${path}.id`, true);
+    checkString(attachment.name, `${path}.name`, true);
+    checkString(attachment.type, `${path}.type`);
+    checkNumber(attachment.size, `${path}.size`);
+    checkEnum(attachment.storage, `${path}.storage`, ['directory', 'indexeddb', 'embedded']);
+    checkDate(attachment.created_at, `${path}.created_at`);
+    if (attachment.storage === 'directory') {
+      checkString(attachment.path, `${path}.path`, true);
+    } else if (attachment.storage === 'embedded') {
+      checkString(attachment.data, `${path}.data`, true);
+    }
+  };
+
+  const checkNode = (node: unknown, path: string, nodeIds: Set<string>) => {
+    if (!isObject(node)) {
+      report(path, '应为对象');
+      return;
+    }
+
+    checkString(node.id, `${path}.id`, true);
+    if (typeof node.id === 'string') {
+      if (nodeIds.has(node.id)) {
+        report(`${path}.id`, `节点ID ${node.id} 重复`);
+      }
+      nodeIds.add(node.id);
+    }
+    checkString(node.title, `${path}.title`);
+    checkString(node.description, `${path}.description`);
+    checkString(node.edgeLabel, `${path}.edgeLabel`);
+    checkEnum(node.priority, `${path}.priority`, ['low', 'medium', 'high']);
+    checkEnum(node.status, `${path}.status`, ['todo', 'in_progress', 'done']);
+    checkDate(node.created_at, `${path}.created_at`);
+    checkDate(node.start_date, `${path}.start_date`);
+    checkDate(node.due_date, `${path}.due_date`);
+    if (node.collapsed !== undefined && typeof node.collapsed !== 'boolean') {
+      report(`${path}.collapsed`, '应为布尔值');
+    }
+
+    if (node.tags !== undefined) {
+      if (!Array.isArray(node.tags)) {
+        report(`${path}.tags`, '应为数组');
+      } else {
+        node.tags.forEach((tag: unknown, index: number) => checkString(tag, `${path}.tags[${index}]`));
+      }
+    }
+
+    if (node.attachments !== undefined) {
+      if (!Array.isArray(node.attachments)) {
+        report(`${path}.attachments`, '应为数组');
+      } else {
+        node.attachments.forEach((attachment: unknown, index: number) =>
+          checkAttachment(attachment, `${path}.attachments[${index}]`)
+        );
+      }
+    }
+
+    if (node.children !== undefined) {
+      if (!Array.isArray(node.children)) {
+        report(`${path}.children`, '应为数组');
+      } else {
+        node.children.forEach((child: unknown, index: number) =>
+          checkNode(child, `${path}.children[${index}]`, nodeIds)
+        );
+      }
+    }
+  };
+
+  const checkLayout = (layout: unknown, path: string) => {
+    if (!isObject(layout)) {
+      report(path, '应为对象');
+      return;
+    }
+
+    if (!isObject(layout.nodes)) {
+      report(`${path}.nodes`, '应为对象');
+    } else {
+      Object.entries(layout.nodes).forEach(([id, position]) => {
+        const positionPath = `${path}.nodes[${JSON.stringify(id)}]`;
+        if (!isObject(position)) {
+          report(positionPath, '应为对象');
+          return;
+        }
+        checkNumber(position.x, `${positionPath}.x`);
+        checkNumber(position.y, `${positionPath}.y`);
+      });
+    }
+
+    if (layout.edges !== undefined) {
+      if (!Array.isArray(layout.edges)) {
+        report(`${path}.edges`, '应为数组');
+      } else {
+        layout.edges.forEach((edge: unknown, index: number) => {
+          const edgePath = `${path}.edges[${index}]`;
+          if (!isObject(edge)) {
+            report(edgePath, '应为对象');
+            return;
+          }
+          checkString(edge.id, `${edgePath}.id`, true);
+          checkString(edge.source, `${edgePath}.source`, true);
+          checkString(edge.target, `${edgePath}.target`, true);
+          checkString(edge.sourceHandle, `${edgePath}.sourceHandle`);
+          checkString(edge.targetHandle, `${edgePath}.targetHandle`);
+        });
+      }
+    }
+
+    if (layout.viewport !== undefined) {
+      if (!isObject(layout.viewport)) {
+        report(`${path}.viewport`, '应为对象');
+      } else {
+        checkNumber(layout.viewport.x, `${path}.viewport.x`);
+        checkNumber(layout.viewport.y, `${path}.viewport.y`);
+        checkNumber(layout.viewport.zoom, `${path}.viewport.zoom`);
+      }
+    }
+  };
+
+  const checkTheme = (theme: unknown, path: string) => {
+    if (!isObject(theme)) {
+      report(path, '应为对象');
+      return;
+    }
+
+    checkString(theme.id, `${path}.id`, true);
+    checkString(theme.title, `${path}.title`);
+    checkDate(theme.created_at, `${path}.created_at`);
+    checkDate(theme.updated_at, `${path}.updated_at`);
+    checkDate(theme.start_date, `${path}.start_date`);
+    checkDate(theme.due_date, `${path}.due_date`);
+
+    if (theme.metadata !== undefined) {
+      if (!isObject(theme.metadata)) {
+        report(`${path}.metadata`, '应为对象');
+      } else {
+        checkString(theme.metadata.version, `${path}.metadata.version`, true);
+        checkString(theme.metadata.theme, `${path}.metadata.theme`);
+      }
+    }
+
+    const nodeIds = new Set<string>();
+    if (theme.children !== undefined) {
+      if (!Array.isArray(theme.children)) {
+        report(`${path}.children`, '应为数组');
+      } else {
+        theme.children.forEach((child: unknown, index: number) =>
+          checkNode(child, `${path}.children[${index}]`, nodeIds)
+        );
+      }
+    }
+
+    if (theme.links !== undefined) {
+      if (!Array.isArray(theme.links)) {
+        report(`${path}.links`, '应为数组');
+      } else {
+        theme.links.forEach((link: unknown, index: number) => {
+          const linkPath = `${path}.links[${index}]`;
+          if (!isObject(link)) {
+            report(linkPath, '应为对象');
+            return;
+          }
+          checkString(link.id, `${linkPath}.id`);
+          checkString(link.label, `${linkPath}.label`);
+          ['source', 'target'].forEach(key => {
+            checkString(link[key], `${linkPath}.${key}`, true);
+            if (typeof link[key] === 'string' && !nodeIds.has(link[key])) {
+              report(`${linkPath}.${key}`, `引用了不存在的节点 ${link[key]}`);
+            }
+          });
+        });
+      }
+    }
+
+    if (theme.layout !== undefined) {
+      checkLayout(theme.layout, `${path}.layout`);
+    }
+  };
+
+  const checkEnumList = (value: unknown, path: string, allowed: string[]) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      report(path, '应为数组');
+      return;
+    }
+    value.forEach((item: unknown, index: number) => checkEnum(item, `${path}[${index}]`, allowed));
+  };
+
+  const checkDateRange = (range: unknown, path: string) => {
+    if (range === undefined) return;
+    if (!isObject(range)) {
+      report(path, '应为对象');
+      return;
+    }
+    checkEnum(range.preset, `${path}.preset`, ['today', 'this_week', 'next_7_days', 'this_month', 'custom']);
+    checkDate(range.from, `${path}.from`);
+    checkDate(range.to, `${path}.to`);
+  };
+
+  const checkView = (view: unknown, path: string) => {
+    if (!isObject(view)) {
+      report(path, '应为对象');
+      return;
+    }
+
+    checkString(view.id, `${path}.id`, true);
+    checkString(view.name, `${path}.name`, true);
+    checkEnum(view.mode, `${path}.mode`, ['dim', 'hide']);
+    if (!isObject(view.filter)) {
+      report(`${path}.filter`, '应为对象');
+      return;
+    }
+    checkEnumList(view.filter.statuses, `${path}.filter.statuses`, ['todo', 'in_progress', 'done']);
+    checkEnumList(view.filter.priorities, `${path}.filter.priorities`, ['low', 'medium', 'high']);
+    if (view.filter.tags !== undefined) {
+      if (!Array.isArray(view.filter.tags)) {
+        report(`${path}.filter.tags`, '应为数组');
+      } else {
+        view.filter.tags.forEach((tag: unknown, index: number) => checkString(tag, `${path}.filter.tags[${index}]`));
+      }
+    }
+    checkDateRange(view.filter.start, `${path}.filter.start`);
+    checkDateRange(view.filter.due, `${path}.filter.due`);
+    if (view.filter.overdue !== undefined && typeof view.filter.overdue !== 'boolean') {
+      report(`${path}.filter.overdue`, '应为布尔值');
+    }
+  };
+
+  if (!isObject(data)) {
+    report('$', '应为对象');
+    return issues;
+  }
+
+  if (!Array.isArray(data.mindMaps)) {
+    report('$.mindMaps', '缺少mindMaps数组');
+    return issues;
+  }
+
+  data.mindMaps.forEach((theme: unknown, index: number) => checkTheme(theme, `$.mindMaps[${index}]`));
+
+  if (data.views !== undefined) {
+    if (!Array.isArray(data.views)) {
+      report('$.views', '应为数组');
+    } else {
+      data.views.forEach((view: unknown, index: number) => checkView(view, `$.views[${index}]`));
+    }
+  }
+
+  return issues;
+};
+
+// 升级并校验已解析的数据，JSON文件和其他格式导入的结果都经过这一步
+export const normalizeMindMapData = (data: unknown): MindMapData => {
+  if (!isObject(data) || !Array.isArray(data.mindMaps)) {
+    throw new MindMapSchemaError([{ path: '$.mindMaps', message: '缺少mindMaps数组' }]);
+  }
+
+  const migrated = migrateMindMapData(data);
+  const issues = validateMindMapData(migrated);
+  if (issues.length > 0) {
+    throw new MindMapSchemaError(issues);
+  }
+
+  return migrated as MindMapData;
+};
+
+// 解析、升级并校验文件内容
+export const parseMindMapData = (content: string): MindMapData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (parseError) {
+    console.error('解析JSON失败:', parseError);
+    throw new Error('文件格式不正确，无法解析JSON');
+  }
+
+  return normalizeMindMapData(data);
+};
@@ -0,0 +1,45 @@
+import { searchMindMap, splitByKeyword } from './mindMapSearch';
+import { createNode, createTheme } from './testHelpers';
+
+describe('searchMindMap', () => {
+  it('标题匹配的结果排在前面，并记录祖先路径', () => {
+    const data = {
+      mindMaps: [createTheme([
+        createNode('a', '需求', { description: '<p>包含<strong>Release</strong>计划</p>' }),
+        createNode('b', '测试', { children: [createNode('c', 'release 检查')] }),
+      ])],
+    };
+    const results = searchMindMap(data, ' RELEASE ');
+    expect(results.map(result => [result.nodeId, result.matches[0].field])).toEqual([['c', 'title'], ['a', 'description']]);
+    expect(results[0].path).toEqual(['测试']);
+  });
+
+  it('在HTML描述的纯文本中查找，不匹配标签和属性', () => {
+    const data = { mindMaps: [createTheme([createNode('a', '节点', { description: '<p class="strong">第一段</p><p>第二段</p>' })])] };
+    expect(searchMindMap(data, 'strong')).toEqual([]);
+    expect(searchMindMap(data, '第一段 第二段')[0].matches).toEqual([{ field: 'description', text: '第一段 第二段' }]);
+  });
+
+  it('树结构之外的连线文字计入目标节点', () => {
+    const theme = createTheme([createNode('a', '甲'), createNode('b', '乙', { tags: ['阻塞项'] })], {
+      links: [{ source: 'a', target: 'b', label: '阻塞' }],
+    });
+    const [result] = searchMindMap({ mindMaps: [theme] }, '阻塞');
+    expect(result.nodeId).toBe('b');
+    expect(result.matches.map(match => match.field)).toEqual(['tags', 'edgeLabel']);
+  });
+});
+
+describe('splitByKeyword', () => {
+  it('不区分大小写切分，保留原文的大小写', () => {
+    expect(splitByKeyword('Todo list TODO', 'todo')).toEqual([
+      { text: 'Todo', matched: true },
+      { text: ' list ', matched: false },
+      { text: 'TODO', matched: true },
+    ]);
+  });
+
+  it('关键词为空时返回整段文字', () => {
+    expect(splitByKeyword('文字', '  ')).toEqual([{ text: '文字', matched: false }]);
+  });
+});
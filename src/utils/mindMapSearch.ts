@@ -0,0 +1,113 @@
+import { MindMapData } from '../types/MindMap';
+import { htmlToPlainText } from './htmlUtils';
+import { flattenMindMap } from './mindMapDiff';
+
+// 搜索的字段，edgeLabel 包括父节点指向该节点的连线文字和指向该节点的其他连线的文字
+export type SearchField = 'title' | 'description' | 'tags' | 'edgeLabel';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: '标题',
+  description: '描述',
+  tags: '标签',
+  edgeLabel: '连线文字',
+};
+
+// 字段中匹配的内容
+export interface SearchMatch {
+  field: SearchField;
+  // 匹配位置附近的文字
+  text: string;
+}
+
+export interface SearchResult {
+  nodeId: string;
+  themeId: string;
+  themeTitle: string;
+  title: string;
+  // 所有祖先节点的标题，从根节点开始
+  path: string[];
+  matches: SearchMatch[];
+}
+
+// 摘要中匹配位置前后保留的字数
+const SNIPPET_CONTEXT = 16;
+
+// 描述转换为纯文本的缓存，避免画布每次变化都重新解析所有描述
+const plainTextCache = new Map<string, string>();
+const MAX_CACHE_SIZE = 1000;
+
+const getPlainText = (html: string): string => {
+  let text = plainTextCache.get(html);
+  if (text === undefined) {
+    if (plainTextCache.size >= MAX_CACHE_SIZE) plainTextCache.clear();
+    text = htmlToPlainText(html).replace(/\s+/g, ' ').trim();
+    plainTextCache.set(html, text);
+  }
+  return text;
+};
+
+// 截取匹配位置附近的文字
+const getSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+};
+
+// 在文字中查找关键词（不区分大小写），没有匹配时返回 null
+const matchText = (field: SearchField, text: string | undefined, keyword: string): SearchMatch | null => {
+  if (!text) return null;
+  const index = text.toLowerCase().indexOf(keyword);
+  return index === -1 ? null : { field, text: getSnippet(text, index, keyword.length) };
+};
+
+// 在所有主题中搜索节点的标题、描述、标签和连线文字，标题匹配的结果排在前面
+export const searchMindMap = (data: MindMapData, query: string): SearchResult[] => {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) return [];
+
+  // 树结构之外的连线文字，按目标节点收集
+  const linkLabels = new Map<string, string[]>();
+  (data.mindMaps || []).forEach(theme => {
+    (theme.links || []).forEach(link => {
+      if (!link.label) return;
+      linkLabels.set(link.target, [...(linkLabels.get(link.target) || []), link.label]);
+    });
+  });
+
+  const titleResults: SearchResult[] = [];
+  const otherResults: SearchResult[] = [];
+  flattenMindMap(data).forEach(({ node, themeId, themeTitle, path }) => {
+    const edgeLabels = [node.edgeLabel, ...(linkLabels.get(node.id) || [])];
+    const matches = [
+      matchText('title', node.title, keyword),
+      matchText('description', node.description ? getPlainText(node.description) : undefined, keyword),
+      ...(node.tags || []).map(tag => matchText('tags', tag, keyword)),
+      ...edgeLabels.map(label => matchText('edgeLabel', label, keyword)),
+    ].filter((match): match is SearchMatch => match !== null);
+    if (matches.length === 0) return;
+
+    const result = { nodeId: node.id, themeId, themeTitle, title: node.title, path, matches };
+    (matches[0].field === 'title' ? titleResults : otherResults).push(result);
+  });
+
+  return [...titleResults, ...otherResults];
+};
+
+// 按关键词（不区分大小写）切分文字，用于突出显示匹配的部分
+export const splitByKeyword = (text: string, query: string): { text: string; matched: boolean }[] => {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword || !text) return [{ text, matched: false }];
+
+  const parts: { text: string; matched: boolean }[] = [];
+  const lowerText = text.toLowerCase();
+  let start = 0;
+  let index = lowerText.indexOf(keyword);
+  while (index !== -1) {
+    if (index > start) parts.push({ text: text.slice(start, index), matched: false });
+    parts.push({ text: text.slice(index, index + keyword.length), matched: true });
+    start = index + keyword.length;
+    index = lowerText.indexOf(keyword, start);
+  }
+  if (start < text.length) parts.push({ text: text.slice(start), matched: false });
+  return parts;
+};
@@ -0,0 +1,47 @@
+import { getCollapseState, getCollapsedIdsToLevel, getDescendantIds, getChildIdsMap, getNodeLevels } from './nodeCollapse';
+import { createEdges } from './testHelpers';
+
+const createNodes = (ids: string[], collapsedIds: string[] = []) =>
+  ids.map(id => ({ id, collapsed: collapsedIds.includes(id) }));
+
+describe('getDescendantIds', () => {
+  it('连线中的环不会重复访问，也不包含节点本身', () => {
+    const childIds = getChildIdsMap(createEdges(['a>b', 'b>c', 'c>a', 'a>a']));
+    expect(Array.from(getDescendantIds('a', childIds)).sort()).toEqual(['b', 'c']);
+  });
+});
+
+describe('getCollapseState', () => {
+  it('折叠的节点隐藏所有后代并记录数量', () => {
+    const state = getCollapseState(createNodes(['a', 'b', 'c', 'd'], ['b']), createEdges(['a>b', 'b>c', 'c>d']));
+    expect(Array.from(state.hiddenIds).sort()).toEqual(['c', 'd']);
+    expect(state.hiddenCounts.get('b')).toBe(2);
+  });
+
+  it('还有其他未折叠的父节点的节点保持显示', () => {
+    const state = getCollapseState(createNodes(['a', 'b', 'c', 'd'], ['b']), createEdges(['a>b', 'a>c', 'b>d', 'c>d']));
+    expect(state.hiddenIds.size).toBe(0);
+    expect(state.hiddenCounts.get('b')).toBe(0);
+  });
+
+  it('只在环中的节点从其中一个开始显示', () => {
+    const state = getCollapseState(createNodes(['a', 'b', 'c'], ['a']), createEdges(['a>b', 'b>c', 'c>a']));
+    expect(Array.from(state.hiddenIds).sort()).toEqual(['b', 'c']);
+  });
+
+  it('没有折叠的节点时不隐藏任何节点', () => {
+    const state = getCollapseState(createNodes(['a', 'b']), createEdges(['a>b']));
+    expect(state.hiddenIds.size).toBe(0);
+    expect(state.hiddenCounts.size).toBe(0);
+  });
+});
+
+describe('getCollapsedIdsToLevel', () => {
+  it('按最短路径计算层级，折叠该层有后代的节点', () => {
+    const nodes = createNodes(['a', 'b', 'c', 'd', 'e']);
+    const edges = createEdges(['a>b', 'b>c', 'c>d', 'a>e', 'e>d']);
+    expect(getNodeLevels(nodes, edges).get('d')).toBe(3);
+    expect(Array.from(getCollapsedIdsToLevel(nodes, edges, 2)).sort()).toEqual(['b', 'e']);
+    expect(Array.from(getCollapsedIdsToLevel(nodes, edges, 4))).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+// 节点的折叠状态：折叠的节点隐藏只能经过它到达的后代节点
+// 只使用节点ID和连线的两端，画布节点和其他数据都可以使用
+
+interface CollapseNode {
+  id: string;
+  collapsed?: boolean;
+}
+
+interface CollapseEdge {
+  source: string;
+  target: string;
+}
+
+export interface CollapseState {
+  // 被折叠的祖先隐藏的节点
+  hiddenIds: Set<string>;
+  // 折叠的节点隐藏的后代数量
+  hiddenCounts: Map<string, number>;
+}
+
+// 按源节点整理出边指向的节点
+export const getChildIdsMap = (edges: CollapseEdge[]): Map<string, string[]> => {
+  const result = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    result.set(edge.source, [...(result.get(edge.source) || []), edge.target]);
+  });
+  return result;
+};
+
+// 获取节点的所有后代，连线中的环不会重复访问，结果不包含节点本身
+export const getDescendantIds = (nodeId: string, childIds: Map<string, string[]>): Set<string> => {
+  const result = new Set<string>();
+  const stack = [...(childIds.get(nodeId) || [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === nodeId || result.has(id)) continue;
+    result.add(id);
+    stack.push(...(childIds.get(id) || []));
+  }
+  return result;
+};
+
+// 获取遍历的起点：没有入边的节点，以及只在环中、从这些节点无法到达的节点中的一个
+const getStartIds = (nodes: CollapseNode[], edges: CollapseEdge[], childIds: Map<string, string[]>): string[] => {
+  const targetIds = new Set(edges.filter(edge => edge.source !== edge.target).map(edge => edge.target));
+  const startIds = nodes.filter(node => !targetIds.has(node.id)).map(node => node.id);
+  const reached = new Set<string>();
+  const reach = (id: string) => {
+    reached.add(id);
+    getDescendantIds(id, childIds).forEach(descendantId => reached.add(descendantId));
+  };
+  startIds.forEach(reach);
+  nodes.forEach(node => {
+    if (reached.has(node.id)) return;
+    startIds.push(node.id);
+    reach(node.id);
+  });
+  return startIds;
+};
+
+// 计算所有折叠的节点隐藏的节点：从起点出发不经过折叠的节点无法到达的节点被隐藏
+// 还有其他未折叠的父节点的节点保持显示
+export const getCollapseState = (nodes: CollapseNode[], edges: CollapseEdge[]): CollapseState => {
+  const hiddenIds = new Set<string>();
+  const hiddenCounts = new Map<string, number>();
+  const collapsedNodes = nodes.filter(node => node.collapsed);
+  if (collapsedNodes.length === 0) return { hiddenIds, hiddenCounts };
+
+  const childIds = getChildIdsMap(edges);
+  const collapsedIds = new Set(collapsedNodes.map(node => node.id));
+  const visibleIds = new Set<string>();
+  const stack = getStartIds(nodes, edges, childIds);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visibleIds.has(id)) continue;
+    visibleIds.add(id);
+    if (!collapsedIds.has(id)) stack.push(...(childIds.get(id) || []));
+  }
+
+  nodes.forEach(node => {
+    if (!visibleIds.has(node.id)) hiddenIds.add(node.id);
+  });
+  collapsedNodes.forEach(node => {
+    let count = 0;
+    getDescendantIds(node.id, childIds).forEach(id => {
+      if (hiddenIds.has(id)) count++;
+    });
+    hiddenCounts.set(node.id, count);
+  });
+  return { hiddenIds, hiddenCounts };
+};
+
+// 计算节点所在的层级，遍历的起点为第 1 层，节点的层级取最短的路径
+export const getNodeLevels = (nodes: CollapseNode[], edges: CollapseEdge[]): Map<string, number> => {
+  const levels = new Map<string, number>();
+  const childIds = getChildIdsMap(edges);
+  let current = getStartIds(nodes, edges, childIds);
+  current.forEach(id => levels.set(id, 1));
+  let level = 1;
+  while (current.length > 0) {
+    level++;
+    const next: string[] = [];
+    for (const id of current) {
+      for (const childId of childIds.get(id) || []) {
+        if (levels.has(childId)) continue;
+        levels.set(childId, level);
+        next.push(childId);
+      }
+    }
+    current = next;
+  }
+  return levels;
+};
+
+// 折叠到指定层级后各节点的折叠状态：该层有后代的节点折叠，其余节点展开
+export const getCollapsedIdsToLevel = (nodes: CollapseNode[], edges: CollapseEdge[], level: number): Set<string> => {
+  const levels = getNodeLevels(nodes, edges);
+  const childIds = getChildIdsMap(edges);
+  return new Set(
+    nodes
+      .filter(node => levels.get(node.id) === level && (childIds.get(node.id) || []).length > 0)
+      .map(node => node.id)
+  );
+};
@@ -0,0 +1,53 @@
+import { isFilterEmpty, isNodeOverdue, matchesFilter, resolveDateRange } from './nodeFilter';
+import { createNode } from './testHelpers';
+
+// 2024-05-15 是周三
+const TODAY = new Date(2024, 4, 15);
+
+describe('resolveDateRange', () => {
+  it('按今天计算预设的日期范围，一周从周一开始', () => {
+    expect(resolveDateRange({ preset: 'today' }, TODAY)).toEqual({ from: '2024-05-15', to: '2024-05-15' });
+    expect(resolveDateRange({ preset: 'this_week' }, TODAY)).toEqual({ from: '2024-05-13', to: '2024-05-19' });
+    expect(resolveDateRange({ preset: 'next_7_days' }, TODAY)).toEqual({ from: '2024-05-15', to: '2024-05-21' });
+    expect(resolveDateRange({ preset: 'this_month' }, TODAY)).toEqual({ from: '2024-05-01', to: '2024-05-31' });
+  });
+
+  it('自定义范围的空值表示没有限制', () => {
+    expect(resolveDateRange({ preset: 'custom', from: '', to: '2024-06-01' }, TODAY)).toEqual({ from: undefined, to: '2024-06-01' });
+  });
+});
+
+describe('isFilterEmpty', () => {
+  it('没有日期的自定义范围不算筛选条件', () => {
+    expect(isFilterEmpty({ statuses: [], due: { preset: 'custom' } })).toBe(true);
+    expect(isFilterEmpty({ due: { preset: 'today' } })).toBe(false);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('没有设置状态的节点按待办处理', () => {
+    expect(matchesFilter(createNode('n1'), { statuses: ['todo'] }, TODAY)).toBe(true);
+    expect(matchesFilter(createNode('n1', '任务', { status: 'done' }), { statuses: ['todo'] }, TODAY)).toBe(false);
+  });
+
+  it('标签符合任意一个即可，各条件同时满足才符合', () => {
+    const node = createNode('n1', '任务', { tags: ['前端', '紧急'], priority: 'high' });
+    expect(matchesFilter(node, { tags: ['紧急', '后端'] }, TODAY)).toBe(true);
+    expect(matchesFilter(node, { tags: ['紧急'], priorities: ['low'] }, TODAY)).toBe(false);
+  });
+
+  it('只比较日期部分，没有日期的节点不符合有限制的范围', () => {
+    const filter = { due: { preset: 'this_week' as const } };
+    expect(matchesFilter(createNode('n1', '任务', { due_date: '2024-05-19T23:00:00.000Z' }), filter, TODAY)).toBe(true);
+    expect(matchesFilter(createNode('n1', '任务', { due_date: '2024-05-20' }), filter, TODAY)).toBe(false);
+    expect(matchesFilter(createNode('n1'), filter, TODAY)).toBe(false);
+  });
+});
+
+describe('isNodeOverdue', () => {
+  it('截止日期早于今天且未完成的节点逾期', () => {
+    expect(isNodeOverdue(createNode('n1', '任务', { due_date: '2024-05-14' }), TODAY)).toBe(true);
+    expect(isNodeOverdue(createNode('n1', '任务', { due_date: '2024-05-15' }), TODAY)).toBe(false);
+    expect(isNodeOverdue(createNode('n1', '任务', { due_date: '2024-05-14', status: 'done' }), TODAY)).toBe(false);
+  });
+});
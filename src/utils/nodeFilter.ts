@@ -0,0 +1,83 @@
+import { MindMapDateRange, MindMapDateRangePreset, MindMapFilter, MindMapFilterMode, MindMapNode } from '../types/MindMap';
+
+export const DATE_RANGE_PRESET_LABELS: Record<MindMapDateRangePreset, string> = {
+  today: '今天',
+  this_week: '本周',
+  next_7_days: '未来7天',
+  this_month: '本月',
+  custom: '自定义',
+};
+
+export const FILTER_MODE_LABELS: Record<MindMapFilterMode, string> = {
+  dim: '淡化',
+  hide: '隐藏',
+};
+
+// 将日期格式化为本地时间的 YYYY-MM-DD
+export const formatLocalDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// 计算日期范围的起止日期（包含两端），没有限制的一端为 undefined
+export const resolveDateRange = (range: MindMapDateRange, today: Date = new Date()): { from?: string; to?: string } => {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const date = today.getDate();
+  switch (range.preset) {
+    case 'today':
+      return { from: formatLocalDate(today), to: formatLocalDate(today) };
+    case 'this_week': {
+      // 一周从周一开始
+      const offset = (today.getDay() + 6) % 7;
+      return {
+        from: formatLocalDate(new Date(year, month, date - offset)),
+        to: formatLocalDate(new Date(year, month, date - offset + 6)),
+      };
+    }
+    case 'next_7_days':
+      return { from: formatLocalDate(today), to: formatLocalDate(new Date(year, month, date + 6)) };
+    case 'this_month':
+      return { from: formatLocalDate(new Date(year, month, 1)), to: formatLocalDate(new Date(year, month + 1, 0)) };
+    default:
+      return { from: range.from || undefined, to: range.to || undefined };
+  }
+};
+
+// 判断日期范围是否有限制
+const isDateRangeSet = (range?: MindMapDateRange): range is MindMapDateRange =>
+  !!range && (range.preset !== 'custom' || !!range.from || !!range.to);
+
+// 判断筛选条件是否为空
+export const isFilterEmpty = (filter: MindMapFilter): boolean =>
+  !filter.statuses?.length &&
+  !filter.priorities?.length &&
+  !filter.tags?.length &&
+  !isDateRangeSet(filter.start) &&
+  !isDateRangeSet(filter.due) &&
+  !filter.overdue;
+
+// 判断日期是否在范围内，没有日期的节点不符合有限制的范围
+const isDateInRange = (value: string | undefined, range: MindMapDateRange, today: Date): boolean => {
+  const { from, to } = resolveDateRange(range, today);
+  if (!value) return !from && !to;
+  // 只比较日期部分，兼容带时间的日期
+  const day = value.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+// 判断节点是否逾期：截止日期早于今天且未完成
+export const isNodeOverdue = (node: MindMapNode, today: Date = new Date()): boolean =>
+  !!node.due_date && node.status !== 'done' && node.due_date.slice(0, 10) < formatLocalDate(today);
+
+// 判断节点是否符合筛选条件，没有设置状态的节点按待办处理
+export const matchesFilter = (node: MindMapNode, filter: MindMapFilter, today: Date = new Date()): boolean => {
+  if (filter.statuses?.length && !filter.statuses.includes(node.status || 'todo')) return false;
+  if (filter.priorities?.length && (!node.priority || !filter.priorities.includes(node.priority))) return false;
+  const tags = filter.tags || [];
+  if (tags.length > 0 && !(node.tags || []).some(tag => tags.includes(tag))) return false;
+  if (isDateRangeSet(filter.start) && !isDateInRange(node.start_date, filter.start, today)) return false;
+  if (isDateRangeSet(filter.due) && !isDateInRange(node.due_date, filter.due, today)) return false;
+  if (filter.overdue && !isNodeOverdue(node, today)) return false;
+  return true;
+};
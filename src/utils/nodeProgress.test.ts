@@ -0,0 +1,46 @@
+import { getAutoCompletedIds, getProgressMap, getProgressPercent, getThemeProgressMap } from './nodeProgress';
+import { createEdges, createNode, createTheme } from './testHelpers';
+
+describe('getProgressMap', () => {
+  it('按所有后代的状态汇总进度，没有后代的节点没有进度', () => {
+    const nodes = [{ id: 'a' }, { id: 'b', status: 'done' as const }, { id: 'c' }, { id: 'd', status: 'done' as const }];
+    const progress = getProgressMap(nodes, createEdges(['a>b', 'a>c', 'c>d']));
+    expect(progress.get('a')).toEqual({ done: 2, total: 3 });
+    expect(progress.get('c')).toEqual({ done: 1, total: 1 });
+    expect(progress.has('b')).toBe(false);
+  });
+
+  it('连线中的环和多个父节点不会重复计算', () => {
+    const nodes = [{ id: 'a' }, { id: 'b' }, { id: 'c', status: 'done' as const }];
+    const progress = getProgressMap(nodes, createEdges(['a>b', 'a>c', 'b>c', 'c>a']));
+    expect(progress.get('a')).toEqual({ done: 1, total: 2 });
+  });
+});
+
+describe('getProgressPercent', () => {
+  it('向下取整，未全部完成时不显示 100%', () => {
+    expect(getProgressPercent({ done: 199, total: 200 })).toBe(99);
+    expect(getProgressPercent({ done: 0, total: 0 })).toBe(0);
+  });
+});
+
+describe('getThemeProgressMap', () => {
+  it('与画布相同，树之外的连线指向的节点也计入进度', () => {
+    const theme = createTheme([createNode('a', 'a', { children: [createNode('b', 'b', { status: 'done' })] }), createNode('c')], {
+      links: [{ source: 'a', target: 'c' }],
+    });
+    expect(getThemeProgressMap(theme).get('a')).toEqual({ done: 1, total: 2 });
+  });
+});
+
+describe('getAutoCompletedIds', () => {
+  it('所有子节点都已完成时逐级向上完成父节点', () => {
+    const nodes = [{ id: 'a' }, { id: 'b' }, { id: 'c', status: 'done' as const }, { id: 'd' }];
+    expect(Array.from(getAutoCompletedIds(nodes, createEdges(['a>b', 'b>c'])))).toEqual(['b', 'a']);
+  });
+
+  it('有未完成的子节点时不完成父节点，没有子节点的节点不变', () => {
+    const nodes = [{ id: 'a' }, { id: 'b', status: 'done' as const }, { id: 'c', status: 'todo' as const }];
+    expect(getAutoCompletedIds(nodes, createEdges(['a>b', 'a>c'])).size).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { MindMapNode, MindMapTheme } from '../types/MindMap';
+import { getChildIdsMap, getDescendantIds } from './nodeCollapse';
+
+// 父节点的完成进度：由后代节点的状态汇总，不影响父节点自身的状态
+
+interface ProgressNode {
+  id: string;
+  status?: MindMapNode['status'];
+}
+
+interface ProgressEdge {
+  source: string;
+  target: string;
+}
+
+export interface NodeProgress {
+  // 已完成的后代数量
+  done: number;
+  // 后代总数
+  total: number;
+}
+
+// 完成百分比，向下取整，以免未全部完成时显示 100%
+export const getProgressPercent = ({ done, total }: NodeProgress): number =>
+  total > 0 ? Math.floor((done / total) * 100) : 0;
+
+// 计算画布中有后代的节点的进度，后代经出边查找，连线中的环不会重复计算
+export const getProgressMap = (nodes: ProgressNode[], edges: ProgressEdge[]): Map<string, NodeProgress> => {
+  const result = new Map<string, NodeProgress>();
+  const statuses = new Map(nodes.map(node => [node.id, node.status]));
+  const childIds = getChildIdsMap(edges);
+  nodes.forEach(node => {
+    if (!childIds.has(node.id)) return;
+    let done = 0;
+    let total = 0;
+    getDescendantIds(node.id, childIds).forEach(id => {
+      if (!statuses.has(id)) return;
+      total++;
+      if (statuses.get(id) === 'done') done++;
+    });
+    if (total > 0) result.set(node.id, { done, total });
+  });
+  return result;
+};
+
+// 计算主题中节点的进度，树结构和树之外的连线与画布上的连线相同，结果与画布一致
+export const getThemeProgressMap = (theme: MindMapTheme): Map<string, NodeProgress> => {
+  const nodes: ProgressNode[] = [];
+  const edges: ProgressEdge[] = [...(theme.links || [])];
+  const visit = (children: MindMapNode[], parentId: string | null) => {
+    children.forEach(child => {
+      nodes.push({ id: child.id, status: child.status });
+      if (parentId) edges.push({ source: parentId, target: child.id });
+      visit(child.children || [], child.id);
+    });
+  };
+  visit(theme.children || [], null);
+  return getProgressMap(nodes, edges);
+};
+
+// 自动完成的父节点：所有子节点都已完成、自身未完成的节点，完成后逐级向上检查
+export const getAutoCompletedIds = (nodes: ProgressNode[], edges: ProgressEdge[]): Set<string> => {
+  const result = new Set<string>();
+  const doneIds = new Set(nodes.filter(node => node.status === 'done').map(node => node.id));
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const childIds = getChildIdsMap(edges);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of nodes) {
+      if (doneIds.has(node.id)) continue;
+      const children = (childIds.get(node.id) || []).filter(id => nodeIds.has(id));
+      if (children.length === 0 || children.some(id => !doneIds.has(id))) continue;
+      doneIds.add(node.id);
+      result.add(node.id);
+      changed = true;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,108 @@
+import { MindMapNode } from '../types/MindMap';
+
+// 节点的优先级、状态和截止日期的显示名称和颜色，画布节点、导入导出共用
+
+export const PRIORITY_LABELS: Record<NonNullable<MindMapNode['priority']>, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+};
+
+export const STATUS_LABELS: Record<NonNullable<MindMapNode['status']>, string> = {
+  todo: '待办',
+  in_progress: '进行中',
+  done: '已完成',
+};
+
+export const DEFAULT_DOT_COLOR = '#d9d9d9';
+
+// 搜索时匹配节点的边框颜色
+export const SEARCH_HIGHLIGHT_COLOR = '#fadb14';
+
+// 筛选时不符合条件的节点和连线的不透明度
+export const DIMMED_OPACITY = 0.2;
+
+// 根据优先级获取颜色
+export const getPriorityColor = (priority?: MindMapNode['priority']): string => {
+  switch (priority) {
+    case 'high':
+      return '#f5222d';
+    case 'medium':
+      return '#faad14';
+    case 'low':
+      return '#52c41a';
+    default:
+      return DEFAULT_DOT_COLOR;
+  }
+};
+
+// 根据状态获取颜色
+export const getStatusColor = (status?: MindMapNode['status']): string => {
+  switch (status) {
+    case 'done':
+      return '#52c41a';
+    case 'in_progress':
+      return '#1890ff';
+    case 'todo':
+      return '#faad14';
+    default:
+      return DEFAULT_DOT_COLOR;
+  }
+};
+
+export type DueDateStatus = 'overdue' | 'today' | 'soon' | '';
+
+// 计算截止日期状态：已过期、今天到期或三天内到期
+export const getDueDateStatus = (dueDate: Date | null): DueDateStatus => {
+  if (!dueDate) return '';
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  if (dueDate < today) {
+    return 'overdue';
+  } else if (dueDate.getTime() === today.getTime()) {
+    return 'today';
+  } else {
+    const diffTime = Math.abs(dueDate.getTime() - today.getTime());
+    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    if (diffDays <= 3) {
+      return 'soon';
+    }
+  }
+  return '';
+};
+
+// 截止日期状态对应的颜色，没有特殊状态时返回 undefined
+export const getDueDateColor = (status: DueDateStatus): string | undefined => {
+  switch (status) {
+    case 'overdue':
+      return '#f5222d';
+    case 'today':
+      return '#fa8c16';
+    case 'soon':
+      return '#faad14';
+    default:
+      return undefined;
+  }
+};
+
+// 格式化日期为 MM-DD 格式
+export const formatShortDate = (date: Date | null): string => {
+  if (!date) return '';
+  return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+};
+
+// 节点上最多显示的标签数量，其余标签显示为数量
+export const MAX_VISIBLE_TAGS = 3;
+
+const TAG_COLORS = ['#1890ff', '#52c41a', '#fa8c16', '#722ed1', '#13c2c2', '#eb2f96', '#2f54eb', '#a0d911', '#f5222d', '#faad14'];
+
+// 根据标签文字获取颜色，同一标签在各处颜色一致
+export const getTagColor = (tag: string): string => {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i += 1) {
+    hash = (hash * 31 + tag.charCodeAt(i)) % 1000003;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
@@ -0,0 +1,130 @@
+import { MindMapData, MindMapNode, MindMapTheme, MindMapView } from '../types/MindMap';
+
+// 测试共用的数据构造函数，只在测试中使用
+
+const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+// 创建节点，标题默认与ID相同
+export const createNode = (id: string, title = id, fields: Partial<MindMapNode> = {}): MindMapNode => ({
+  id,
+  title,
+  created_at: CREATED_AT,
+  ...fields,
+});
+
+// 创建主题，ID默认为 theme-1
+export const createTheme = (children: MindMapNode[] = [], fields: Partial<MindMapTheme> = {}): MindMapTheme => ({
+  id: 'theme-1',
+  title: '主题',
+  created_at: CREATED_AT,
+  children,
+  ...fields,
+});
+
+// 创建只有一个主题的思维导图
+export const createData = (children: MindMapNode[] = [], fields: Partial<MindMapData> = {}): MindMapData => ({
+  mindMaps: [createTheme(children)],
+  ...fields,
+});
+
+// 创建筛选视图
+export const createView = (id: string, name: string, fields: Partial<MindMapView> = {}): MindMapView => ({
+  id,
+  name,
+  filter: {},
+  mode: 'dim',
+  ...fields,
+});
+
+// 按 "源节点>目标节点" 的写法创建连线
+export const createEdges = (pairs: string[]): { source: string; target: string }[] =>
+  pairs.map(pair => {
+    const [source, target] = pair.split('>');
+    return { source, target };
+  });
+
+// 内存中的目录，模拟 File System Access API 的目录句柄，文件内容为字符串
+// caseInsensitive 模拟不区分大小写的文件系统
+export const createMemoryDirectory = (name = 'root', caseInsensitive = false): FileSystemDirectoryHandle => {
+  const getKey = (entryName: string) => (caseInsensitive ? entryName.toLowerCase() : entryName);
+  const files = new Map<string, { name: string; content: string; handle: FileSystemFileHandle }>();
+  const directories = new Map<string, FileSystemDirectoryHandle>();
+
+  const createFileHandle = (fileName: string): FileSystemFileHandle => {
+    const handle = {
+      kind: 'file',
+      name: fileName,
+      getFile: async () => {
+        const content = files.get(getKey(fileName))?.content ?? '';
+        return { name: fileName, size: content.length, lastModified: 0, text: async () => content };
+      },
+      createWritable: async () => {
+        let content = '';
+        return {
+          write: async (data: unknown) => {
+            content += String(data);
+          },
+          close: async () => {
+            const entry = files.get(getKey(fileName));
+            if (entry) entry.content = content;
+          },
+        };
+      },
+      isSameEntry: async (other: unknown) => other === handle,
+    };
+    return handle as unknown as FileSystemFileHandle;
+  };
+
+  const notFound = (entryName: string) => new DOMException(`${entryName} 不存在`, 'NotFoundError');
+
+  const directory = {
+    kind: 'directory',
+    name,
+    getFileHandle: async (fileName: string, options?: { create?: boolean }) => {
+      const existing = files.get(getKey(fileName));
+      if (existing) return existing.handle;
+      if (!options?.create) throw notFound(fileName);
+      const handle = createFileHandle(fileName);
+      files.set(getKey(fileName), { name: fileName, content: '', handle });
+      return handle;
+    },
+    getDirectoryHandle: async (directoryName: string, options?: { create?: boolean }) => {
+      const existing = directories.get(getKey(directoryName));
+      if (existing) return existing;
+      if (!options?.create) throw notFound(directoryName);
+      const handle = createMemoryDirectory(directoryName, caseInsensitive);
+      directories.set(getKey(directoryName), handle);
+      return handle;
+    },
+    removeEntry: async (entryName: string) => {
+      if (!files.delete(getKey(entryName)) && !directories.delete(getKey(entryName))) throw notFound(entryName);
+    },
+    values: async function* () {
+      for (const entry of Array.from(files.values())) yield entry.handle;
+      for (const entry of Array.from(directories.values())) yield entry;
+    },
+    isSameEntry: async (other: unknown) => other === directory,
+  };
+  return directory as unknown as FileSystemDirectoryHandle;
+};
+
+// 在内存目录中写入文件，路径中的文件夹自动创建
+export const writeMemoryFile = async (directory: FileSystemDirectoryHandle, path: string, content: string): Promise<void> => {
+  const parts = path.split('/');
+  let current = directory;
+  for (const part of parts.slice(0, -1)) {
+    current = await current.getDirectoryHandle(part, { create: true });
+  }
+  const writable = await (await current.getFileHandle(parts[parts.length - 1], { create: true })).createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+// 列出内存目录中的文件名，按名称排序
+export const listMemoryFiles = async (directory: FileSystemDirectoryHandle): Promise<string[]> => {
+  const names: string[] = [];
+  for await (const entry of directory.values()) {
+    if (entry.kind === 'file') names.push(entry.name);
+  }
+  return names.sort();
+};
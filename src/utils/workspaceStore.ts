@@ -0,0 +1,169 @@
+import { Node as FlowNode, Edge } from 'reactflow';
+import { MindMapTheme, MindMapView } from '../types/MindMap';
+
+// IndexedDB 数据库信息
+const DB_NAME = 'mindmap-workspace';
+// 1: 画布；2: 增加附件内容；3: 增加文件句柄
+const DB_VERSION = 3;
+const CANVAS_STORE = 'canvases';
+const ATTACHMENT_STORE = 'attachments';
+const HANDLE_STORE = 'handles';
+
+// 保存目录句柄在 handles 仓库中的键
+const SAVE_DIRECTORY_KEY = 'saveDirectory';
+
+// 保存在工作区中的画布
+export interface StoredCanvas {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  nodes: FlowNode[];
+  edges: Edge[];
+  themes?: MindMapTheme[];
+  activeThemeId?: string;
+  views?: MindMapView[];
+}
+
+// 保存在工作区中的附件内容，id 与节点附件的 id 相同
+export interface StoredAttachment {
+  id: string;
+  blob: Blob;
+}
+
+// 检查是否支持 IndexedDB
+export const isWorkspaceStoreSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// 打开数据库，首次打开或版本升级时创建对象仓库
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CANVAS_STORE)) {
+          db.createObjectStore(CANVAS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) {
+          db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HANDLE_STORE)) {
+          db.createObjectStore(HANDLE_STORE, { keyPath: 'key' });
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // 被阻止后才打开成功的连接已经不再使用
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // 其他标签页需要升级数据库时关闭连接，下次使用时重新打开
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      // 其他标签页仍在使用旧版本的数据库，升级被阻止时不再等待
+      request.onblocked = () => {
+        blocked = true;
+        databasePromise = null;
+        reject(new Error('工作区数据库正被其他标签页使用，请关闭其他标签页后重试'));
+      };
+      request.onerror = () => {
+        // 打开失败时允许下次重试
+        databasePromise = null;
+        reject(request.error || new Error('打开工作区数据库失败'));
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// 将 IndexedDB 请求包装为 Promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 获取对象仓库
+const getStore = async (storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(storeName, mode).objectStore(storeName);
+};
+
+// 获取所有画布，按更新时间倒序排列
+export const listCanvases = async (): Promise<StoredCanvas[]> => {
+  const store = await getStore(CANVAS_STORE, 'readonly');
+  const canvases = await requestToPromise<StoredCanvas[]>(store.getAll());
+  return canvases.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// 获取单个画布
+export const getCanvas = async (id: string): Promise<StoredCanvas | undefined> => {
+  const store = await getStore(CANVAS_STORE, 'readonly');
+  return requestToPromise<StoredCanvas | undefined>(store.get(id));
+};
+
+// 新增或更新画布
+export const putCanvas = async (canvas: StoredCanvas): Promise<void> => {
+  const store = await getStore(CANVAS_STORE, 'readwrite');
+  // 节点和连线中可能带有无法被结构化克隆的运行时字段，先转换为纯数据
+  await requestToPromise(store.put(JSON.parse(JSON.stringify(canvas))));
+};
+
+// 删除画布
+export const deleteCanvas = async (id: string): Promise<void> => {
+  const store = await getStore(CANVAS_STORE, 'readwrite');
+  await requestToPromise(store.delete(id));
+};
+
+// 获取附件内容
+export const getAttachmentData = async (id: string): Promise<StoredAttachment | undefined> => {
+  const store = await getStore(ATTACHMENT_STORE, 'readonly');
+  return requestToPromise<StoredAttachment | undefined>(store.get(id));
+};
+
+// 保存附件内容
+export const putAttachmentData = async (attachment: StoredAttachment): Promise<void> => {
+  const store = await getStore(ATTACHMENT_STORE, 'readwrite');
+  await requestToPromise(store.put(attachment));
+};
+
+// 获取所有附件内容的ID
+export const listAttachmentIds = async (): Promise<string[]> => {
+  const store = await getStore(ATTACHMENT_STORE, 'readonly');
+  const keys = await requestToPromise<IDBValidKey[]>(store.getAllKeys());
+  return keys.map(String);
+};
+
+// 删除附件内容
+export const deleteAttachmentData = async (id: string): Promise<void> => {
+  const store = await getStore(ATTACHMENT_STORE, 'readwrite');
+  await requestToPromise(store.delete(id));
+};
+
+// 获取上次选择的保存目录，目录句柄可以直接保存在 IndexedDB 中
+export const getSavedDirectoryHandle = async (): Promise<FileSystemDirectoryHandle | undefined> => {
+  const store = await getStore(HANDLE_STORE, 'readonly');
+  const record = await requestToPromise<{ key: string; handle: FileSystemDirectoryHandle } | undefined>(
+    store.get(SAVE_DIRECTORY_KEY)
+  );
+  return record?.handle;
+};
+
+// 记住选择的保存目录
+export const putSavedDirectoryHandle = async (handle: FileSystemDirectoryHandle): Promise<void> => {
+  const store = await getStore(HANDLE_STORE, 'readwrite');
+  await requestToPromise(store.put({ key: SAVE_DIRECTORY_KEY, handle }));
+};